@@ -0,0 +1,134 @@
+// Local stand-in for buoy telemetry. Serves a plain random walk (the in-browser
+// simulator has the seeded scenario model) over both transports the dashboard understands:
+//
+//   GET  /api/latest?sites=A,B               -> [{ siteId, ts, temp, … }, …]
+//   GET  /api/history?site=A&from=ms&to=ms   -> [{ ts, temp, … }, …] (5 min step)
+//   WS   /ws   client sends {"type":"subscribe","sites":[…]} (and "unsubscribe"), server pushes
+//              {"type":"reading","siteId":…,"reading":{…}} every tick
+//   POST /webhook  receives notification payloads (see README) and logs them
+//   GET  /webhook  -> the last 50 payloads received
+//
+// Usage: npm run mock-server  (PORT, TICK_MS and DROP_EVERY env vars are optional;
+// DROP_EVERY=N closes every socket after N ticks to exercise reconnect/backoff.)
+import http from "node:http";
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TICK_MS = Number(process.env.TICK_MS ?? 5000);
+const DROP_EVERY = Number(process.env.DROP_EVERY ?? 0);
+
+const walk = (prev, step, min, max) => Math.max(min, Math.min(max, prev + (Math.random() - 0.5) * step));
+
+function seed(ts) {
+  return {
+    ts,
+    temp: 16 + Math.random() * 4, sal: 28 + Math.random() * 3, ph: 7.8 + Math.random() * 0.2,
+    do: 7 + Math.random() * 2, turb: 10 + Math.random() * 25, chl: 3 + Math.random() * 10,
+    gene_expr: 20 + Math.random() * 20, methyl: 0.4 + Math.random() * 0.1,
+    metabo: 20 + Math.random() * 20, lipid_ox: 0.25 + Math.random() * 0.1,
+  };
+}
+
+function tick(p, ts) {
+  return {
+    ts,
+    temp: walk(p.temp, 0.3, 8, 26), sal: walk(p.sal, 0.3, 10, 33), ph: walk(p.ph, 0.05, 7.3, 8.3),
+    do: walk(p.do, 0.4, 1.5, 12), turb: walk(p.turb, 6, 1, 300), chl: walk(p.chl, 3, 0.1, 120),
+    gene_expr: walk(p.gene_expr, 4, 0, 100), methyl: walk(p.methyl, 0.03, 0, 1),
+    metabo: walk(p.metabo, 5, 0, 100), lipid_ox: walk(p.lipid_ox, 0.03, 0, 1),
+  };
+}
+
+/** Per-site latest reading; created lazily for any site id a client asks for. */
+const latest = new Map();
+const current = (siteId) => {
+  if (!latest.has(siteId)) latest.set(siteId, seed(Date.now()));
+  return latest.get(siteId);
+};
+
+function history(siteId, from, to) {
+  const rows = [];
+  let r = seed(from);
+  for (let t = from; t <= to; t += 300_000) rows.push(r = tick(r, t));
+  return rows;
+}
+
+function json(res, status, body) {
+  res.writeHead(status, { "content-type": "application/json", "access-control-allow-origin": "*" });
+  res.end(JSON.stringify(body));
+}
+
+/** Notification payloads received on /webhook, newest last. */
+const received = [];
+
+function webhook(req, res) {
+  let body = "";
+  req.on("data", (chunk) => { body += chunk; });
+  req.on("end", () => {
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return json(res, 400, { error: "invalid JSON" });
+    }
+    received.push(payload);
+    if (received.length > 50) received.shift();
+    const a = payload.alert ?? {};
+    console.log(`webhook ${payload.type} ${a.level} ${a.site_name ?? a.site_id}: ${a.summary}`);
+    json(res, 202, { ok: true });
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "access-control-allow-origin": "*",
+      "access-control-allow-methods": "GET, POST",
+      "access-control-allow-headers": "content-type",
+    });
+    return res.end();
+  }
+  if (url.pathname === "/webhook") return req.method === "POST" ? webhook(req, res) : json(res, 200, received);
+  if (url.pathname === "/api/latest") {
+    const sites = (url.searchParams.get("sites") ?? "").split(",").filter(Boolean);
+    return json(res, 200, sites.map(siteId => ({ siteId, ...current(siteId) })));
+  }
+  if (url.pathname === "/api/history") {
+    const site = url.searchParams.get("site");
+    const now = Date.now();
+    const from = Number(url.searchParams.get("from") ?? now - 3 * 3600_000);
+    const to = Math.min(Number(url.searchParams.get("to") ?? now), now);
+    if (!site || !Number.isFinite(from) || !Number.isFinite(to)) return json(res, 400, { error: "site, from and to are required" });
+    return json(res, 200, history(site, from, to));
+  }
+  json(res, 404, { error: "not found" });
+});
+
+const wss = new WebSocketServer({ server, path: "/ws" });
+wss.on("connection", (socket) => {
+  socket.sites = new Set();
+  socket.ticks = 0;
+  socket.on("message", (data) => {
+    try {
+      const msg = JSON.parse(String(data));
+      if (msg.type === "subscribe" && Array.isArray(msg.sites)) msg.sites.forEach(s => socket.sites.add(String(s)));
+      if (msg.type === "unsubscribe" && Array.isArray(msg.sites)) msg.sites.forEach(s => socket.sites.delete(String(s)));
+    } catch { /* ignore malformed frames */ }
+  });
+});
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [siteId, prev] of latest) latest.set(siteId, tick(prev, now));
+  for (const socket of wss.clients) {
+    for (const siteId of socket.sites) {
+      socket.send(JSON.stringify({ type: "reading", siteId, reading: current(siteId) }));
+    }
+    if (DROP_EVERY && ++socket.ticks >= DROP_EVERY) socket.terminate();
+  }
+}, TICK_MS);
+
+server.listen(PORT, () => {
+  console.log(`mock telemetry on http://localhost:${PORT}/api and ws://localhost:${PORT}/ws, webhook receiver on http://localhost:${PORT}/webhook`);
+});
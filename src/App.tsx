@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,303 +6,541 @@ import { Select } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { Download, Bell, MapPin, Activity, Clock, RefreshCw, Satellite } from "lucide-react";
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Area, AreaChart } from "recharts";
-
-type ParamKey = "temp" | "sal" | "ph" | "do" | "turb" | "chl" | "gene_expr" | "methyl" | "metabo" | "lipid_ox";
-
-type Reading = {
-  ts: number;
-  temp: number;
-  sal: number;
-  ph: number;
-  do: number;
-  turb: number;
-  chl: number;
-  gene_expr: number; // HAB-related toxin gene expression (AU)
-  methyl: number;    // Epigenetic stress methylation fraction (0-1)
-  metabo: number;    // Oxidative/toxin metabolite index (AU)
-  lipid_ox: number;  // Lipid oxidation ratio (0-1)
-};
-
-type Site = {
-  id: string;
-  name: string;
-  lat: number;
-  lon: number;
-  depth_m: number;
-};
-
-const SITES: Site[] = [
-  { id: "PS-EDMONDS", name: "Edmonds Nearshore", lat: 47.812, lon: -122.377, depth_m: 4 },
-  { id: "PS-ALKI", name: "Alki Cove", lat: 47.576, lon: -122.413, depth_m: 5 },
-  { id: "PS-DOCKTON", name: "Dockton Cove", lat: 47.373, lon: -122.463, depth_m: 3 },
-  { id: "PS-SKAGIT", name: "Skagit Bay Farm", lat: 48.327, lon: -122.482, depth_m: 2 },
-];
-
-const THRESHOLDS: Record<ParamKey, { warn: number; crit: number; dir: "over" | "under" }>
-  = {
-    temp: { warn: 20, crit: 24, dir: "over" },
-    sal:  { warn: 20, crit: 15, dir: "under" },
-    ph:   { warn: 7.7, crit: 7.6, dir: "under" },
-    do:   { warn: 6.0, crit: 4.0, dir: "under" },
-    turb: { warn: 50, crit: 150, dir: "over" },
-    chl:  { warn: 15, crit: 40, dir: "over" },
-    gene_expr: { warn: 40, crit: 70, dir: "over" },
-    methyl:    { warn: 0.55, crit: 0.7, dir: "over" },
-    metabo:    { warn: 50, crit: 75, dir: "over" },
-    lipid_ox:  { warn: 0.35, crit: 0.55, dir: "over" },
-  };
-
-const fmttime = (t: number) => new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-
-function classifyAlert(key: ParamKey, value: number): "ok" | "warn" | "crit" {
-  const { warn, crit, dir } = THRESHOLDS[key];
-  if (dir === "over") {
-    if (value >= crit) return "crit";
-    if (value >= warn) return "warn";
-    return "ok";
-  } else {
-    if (value <= crit) return "crit";
-    if (value <= warn) return "warn";
-    return "ok";
-  }
-}
-
-function randomWalk(prev: number, step: number, min: number, max: number) {
-  const next = prev + (Math.random() - 0.5) * step;
-  return Math.max(min, Math.min(max, next));
-}
-
-function generateSeeded(start: number): Reading {
-  return {
-    ts: start,
-    temp: 16 + Math.random() * 4,
-    sal:  28 + Math.random() * 3,
-    ph:   7.8 + Math.random() * 0.2,
-    do:   7 + Math.random() * 2,
-    turb: 10 + Math.random() * 25,
-    chl:  3 + Math.random() * 10,
-    gene_expr: 20 + Math.random() * 20,
-    methyl: 0.4 + Math.random() * 0.1,
-    metabo: 20 + Math.random() * 20,
-    lipid_ox: 0.25 + Math.random() * 0.1,
-  };
-}
-
-function tick(prev: Reading, ts: number): Reading {
-  return {
-    ts,
-    temp: randomWalk(prev.temp, 0.3, 8, 26),
-    sal:  randomWalk(prev.sal, 0.3, 10, 33),
-    ph:   randomWalk(prev.ph, 0.05, 7.3, 8.3),
-    do:   randomWalk(prev.do, 0.4, 1.5, 12),
-    turb: randomWalk(prev.turb, 6, 1, 300),
-    chl:  randomWalk(prev.chl, 3, 0.1, 120),
-    gene_expr: randomWalk(prev.gene_expr, 4, 0, 100),
-    methyl:    randomWalk(prev.methyl, 0.03, 0, 1),
-    metabo:    randomWalk(prev.metabo, 5, 0, 100),
-    lipid_ox:  randomWalk(prev.lipid_ox, 0.03, 0, 1),
-  };
-}
-
-function toCSV(rows: Reading[]): string {
-  const header = [
-    "timestamp", "time_local",
-    "temp_c", "sal_psu", "ph", "do_mgL", "turb_ntu", "chl_ugL",
-    "gene_expr_AU", "methyl_frac", "metabo_AU", "lipid_ox_frac"
-  ].join(",");
-  const lines = rows.map(r => [
-    r.ts,
-    new Date(r.ts).toISOString(),
-    r.temp.toFixed(2),
-    r.sal.toFixed(2),
-    r.ph.toFixed(2),
-    r.do.toFixed(2),
-    r.turb.toFixed(1),
-    r.chl.toFixed(1),
-    r.gene_expr.toFixed(1),
-    r.methyl.toFixed(3),
-    r.metabo.toFixed(1),
-    r.lipid_ox.toFixed(3),
-  ].join(","));
-  return [header, ...lines].join("\n");
-}
-
-function downloadText(filename: string, text: string) {
-  const blob = new Blob([text], { type: "text/csv;charset=utf-8;" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
-}
-
-function MetricCard({ label, value, unit, alert }: { label: string; value: number; unit: string; alert: "ok"|"warn"|"crit" }) {
-  const tone = alert === "crit" ? "bg-red-500/10 text-red-700 border-red-500/30"
+import { Download, Bell, MapPin, Activity, Clock, RefreshCw, Satellite, Upload } from "lucide-react";
+import { ConnectionBadge } from "@/components/connection-badge";
+import { ThresholdProfiles } from "@/components/threshold-profiles";
+import type { AlertLevel, ParamKey, Reading } from "@/lib/types";
+import { BIOINDICATOR_KEYS, PARAM_KEYS, PARAM_META, UNDERIVED } from "@/lib/types";
+import { createTelemetrySource, isBenchmarkSource } from "@/lib/telemetry";
+import { classifyAlert, profileFor, resolveThresholds } from "@/lib/thresholds";
+import { useThresholdConfig } from "@/hooks/use-threshold-config";
+import { useAlertEngine, useAlertRules, useScratchAlertEngine } from "@/hooks/use-alert-engine";
+import { useSiteSeries } from "@/hooks/use-live-series";
+import { activeAlertsFor, allActiveAlerts, severityRank, summarizeSites, type AlertEvent } from "@/lib/alert-engine";
+import { fmtdatetime, fmtnum, fmttime } from "@/lib/format";
+import { withGaps, DEFAULT_RETENTION, importReadings, indexAt, LIVE_WINDOW_MS, loadHistory, mergeFields, type RetentionSettings } from "@/lib/history";
+import { flushQueue, lastReadingBefore, pruneBefore, queueReading } from "@/lib/history-store";
+import { lttb } from "@/lib/downsample";
+import { rangeLabel, type TimeRange } from "@/lib/time-range";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { useRangeData } from "@/hooks/use-range-data";
+import { TimeRangePicker } from "@/components/time-range-picker";
+import { StorageSettings } from "@/components/storage-settings";
+import { SiteMap } from "@/components/site-map";
+import { ComparisonChart } from "@/components/comparison-chart";
+import { ImportDialog } from "@/components/import-dialog";
+import { ExportDialog } from "@/components/export-dialog";
+import { SparkTile } from "@/components/spark-tile";
+import { ActiveAlerts } from "@/components/active-alerts";
+import { AlertHistory } from "@/components/alert-history";
+import { AlertRules } from "@/components/alert-rules";
+import { PortfolioSummary } from "@/components/portfolio-summary";
+import { QcSettings } from "@/components/qc-settings";
+import { QC_COLORS } from "@/components/qc-dot";
+import { useQcConfig } from "@/hooks/use-qc-config";
+import { useForecastOptions, useHabRiskConfig } from "@/hooks/use-hab-config";
+import { HabGauge, type HabCrossings } from "@/components/hab-gauge";
+import { HAB_INPUTS, habRisk } from "@/lib/hab-risk";
+import { crossingTime, holtForecast } from "@/lib/forecast";
+import { useHarvest, useReopenCriteria } from "@/hooks/use-harvest";
+import { HarvestBadge, HarvestDialog, HarvestPanel, type HarvestEdit } from "@/components/harvest";
+import { checkReopen, statusOf } from "@/lib/harvest";
+import { useHealthRules, useInstruments } from "@/hooks/use-instruments";
+import { InstrumentRegistry } from "@/components/instrument-registry";
+import { gapThresholdMs, instrumentChecks, staleParams } from "@/lib/instruments";
+import { useSamples } from "@/hooks/use-samples";
+import { LabSamples } from "@/components/lab-samples";
+import { sampleMarkers, type SampleMarker } from "@/lib/samples";
+import { useAnnotations } from "@/hooks/use-annotations";
+import { annotationsFor } from "@/lib/annotations";
+import { AnnotationDialog, EventLog, type AnnotationDraft } from "@/components/event-log";
+import { useNotifier } from "@/hooks/use-notifier";
+import { NotificationSettings } from "@/components/notification-settings";
+import { useSiteConfig } from "@/hooks/use-site-config";
+import { SiteManager } from "@/components/site-manager";
+import { activeSites, allTags, matchesSiteFilter, tagLabel } from "@/lib/sites";
+import { useDerivedConfig } from "@/hooks/use-derived-config";
+import { DerivedSettings } from "@/components/derived-settings";
+import { deriveReading, deriveSeries } from "@/lib/derived";
+import { Reports } from "@/components/reports";
+import { useSimulation } from "@/hooks/use-simulation";
+import { SimulatorPanel } from "@/components/simulator-panel";
+import { RelationshipExplorer } from "@/components/relationship-explorer";
+import { createLiveStore } from "@/lib/live-store";
+import { SiteList } from "@/components/site-list";
+import { TrendChart } from "@/components/trend-chart";
+import { useBenchmark } from "@/hooks/use-benchmark";
+import { BenchmarkPanel } from "@/components/benchmark-panel";
+import { extendQcSeries, maskFailed, qcLatest, qcSeries, qcSummary, type QcConfig, type QcFlag, type QcFlags } from "@/lib/qc";
+import { parseUrlState, shareUrl, type UrlState } from "@/lib/url-state";
+import { useUrlState } from "@/hooks/use-url-state";
+import { saveView } from "@/lib/views";
+import { useDashboardLayout, useSavedViews } from "@/hooks/use-views";
+import { ViewSwitcher, ViewsPanel } from "@/components/views";
+
+const DEFAULT_PARAM: ParamKey = "temp";
+const DEFAULT_TAB = "thresholds";
+const DEFAULT_RANGE: TimeRange = { preset: "3h" };
+
+/** Card labels where the full parameter name is too long. */
+const METRIC_LABELS: Partial<Record<ParamKey, string>> = { temp: "Temp", do: "DO", chl: "Chl‑a" };
+
+function MetricCard({ label, value, unit, alert, qc, stale }: { label: string; value: number; unit: string; alert: AlertLevel; qc?: QcFlag; stale?: boolean }) {
+  const tone = stale ? "bg-slate-100 text-slate-500 border-slate-300"
+    : alert === "crit" ? "bg-red-500/10 text-red-700 border-red-500/30"
     : alert === "warn" ? "bg-yellow-500/10 text-yellow-700 border-yellow-500/30"
     : "bg-emerald-500/10 text-emerald-700 border-emerald-500/30";
   return (
     <Card className={`rounded-2xl ${tone}`}>
       <CardContent className="p-4">
-        <div className="text-sm opacity-80">{label}</div>
-        <div className="text-3xl font-semibold tabular-nums">{value.toFixed(2)} <span className="text-base align-top opacity-70">{unit}</span></div>
+        <div className="text-sm opacity-80 flex items-center justify-between gap-1">
+          {label}
+          {stale && <span className="text-[10px] uppercase font-medium">stale</span>}
+          {!stale && (qc === "suspect" || qc === "fail") && <span className="text-[10px] uppercase font-medium" style={{ color: QC_COLORS[qc] }}>QC {qc}</span>}
+        </div>
+        <div className="text-3xl font-semibold tabular-nums">{fmtnum(value)} <span className="text-base align-top opacity-70">{unit}</span></div>
       </CardContent>
     </Card>
   );
 }
 
-function MiniSpark({ data, dataKey }: { data: Reading[]; dataKey: ParamKey }) {
-  return (
-    <ResponsiveContainer width="100%" height={56}>
-      <AreaChart data={data} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
-        <XAxis dataKey="ts" hide domain={["dataMin", "dataMax"]} type="number"/>
-        <YAxis hide/>
-        <Tooltip formatter={(v:any)=>Number(v).toFixed(2)} labelFormatter={(l:any)=>new Date(l).toLocaleString()} />
-        <Area type="monotone" dataKey={dataKey} strokeWidth={2} fillOpacity={0.1} />
-      </AreaChart>
-    </ResponsiveContainer>
-  );
-}
-
 export default function App() {
-  const [activeSite, setActiveSite] = useState<string>(SITES[0].id);
-  const [series, setSeries] = useState<Record<string, Reading[]>>({});
+  const [siteConfig, setSiteConfig] = useSiteConfig();
+  const configuredSites = useMemo(() => activeSites(siteConfig), [siteConfig]);
+  const benchmark = useBenchmark();
+  // A benchmark run temporarily swaps in its synthetic sites and source.
+  const sites = benchmark.run?.sites ?? configuredSites;
+  // Effects that stream or load per site re-run only when the set of ids changes, not on every rename.
+  const siteKey = sites.map(s => s.id).join(",");
+  // Deep links: the query string seeds the first render, then `useUrlState` keeps it in step.
+  const initialUrl = useMemo(() => parseUrlState(window.location.search), []);
+  const [activeSite, setActiveSite] = useState<string>(() => sites.some(s => s.id === initialUrl.site) ? initialUrl.site! : sites[0].id);
+  const liveStore = useMemo(() => createLiveStore(), []);
   const [streaming, setStreaming] = useState(true);
-  const [search, setSearch] = useState("");
-  const [showParam, setShowParam] = useState<ParamKey>("temp");
-  const [activeTab, setActiveTab] = useState("thresholds");
-  const timerRef = useRef<number | null>(null);
+  const [search, setSearch] = useState(initialUrl.q ?? "");
+  const [siteRegion, setSiteRegion] = useState("");
+  const [siteTag, setSiteTag] = useState("");
+  const [showParam, setShowParam] = useState<ParamKey>(initialUrl.param ?? DEFAULT_PARAM);
+  const [activeTab, setActiveTab] = useState(initialUrl.tab ?? DEFAULT_TAB);
+  const [layout, setLayout] = useDashboardLayout();
+  const [views, setViews] = useSavedViews();
+  const [viewId, setViewId] = useState(() => views.some(v => v.id === initialUrl.view) ? initialUrl.view! : "");
+  const currentView = views.find(v => v.id === viewId);
+  const [siteSort, setSiteSort] = useState<"name" | "severity">("name");
+  const [alertScope, setAlertScope] = useState<"all" | "site">("all");
+  const telemetry = useMemo(() => createTelemetrySource(), []);
+  const source = benchmark.run?.source ?? telemetry;
+  // Before the history load below, so backfill already uses the saved seed and scenarios.
+  const simulation = useSimulation(telemetry);
+  const [connection, setConnection] = useState(source.status());
+  const [thresholdConfig, setThresholdConfig] = useThresholdConfig();
+  const [alertRules, setAlertRules] = useAlertRules();
+  const alertEngine = useAlertEngine();
+  const scratchAlerts = useScratchAlertEngine();
+  const [qcConfig, setQcConfig] = useQcConfig();
+  const [habConfig, setHabConfig] = useHabRiskConfig();
+  const [forecastOptions, setForecastOptions] = useForecastOptions();
+  const harvest = useHarvest();
+  const [reopenCriteria, setReopenCriteria] = useReopenCriteria();
+  const [harvestEdit, setHarvestEdit] = useState<HarvestEdit | null>(null);
+  const [instruments, setInstruments] = useInstruments(configuredSites.map(s => s.id));
+  const [healthRules, setHealthRules] = useHealthRules();
+  const [samples, setSamples] = useSamples();
+  const [annotations, setAnnotations] = useAnnotations();
+  const [annotationDraft, setAnnotationDraft] = useState<AnnotationDraft | null>(null);
+  const [derivedConfig, setDerivedConfig] = useDerivedConfig();
+  const derivedRef = useRef(derivedConfig);
+  derivedRef.current = derivedConfig;
+  const qcRef = useRef(qcConfig);
+  qcRef.current = qcConfig;
+  const notifier = useNotifier(alertEngine.state.log, id => siteConfig.sites.find(s => s.id === id)?.name ?? id);
+  // Wall clock for staleness; readings stop arriving exactly when it matters.
+  const [clock, setClock] = useState(() => Date.now());
+  const [retention, setRetention] = usePersistentState<RetentionSettings>("m2m.retention.v1", DEFAULT_RETENTION);
+  const [range, setRange] = useState<TimeRange>(initialUrl.range ?? DEFAULT_RANGE);
+  const [compare, setCompare] = useState(false);
+  const [compareSites, setCompareSites] = useState<string[]>(() => sites.map(s => s.id));
+  const [normalize, setNormalize] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  useEffect(() => source.onStatus(setConnection), [source]);
 
   useEffect(() => {
-    const seed: Record<string, Reading[]> = {};
-    for (const site of SITES) {
-      const rows: Reading[] = [];
-      const now = Date.now();
-      let r = generateSeeded(now - 3 * 3600_000);
-      for (let t = now - 3 * 3600_000; t <= now; t += 300_000) {
-        r = tick(r, t);
-        rows.push(r);
-      }
-      seed[site.id] = rows;
-    }
-    setSeries(seed);
-  }, []);
+    // Benchmark sites start empty and are never stored.
+    if (isBenchmarkSource(source)) return;
+    let cancelled = false;
+    const now = Date.now();
+    const ids = siteKey.split(",");
+    const derive = { derived: derivedRef.current, qc: qcRef.current };
+    Promise.all(ids.map(id => loadHistory(source, id, now - LIVE_WINDOW_MS, now, derive).catch(() => [] as Reading[])))
+      .then(loaded => {
+        if (cancelled) return;
+        ids.forEach((id, i) => {
+          const live = liveStore.rows(id);
+          const cutoff = live.length ? live[0].ts : Infinity;
+          // Readings that arrived before their history started thermal stress from zero: carry it on from the history instead.
+          const rows = [...loaded[i].filter(r => r.ts < cutoff), ...live.map(r => ({ ...r, thermal_dh: NaN }))];
+          const derived = deriveSeries(rows, derive.derived, undefined, qcSeries(rows, derive.qc));
+          derived.slice(rows.length - live.length).forEach(r => queueReading(id, r));
+          liveStore.replace(id, derived);
+        });
+      });
+    return () => { cancelled = true; };
+  }, [source, siteKey, liveStore]);
 
   useEffect(() => {
-    if (!streaming) {
-      if (timerRef.current) window.clearInterval(timerRef.current);
-      timerRef.current = null;
-      return;
-    }
-    timerRef.current = window.setInterval(() => {
-      setSeries(prev => {
-        const copy: Record<string, Reading[]> = { ...prev };
-        const now = Date.now();
-        for (const site of SITES) {
-          const arr = copy[site.id] ?? [];
-          const last = arr[arr.length - 1] ?? generateSeeded(now);
-          const next = tick(last, now);
-          copy[site.id] = [...arr.slice(-240), next];
-        }
-        return copy;
-      });
-    }, 5000);
+    if (!streaming) return;
+    const persist = !isBenchmarkSource(source);
+    const unsubscribe = siteKey.split(",").map(id => source.subscribe(id, incoming => {
+      const prevReading = liveStore.last(id);
+      if (prevReading && incoming.ts <= prevReading.ts) return;
+      // Derived values are computed once, on arrival, and stored with the reading.
+      // A temperature that fails QC adds nothing to thermal stress.
+      const temp = qcLatest([...liveStore.rows(id), incoming], "temp", qcRef.current);
+      const reading = deriveReading(incoming, prevReading, derivedRef.current, { temp });
+      if (persist) queueReading(id, reading);
+      liveStore.push(id, reading);
+    }));
+    source.connect();
     return () => {
-      if (timerRef.current) window.clearInterval(timerRef.current);
+      unsubscribe.forEach(off => off());
+      source.disconnect();
+      flushQueue();
     };
-  }, [streaming]);
+  }, [streaming, source, siteKey, liveStore]);
 
-  const data = series[activeSite] ?? [];
+  // Benchmark sites leave nothing behind once the run ends, not even their scratch alerts, and the site on screen before it comes back.
+  const benchmarkRun = benchmark.run;
+  const { reset: resetScratchAlerts } = scratchAlerts;
+  useEffect(() => {
+    if (!benchmarkRun) return;
+    const previousSite = activeSite;
+    return () => {
+      liveStore.remove(benchmarkRun.sites.map(s => s.id));
+      resetScratchAlerts();
+      setActiveSite(previousSite);
+    };
+  }, [benchmarkRun, liveStore, resetScratchAlerts]);
+
+  useEffect(() => {
+    pruneBefore(siteConfig.sites.map(s => s.id), Date.now() - retention.days * 86_400_000).catch(() => {});
+  }, [retention.days, siteConfig.sites]);
+
+  // Archiving the site on screen moves to the first remaining one.
+  useEffect(() => {
+    if (!sites.some(s => s.id === activeSite)) setActiveSite(current => sites.some(s => s.id === current) ? current : sites[0].id);
+  }, [sites, activeSite]);
+
+  useEffect(() => {
+    const id = window.setInterval(() => setClock(Date.now()), 30_000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  // The only site whose readings re-render the whole page; lists, tiles and other tabs subscribe to their own sites.
+  const data = useSiteSeries(liveStore, activeSite);
   const latest = data[data.length - 1];
+  const site = sites.find(s => s.id === activeSite) ?? sites[0];
+  const limits = useMemo(() => resolveThresholds(thresholdConfig, activeSite), [thresholdConfig, activeSite]);
+
+  const rangeSites = useMemo(
+    () => compare ? [...new Set([activeSite, ...compareSites])] : [activeSite],
+    [compare, compareSites, activeSite],
+  );
+  const { rows: rangeRows, bounds: rangeBounds, loading: rangeLoading } = useRangeData(
+    source, rangeSites, range, liveStore, { derived: derivedConfig, qc: qcConfig }, historyVersion,
+  );
+  const rangeData = rangeRows[activeSite] ?? [];
+  const gapMs = useMemo(() => gapThresholdMs(instruments, activeSite, healthRules), [instruments, activeSite, healthRules]);
+  const chartData = useMemo(() => withGaps(lttb(rangeData, showParam, 800), rangeData, gapMs), [rangeData, showParam, gapMs]);
+  // Memoized per site so tiles and the trend chart skip re-rendering when only other sites changed.
+  const sparkSeries = useMemo(
+    () => Object.fromEntries(PARAM_KEYS.map(k => [k, withGaps(lttb(rangeData, k, 150), rangeData, gapMs)])) as Record<ParamKey, Reading[]>,
+    [rangeData, gapMs],
+  );
+  const markers = useMemo(() => Object.fromEntries(BIOINDICATOR_KEYS.map(k =>
+    [k, sampleMarkers(samples, activeSite, k, limits, rangeBounds.from, rangeBounds.live ? Infinity : rangeBounds.to)],
+  )) as Partial<Record<ParamKey, SampleMarker[]>>, [samples, activeSite, limits, rangeBounds]);
+  const siteAnnotations = useMemo(
+    () => annotationsFor(annotations, activeSite, rangeBounds.from, rangeBounds.live ? Infinity : rangeBounds.to),
+    [annotations, activeSite, rangeBounds],
+  );
+  const pickAnnotation = useCallback((start: number, end?: number) => setAnnotationDraft({ siteId: activeSite, start, end }), [activeSite]);
+  const staleKeys = useMemo(() => staleParams(instruments, activeSite, data, clock, healthRules), [instruments, activeSite, data, clock, healthRules]);
+  // A long range gains one reading at a time: only readings near the new one are flagged again,
+  // and only the points the charts draw are looked up.
+  const rangeQc = useRef<{ rows: Reading[]; flags: QcFlags[]; config: QcConfig }>();
+  const rangeFlags = useMemo(() => {
+    const flags = extendQcSeries(rangeQc.current, rangeData, qcConfig);
+    rangeQc.current = { rows: rangeData, flags, config: qcConfig };
+    return flags;
+  }, [rangeData, qcConfig]);
+  const flagsByTs = useMemo(() => {
+    const out = new Map<number, QcFlags>();
+    for (const r of [chartData, ...Object.values(sparkSeries)].flat()) {
+      const i = indexAt(rangeData, r.ts);
+      if (i >= 0) out.set(r.ts, rangeFlags[i]);
+    }
+    return out;
+  }, [chartData, sparkSeries, rangeData, rangeFlags]);
+  const rangeQcSummary = useMemo(() => qcSummary(rangeFlags), [rangeFlags]);
+  const liveFlags = useMemo(() => qcSeries(data, qcConfig), [data, qcConfig]);
+  const latestQc = liveFlags[data.length - 1];
+  // Risk and forecasts work on QC-clean live data, like alerting.
+  const cleanData = useMemo(() => maskFailed(data, liveFlags), [data, liveFlags]);
+  const risk = useMemo(() => habRisk(cleanData[cleanData.length - 1], limits, habConfig), [cleanData, limits, habConfig]);
+  const habCrossings = useMemo(() => Object.fromEntries(HAB_INPUTS.map(k => {
+    const fc = holtForecast(cleanData, k, forecastOptions);
+    const lim = limits[k];
+    return [k, fc && { warn: crossingTime(fc, lim.warn, lim.dir), crit: crossingTime(fc, lim.crit, lim.dir) }];
+  })) as HabCrossings, [cleanData, limits, forecastOptions]);
+  // The projection only makes sense when the chart ends at "now".
+  const trendForecast = useMemo(
+    () => rangeBounds.live ? holtForecast(cleanData, showParam, forecastOptions) : null,
+    [rangeBounds.live, cleanData, showParam, forecastOptions],
+  );
+  const trendData = useMemo(() => trendForecast
+    ? [...chartData, ...trendForecast.points.map(p => ({ ts: p.ts, forecast: p.mean, band: [p.lo, p.hi] }))]
+    : chartData, [chartData, trendForecast]);
+  const spanMs = rangeData.length ? rangeData[rangeData.length - 1].ts - rangeData[0].ts : 0;
+  const tickTime = spanMs > 36 * 3600_000 ? fmtdatetime : fmttime;
+
+  const { evaluate } = alertEngine;
+  const { evaluate: evaluateScratch } = scratchAlerts;
+  // Evaluate every site on each flush of the live store, but only those whose series changed unless limits, rules or QC did.
+  // Values that fail QC are masked out so a bad sensor cannot raise (or clear) an alert.
+  // Benchmark sites are evaluated into the scratch engine: the run pays for alerting, but nothing reaches
+  // the persisted alert log, notifications or harvest proposals.
+  const evaluated = useRef<{ config?: unknown; rules?: unknown; qc?: unknown; rows: Record<string, Reading[]> }>({ rows: {} });
+  useEffect(() => {
+    const run = () => {
+      const series = liveStore.snapshot();
+      const memo = evaluated.current;
+      const all = memo.config !== thresholdConfig || memo.rules !== alertRules || memo.qc !== qcConfig;
+      const batch = sites
+        .filter(s => series[s.id]?.length && (all || memo.rows[s.id] !== series[s.id]))
+        .map(s => ({
+          siteId: s.id,
+          rows: maskFailed(series[s.id], qcSeries(series[s.id], qcConfig)),
+          limits: resolveThresholds(thresholdConfig, s.id),
+        }));
+      evaluated.current = { config: thresholdConfig, rules: alertRules, qc: qcConfig, rows: series };
+      (benchmarkRun ? evaluateScratch : evaluate)(batch, alertRules);
+    };
+    run();
+    return liveStore.subscribe(run);
+  }, [liveStore, sites, thresholdConfig, alertRules, qcConfig, evaluate, evaluateScratch, benchmarkRun]);
+
+  // Instrument health runs on the wall clock. While paused nothing can arrive, so staleness is not judged,
+  // and the first judgement waits one clock tick so the stream can deliver after load or resume.
+  // Starting or ending a benchmark run waits again; meanwhile its synthetic sites are judged into the scratch engine
+  // and the configured sites, which are not streamed, are not judged at all.
+  const { evaluateHealth } = alertEngine;
+  const { evaluateHealth: evaluateScratchHealth } = scratchAlerts;
+  const live = useRef({ streaming, run: benchmarkRun, since: clock });
+  if (live.current.streaming !== streaming || live.current.run !== benchmarkRun) live.current.since = Date.now();
+  live.current.streaming = streaming;
+  live.current.run = benchmarkRun;
+  useEffect(() => {
+    const { streaming, since } = live.current;
+    if (!streaming || clock - since < 20_000) return;
+    const now = Date.now();
+    const series = liveStore.snapshot();
+    (benchmarkRun ? evaluateScratchHealth : evaluateHealth)(
+      sites.map(s => ({ siteId: s.id, checks: instrumentChecks(instruments, s.id, series[s.id] ?? [], now, healthRules) })), now);
+  }, [clock, sites, instruments, healthRules, evaluateHealth, evaluateScratchHealth, benchmarkRun, liveStore]);
+
+  // Critical bioindicator alerts propose closing the site; a person decides.
+  const { propose } = harvest;
+  useEffect(() => propose(allActiveAlerts(alertEngine.state)), [alertEngine.state, propose]);
+
+  function reopenCheck(siteId: string) {
+    const rows = liveStore.rows(siteId);
+    const clean = maskFailed(rows, qcSeries(rows, qcConfig));
+    return checkReopen(clean, resolveThresholds(thresholdConfig, siteId), reopenCriteria, activeAlertsFor(alertEngine.state, siteId));
+  }
+
+  // During a benchmark run the site list and map show the synthetic sites' scratch alerts.
+  const alertState = benchmarkRun ? scratchAlerts.state : alertEngine.state;
+  const siteSummary = useMemo(() => summarizeSites(alertState, sites.map(s => s.id)), [alertState, sites]);
+  const siteTagOptions = useMemo(() => allTags(sites), [sites]);
 
   const filteredSites = useMemo(() => {
-    if (!search) return SITES;
-    return SITES.filter(s => s.name.toLowerCase().includes(search.toLowerCase()) || s.id.toLowerCase().includes(search.toLowerCase()));
-  }, [search]);
+    const list = sites.filter(s => matchesSiteFilter(s, { query: search, regionId: siteRegion, tag: siteTag })
+      && (!currentView?.siteIds.length || currentView.siteIds.includes(s.id)));
+    if (siteSort === "severity") {
+      list.sort((a, b) => severityRank(siteSummary[b.id].level) - severityRank(siteSummary[a.id].level)
+        || siteSummary[b.id].count - siteSummary[a.id].count
+        || a.name.localeCompare(b.name));
+    }
+    return list;
+  }, [sites, search, siteRegion, siteTag, siteSort, siteSummary, currentView]);
 
   const alerts = useMemo(() => {
-    if (!latest) return [] as { key: ParamKey; level: "warn"|"crit"; value: number }[];
-    const keys: ParamKey[] = ["temp","sal","ph","do","turb","chl","gene_expr","methyl","metabo","lipid_ox"];
-    return keys
-      .map(k => ({ key: k, level: classifyAlert(k, (latest as any)[k] as number), value: (latest as any)[k] as number }))
-      .filter(a => a.level !== "ok")
-      .sort((a,b) => (a.level === "crit" ? -1 : 1));
-  }, [latest]);
-
-  const paramMeta: Record<ParamKey, { label: string; unit: string }> = {
-    temp: { label: "Temperature", unit: "°C" },
-    sal: { label: "Salinity", unit: "PSU" },
-    ph: { label: "pH", unit: "" },
-    do: { label: "Dissolved O₂", unit: "mg/L" },
-    turb: { label: "Turbidity", unit: "NTU" },
-    chl: { label: "Chlorophyll‑a", unit: "µg/L" },
-    gene_expr: { label: "HAB gene expression", unit: "AU" },
-    methyl: { label: "Stress methylation", unit: "" },
-    metabo: { label: "Toxin metabolites", unit: "AU" },
-    lipid_ox: { label: "Lipid oxidation", unit: "" },
-  };
-
-  function exportCSV() {
-    const siteName = SITES.find(s => s.id === activeSite)?.name?.replace(/\s+/g, "_") ?? activeSite;
-    downloadText(`${siteName}_export.csv`, toCSV(data));
+    // Alerts left open on an archived site are not actionable here.
+    const all = allActiveAlerts(alertEngine.state).filter(a => siteSummary[a.siteId]);
+    return alertScope === "site" ? all.filter(a => a.siteId === activeSite) : all;
+  }, [alertEngine.state, siteSummary, alertScope, activeSite]);
+
+  function applyView(id: string) {
+    const view = views.find(v => v.id === id);
+    setViewId(view ? id : "");
+    if (!view) return;
+    const listed = view.siteIds.filter(siteId => sites.some(s => s.id === siteId));
+    setActiveSite(sites.some(s => s.id === view.activeSite) ? view.activeSite : listed[0] ?? sites[0].id);
+    setShowParam(view.param);
+    setRange(view.range);
+    setCompare(view.compare);
+    setCompareSites(view.compareSites);
+    setNormalize(view.normalize);
+    setLayout(view.layout);
+    setSearch("");
+    setSiteRegion("");
+    setSiteTag("");
+  }
+
+  function saveCurrentView(name: string) {
+    // Whatever narrows the site list (search, region, tag, the current view) becomes the view's site set.
+    const narrowed = filteredSites.length < sites.length;
+    const { views: next, view } = saveView(views, {
+      name, siteIds: narrowed ? filteredSites.map(s => s.id) : [], activeSite, param: showParam, range,
+      compare, compareSites, normalize, layout,
+    }, Date.now());
+    setViews(next);
+    setViewId(view.id);
+  }
+
+  const urlState: UrlState = { site: activeSite, param: showParam, range, tab: activeTab, q: search, view: currentView?.id };
+  useUrlState(urlState, url => {
+    if ((url.view ?? "") !== viewId) applyView(url.view ?? "");
+    setActiveSite(sites.some(s => s.id === url.site) ? url.site! : sites[0].id);
+    setShowParam(url.param ?? DEFAULT_PARAM);
+    setRange(url.range ?? DEFAULT_RANGE);
+    setActiveTab(url.tab ?? DEFAULT_TAB);
+    setSearch(url.q ?? "");
+  });
+
+  function focusAlert({ siteId, key }: Pick<AlertEvent, "siteId" | "key">) {
+    setActiveSite(siteId);
+    setShowParam(key);
+  }
+
+  const siteName = (id: string) => siteConfig.sites.find(s => s.id === id)?.name ?? id;
+  const regionName = (id?: string) => siteConfig.regions.find(r => r.id === id)?.name;
+
+  async function importRows(siteId: string, rows: Reading[]) {
+    const stored = await importReadings(siteId, rows);
+    const live = liveStore.rows(siteId);
+    const end = live[live.length - 1]?.ts ?? Date.now();
+    const byTs = new Map(live.map(r => [r.ts, r]));
+    // Imported values change what was derived from them.
+    for (const r of stored) if (r.ts >= end - LIVE_WINDOW_MS) byTs.set(r.ts, { ...mergeFields(byTs.get(r.ts), r), ...UNDERIVED });
+    const merged = [...byTs.values()].sort((a, b) => a.ts - b.ts);
+    const prev = merged.length ? await lastReadingBefore(siteId, merged[0].ts).catch(() => undefined) : undefined;
+    const derived = deriveSeries(merged, derivedConfig, prev, qcSeries(merged, qcConfig));
+    derived.forEach((r, i) => { if (r !== merged[i]) queueReading(siteId, r); });
+    liveStore.replace(siteId, derived);
+    setHistoryVersion(v => v + 1);
   }
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-sky-50 to-white text-slate-900">
       <header className="sticky top-0 z-20 backdrop-blur bg-white/60 border-b">
-        <div className="mx-auto max-w-7xl px-4 py-3 flex items-center gap-3">
+        <div className="mx-auto max-w-7xl px-4 py-3 flex flex-wrap items-center gap-3">
           <div className="flex items-center gap-2">
             <Satellite className="h-6 w-6" />
             <h1 className="text-xl font-semibold">Shellfish Environmental Monitor</h1>
-            <span className="text-xs ml-2 px-2 py-0.5 rounded-full bg-slate-100 border">Mock Data</span>
+            <ConnectionBadge label={source.label} status={connection} />
           </div>
-          <div className="ml-auto flex items-center gap-3">
+          <div className="ml-auto flex flex-wrap items-center gap-3">
+            <ViewSwitcher views={views} currentId={viewId} onApply={applyView} onSave={saveCurrentView} shareLink={() => shareUrl({ ...urlState, view: undefined })} />
             <Button variant="outline" onClick={() => setStreaming(s => !s)}>
               <RefreshCw className={`h-4 w-4 mr-2 ${streaming ? "animate-spin" : ""}`} /> {streaming ? "Streaming" : "Paused"}
             </Button>
-            <Button variant="outline" onClick={exportCSV}>
-              <Download className="h-4 w-4 mr-2"/> Export CSV
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-2"/> Import
+            </Button>
+            <Button variant="outline" onClick={() => setExportOpen(true)}>
+              <Download className="h-4 w-4 mr-2"/> Export…
             </Button>
+            {harvest.state.proposals.length > 0 && (
+              <Button variant="outline" className="border-red-300 text-red-700" onClick={() => setActiveTab("harvest")}>
+                {harvest.state.proposals.length} closure {harvest.state.proposals.length === 1 ? "proposal" : "proposals"}
+              </Button>
+            )}
           </div>
         </div>
       </header>
 
       <main className="mx-auto max-w-7xl p-4 grid grid-cols-1 lg:grid-cols-12 gap-4">
+        <Card className="rounded-2xl lg:col-span-12">
+          <CardContent className="p-3">
+            <PortfolioSummary summary={siteSummary} />
+          </CardContent>
+        </Card>
+
         <section className="lg:col-span-3 space-y-4">
           <Card className="rounded-2xl">
             <CardContent className="p-4 space-y-3">
               <div className="flex items-center gap-2 font-medium"><MapPin className="h-4 w-4"/> Sites</div>
-              <Input placeholder="Search sites…" value={search} onChange={e=>setSearch(e.target.value)} />
-              <div className="max-h-72 overflow-auto pr-1 space-y-2">
-                {filteredSites.map(s => (
-                  <button
-                    key={s.id}
-                    onClick={()=>setActiveSite(s.id)}
-                    className={`w-full text-left p-2 rounded-xl border hover:bg-slate-50 ${activeSite===s.id?"border-sky-300 bg-sky-50":"border-slate-200"}`}
-                  >
-                    <div className="font-medium">{s.name}</div>
-                    <div className="text-xs opacity-70">{s.id} · {s.lat.toFixed(3)}, {s.lon.toFixed(3)} · depth {s.depth_m} m</div>
-                  </button>
-                ))}
+              <div className="flex items-center gap-2">
+                <Input placeholder="Search sites…" value={search} onChange={e=>setSearch(e.target.value)} />
+                <Select
+                  value={siteSort}
+                  onValueChange={(v)=>setSiteSort(v as "name" | "severity")}
+                  options={[{ value: "name", label: "A–Z" }, { value: "severity", label: "Severity" }]}
+                  className="h-10"
+                />
               </div>
+              {(siteConfig.regions.length > 0 || siteTagOptions.length > 0) && (
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={siteRegion}
+                    onValueChange={setSiteRegion}
+                    options={[{ value: "", label: "All regions" }, ...siteConfig.regions.map(r => ({ value: r.id, label: r.name }))]}
+                    className="flex-1 min-w-0"
+                  />
+                  <Select
+                    value={siteTag}
+                    onValueChange={setSiteTag}
+                    options={[{ value: "", label: "All tags" }, ...siteTagOptions.map(t => ({ value: t, label: tagLabel(t) }))]}
+                    className="flex-1 min-w-0"
+                  />
+                </div>
+              )}
+              <SiteList
+                sites={filteredSites}
+                activeSite={activeSite}
+                onSelect={setActiveSite}
+                summary={siteSummary}
+                harvestStatus={id => statusOf(harvest.state, id)}
+                regionName={regionName}
+                live={liveStore}
+              />
             </CardContent>
           </Card>
 
           <Card className="rounded-2xl">
             <CardContent className="p-4 space-y-3">
-              <div className="flex items-center gap-2 font-medium"><Bell className="h-4 w-4"/> Active Alerts</div>
-              {alerts.length === 0 && <div className="text-sm opacity-70">No alerts. All parameters within set thresholds.</div>}
-              <div className="space-y-2">
-                {alerts.map(a => (
-                  <div key={a.key} className={`p-2 rounded-xl border text-sm flex items-center justify-between ${a.level==="crit"?"bg-red-50 border-red-200":"bg-yellow-50 border-yellow-200"}`}>
-                    <span className="font-medium">{paramMeta[a.key].label}</span>
-                    <span className="tabular-nums">{a.value.toFixed(2)} {paramMeta[a.key].unit}</span>
-                  </div>
-                ))}
+              <div className="flex items-center gap-2 font-medium">
+                <Bell className="h-4 w-4"/> Active Alerts
+                <Select
+                  value={alertScope}
+                  onValueChange={(v)=>setAlertScope(v as "all" | "site")}
+                  options={[{ value: "all", label: "All sites" }, { value: "site", label: "This site" }]}
+                  className="ml-auto font-normal"
+                />
               </div>
-              <div className="text-xs opacity-70">Thresholds are generic defaults; customize per site/species.</div>
+              <ActiveAlerts
+                alerts={alerts}
+                live={liveStore}
+                siteName={alertScope === "all" ? siteName : undefined}
+                onSelect={focusAlert}
+                onAck={alertEngine.acknowledge}
+                onSnooze={alertEngine.snooze}
+              />
+              <div className="text-xs opacity-70">Thresholds from profile “{profileFor(thresholdConfig, activeSite).name}”; customize per site/species in the Thresholds tab.</div>
             </CardContent>
           </Card>
         </section>
@@ -311,17 +549,16 @@ export default function App() {
           <Card className="rounded-2xl">
             <CardContent className="p-4">
               <div className="flex flex-wrap items-center gap-3">
-                <div className="text-lg font-semibold">{SITES.find(s=>s.id===activeSite)?.name}</div>
+                <div className="text-lg font-semibold">{site.name}</div>
+                <HarvestBadge status={statusOf(harvest.state, site.id)} onClick={() => setHarvestEdit({ siteId: site.id })} />
                 <div className="ml-auto text-sm flex items-center gap-2"><Clock className="h-4 w-4"/> Last update: {latest? new Date(latest.ts).toLocaleTimeString():"—"}</div>
               </div>
               {latest && (
                 <div className="mt-4 grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
-                  <MetricCard label="Temp" value={latest.temp} unit="°C" alert={classifyAlert("temp", latest.temp)} />
-                  <MetricCard label="Salinity" value={latest.sal} unit="PSU" alert={classifyAlert("sal", latest.sal)} />
-                  <MetricCard label="pH" value={latest.ph} unit="" alert={classifyAlert("ph", latest.ph)} />
-                  <MetricCard label="DO" value={latest.do} unit="mg/L" alert={classifyAlert("do", latest.do)} />
-                  <MetricCard label="Turbidity" value={latest.turb} unit="NTU" alert={classifyAlert("turb", latest.turb)} />
-                  <MetricCard label="Chl‑a" value={latest.chl} unit="µg/L" alert={classifyAlert("chl", latest.chl)} />
+                  {layout.metricKeys.map(k => (
+                    <MetricCard key={k} label={METRIC_LABELS[k] ?? PARAM_META[k].label} value={latest[k]} unit={PARAM_META[k].unit}
+                      alert={classifyAlert(k, latest[k], limits)} qc={latestQc?.[k]} stale={staleKeys.has(k)} />
+                  ))}
                 </div>
               )}
             </CardContent>
@@ -330,57 +567,56 @@ export default function App() {
           <Card className="rounded-2xl">
             <CardContent className="p-4">
               <div className="flex flex-wrap items-center gap-3">
-                <div className="flex items-center gap-2 font-medium"><Activity className="h-4 w-4"/> Trends (past ~3 h)</div>
-                <div className="ml-auto flex items-center gap-2">
+                <div className="flex items-center gap-2 font-medium"><Activity className="h-4 w-4"/> Trends ({rangeLabel(range)})</div>
+                {rangeLoading && <span className="text-xs opacity-70">Loading history…</span>}
+                <div className="ml-auto flex flex-wrap items-center gap-2">
+                  <TimeRangePicker value={range} onChange={setRange} />
+                  <Button size="sm" variant="outline" onClick={() => pickAnnotation(Date.now())}>Annotate</Button>
                   <Label className="text-xs">Live</Label>
                   <Switch checked={streaming} onCheckedChange={setStreaming} />
+                  <Label className="text-xs">Compare sites</Label>
+                  <Switch checked={compare} onCheckedChange={setCompare} />
                   <Select
                     value={showParam}
                     onValueChange={(v)=>setShowParam(v as ParamKey)}
-                    options={[
-                      { value: "temp", label: "Temperature" },
-                      { value: "sal", label: "Salinity" },
-                      { value: "ph", label: "pH" },
-                      { value: "do", label: "Dissolved O₂" },
-                      { value: "turb", label: "Turbidity" },
-                      { value: "chl", label: "Chlorophyll‑a" },
-                      { value: "gene_expr", label: "HAB gene expression" },
-                      { value: "methyl", label: "Stress methylation" },
-                      { value: "metabo", label: "Toxin metabolites" },
-                      { value: "lipid_ox", label: "Lipid oxidation" },
-                    ]}
+                    options={PARAM_KEYS.map(k => ({ value: k, label: PARAM_META[k].label }))}
                     className="w-44"
                   />
                 </div>
               </div>
 
-              <div className="mt-4 h-64 w-full">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={data} margin={{ top: 8, right: 16, left: 8, bottom: 8 }}>
-                    <XAxis dataKey="ts" type="number" domain={["dataMin", "dataMax"]} tickFormatter={(t)=>fmttime(t)} />
-                    <YAxis domain={['auto','auto']} tickFormatter={(v)=>v.toFixed(1)} />
-                    <Tooltip formatter={(v:any)=>Number(v).toFixed(2)} labelFormatter={(l:any)=>new Date(l).toLocaleString()} />
-                    <Line type="monotone" dataKey={showParam} strokeWidth={2} dot={false} />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
+              {compare ? (
+                <div className="mt-4">
+                  <ComparisonChart
+                    sites={sites}
+                    selected={compareSites}
+                    onSelectedChange={setCompareSites}
+                    param={showParam}
+                    rowsBySite={rangeRows}
+                    normalize={normalize}
+                    onNormalizeChange={setNormalize}
+                    tickTime={tickTime}
+                  />
+                </div>
+              ) : (
+                <TrendChart
+                  data={trendData}
+                  param={showParam}
+                  flags={flagsByTs}
+                  markers={markers[showParam]}
+                  limit={limits[showParam]}
+                  forecastLabel={trendForecast ? `dashed: ${forecastOptions.horizonMin} min forecast, ±95% band` : undefined}
+                  tickTime={tickTime}
+                  exportName={`${site.name}_${showParam}`}
+                  exportTitle={`${site.name} · ${PARAM_META[showParam].label} (${rangeLabel(range)})`}
+                  annotations={siteAnnotations}
+                  onPick={pickAnnotation}
+                />
+              )}
 
               <div className="mt-4 grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
-                {(["temp","sal","ph","do","turb","chl"] as ParamKey[]).map(k => (
-                  <div key={k} className={`p-2 rounded-xl border ${showParam===k?"border-sky-300 bg-sky-50":"border-slate-200"}`}>
-                    <div className="text-xs mb-1 flex items-center justify-between">
-                      <span>{paramMeta[k].label}</span>
-                      <span className="opacity-60 tabular-nums">{latest ? (latest as any)[k].toFixed(2) : "—"} {paramMeta[k].unit}</span>
-                    </div>
-                    <ResponsiveContainer width="100%" height={56}>
-                      <AreaChart data={data} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
-                        <XAxis dataKey="ts" hide domain={["dataMin", "dataMax"]} type="number"/>
-                        <YAxis hide/>
-                        <Tooltip formatter={(v:any)=>Number(v).toFixed(2)} labelFormatter={(l:any)=>new Date(l).toLocaleString()} />
-                        <Area type="monotone" dataKey={k} strokeWidth={2} fillOpacity={0.1} />
-                      </AreaChart>
-                    </ResponsiveContainer>
-                  </div>
+                {layout.trendKeys.map(k => (
+                  <SparkTile key={k} param={k} data={sparkSeries[k]} flags={flagsByTs} markers={markers[k]} annotations={siteAnnotations} live={liveStore} siteId={activeSite} selected={showParam===k} siteName={site.name} />
                 ))}
               </div>
             </CardContent>
@@ -389,23 +625,20 @@ export default function App() {
           <Card className="rounded-2xl">
             <CardContent className="p-4">
               <div className="flex items-center gap-2 font-medium"><Activity className="h-4 w-4"/> Environmental BioIndicators</div>
+              <div className="mt-4">
+                <HabGauge
+                  risk={risk}
+                  config={habConfig}
+                  onConfigChange={setHabConfig}
+                  crossings={habCrossings}
+                  forecast={forecastOptions}
+                  onForecastChange={setForecastOptions}
+                />
+              </div>
               {latest && (
                 <div className="mt-4 grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
-                  {(["gene_expr","methyl","metabo","lipid_ox"] as ParamKey[]).map(k => (
-                    <div key={k} className={`p-2 rounded-xl border ${showParam===k?"border-sky-300 bg-sky-50":"border-slate-200"}`}>
-                      <div className="text-xs mb-1 flex items-center justify-between">
-                        <span>{paramMeta[k].label}</span>
-                        <span className="opacity-60 tabular-nums">{latest ? (latest as any)[k].toFixed(2) : "—"} {paramMeta[k].unit}</span>
-                      </div>
-                      <ResponsiveContainer width="100%" height={56}>
-                        <AreaChart data={data} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
-                          <XAxis dataKey="ts" hide domain={["dataMin", "dataMax"]} type="number"/>
-                          <YAxis hide/>
-                          <Tooltip formatter={(v:any)=>Number(v).toFixed(2)} labelFormatter={(l:any)=>new Date(l).toLocaleString()} />
-                          <Area type="monotone" dataKey={k} strokeWidth={2} fillOpacity={0.1} />
-                        </AreaChart>
-                      </ResponsiveContainer>
-                    </div>
+                  {layout.bioKeys.map(k => (
+                    <SparkTile key={k} param={k} data={sparkSeries[k]} flags={flagsByTs} markers={markers[k]} annotations={siteAnnotations} live={liveStore} siteId={activeSite} selected={showParam===k} siteName={site.name} />
                   ))}
                 </div>
               )}
@@ -414,40 +647,124 @@ export default function App() {
 
           <Tabs value={activeTab} onValueChange={setActiveTab}>
             <TabsList>
+              <TabsTrigger value="map" activeValue={activeTab} onClick={()=>setActiveTab("map")}>Map</TabsTrigger>
+              <TabsTrigger value="analysis" activeValue={activeTab} onClick={()=>setActiveTab("analysis")}>Analysis</TabsTrigger>
+              <TabsTrigger value="sites" activeValue={activeTab} onClick={()=>setActiveTab("sites")}>Sites</TabsTrigger>
+              <TabsTrigger value="views" activeValue={activeTab} onClick={()=>setActiveTab("views")}>Views</TabsTrigger>
               <TabsTrigger value="thresholds" activeValue={activeTab} onClick={()=>setActiveTab("thresholds")}>Thresholds</TabsTrigger>
+              <TabsTrigger value="rules" activeValue={activeTab} onClick={()=>setActiveTab("rules")}>Alert rules</TabsTrigger>
+              <TabsTrigger value="qc" activeValue={activeTab} onClick={()=>setActiveTab("qc")}>QC</TabsTrigger>
+              <TabsTrigger value="derived" activeValue={activeTab} onClick={()=>setActiveTab("derived")}>Derived</TabsTrigger>
+              <TabsTrigger value="instruments" activeValue={activeTab} onClick={()=>setActiveTab("instruments")}>Instruments</TabsTrigger>
+              <TabsTrigger value="samples" activeValue={activeTab} onClick={()=>setActiveTab("samples")}>Lab samples</TabsTrigger>
+              <TabsTrigger value="events" activeValue={activeTab} onClick={()=>setActiveTab("events")}>Event log</TabsTrigger>
+              <TabsTrigger value="harvest" activeValue={activeTab} onClick={()=>setActiveTab("harvest")}>Harvest</TabsTrigger>
+              <TabsTrigger value="notifications" activeValue={activeTab} onClick={()=>setActiveTab("notifications")}>Notifications</TabsTrigger>
+              <TabsTrigger value="history" activeValue={activeTab} onClick={()=>setActiveTab("history")}>Alert history</TabsTrigger>
+              <TabsTrigger value="reports" activeValue={activeTab} onClick={()=>setActiveTab("reports")}>Reports</TabsTrigger>
+              <TabsTrigger value="storage" activeValue={activeTab} onClick={()=>setActiveTab("storage")}>Storage</TabsTrigger>
+              {simulation.available && <TabsTrigger value="simulator" activeValue={activeTab} onClick={()=>setActiveTab("simulator")}>Simulator</TabsTrigger>}
+              <TabsTrigger value="benchmark" activeValue={activeTab} onClick={()=>setActiveTab("benchmark")}>Benchmark</TabsTrigger>
               <TabsTrigger value="about" activeValue={activeTab} onClick={()=>setActiveTab("about")}>About</TabsTrigger>
             </TabsList>
-            <TabsContent value="thresholds" activeValue={activeTab}>
+            <TabsContent value="map" activeValue={activeTab}>
               <Card className="rounded-2xl mt-3">
                 <CardContent className="p-4">
-                  <div className="text-sm opacity-80 mb-3">Customize alert thresholds (mock; non‑persistent).</div>
-                  <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
-                    {(["temp","sal","ph","do","turb","chl","gene_expr","methyl","metabo","lipid_ox"] as ParamKey[]).map(k => (
-                      <div key={k} className="space-y-2 p-3 rounded-xl border">
-                        <div className="text-sm font-medium">{paramMeta[k].label}</div>
-                        <div className="grid grid-cols-2 gap-2 items-center">
-                          <Label className="text-xs">Warn</Label>
-                          <Input
-                            className="h-8"
-                            type="number"
-                            defaultValue={THRESHOLDS[k].warn}
-                            onBlur={(e)=>{ THRESHOLDS[k].warn = Number((e.target as HTMLInputElement).value); }}
-                          />
-                          <Label className="text-xs">Critical</Label>
-                          <Input
-                            className="h-8"
-                            type="number"
-                            defaultValue={THRESHOLDS[k].crit}
-                            onBlur={(e)=>{ THRESHOLDS[k].crit = Number((e.target as HTMLInputElement).value); }}
-                          />
-                        </div>
-                        <div className="text-xs opacity-70">Direction: {THRESHOLDS[k].dir === "over" ? "higher is worse" : "lower is worse"}</div>
-                      </div>
-                    ))}
-                  </div>
+                  <SiteMap
+                    sites={sites}
+                    levels={Object.fromEntries(sites.map(s => [s.id, siteSummary[s.id].level]))}
+                    live={liveStore}
+                    activeSite={activeSite}
+                    onSelect={setActiveSite}
+                  />
                 </CardContent>
               </Card>
             </TabsContent>
+            <TabsContent value="analysis" activeValue={activeTab}>
+              <RelationshipExplorer source={source} site={site} live={liveStore} historyVersion={historyVersion} qcConfig={qcConfig} derivedConfig={derivedConfig} />
+            </TabsContent>
+            <TabsContent value="sites" activeValue={activeTab}>
+              <SiteManager config={siteConfig} onChange={setSiteConfig} activeSite={activeSite} />
+            </TabsContent>
+            <TabsContent value="views" activeValue={activeTab}>
+              <ViewsPanel layout={layout} onLayoutChange={setLayout} views={views} onViewsChange={setViews} currentId={viewId} onApply={applyView} sites={sites} />
+            </TabsContent>
+            <TabsContent value="thresholds" activeValue={activeTab}>
+              <ThresholdProfiles key={site.id} config={thresholdConfig} onChange={setThresholdConfig} site={site} />
+            </TabsContent>
+            <TabsContent value="rules" activeValue={activeTab}>
+              <AlertRules rules={alertRules} onChange={setAlertRules} />
+            </TabsContent>
+            <TabsContent value="qc" activeValue={activeTab}>
+              <QcSettings config={qcConfig} onChange={setQcConfig} summary={rangeQcSummary} siteName={site.name} />
+            </TabsContent>
+            <TabsContent value="derived" activeValue={activeTab}>
+              <DerivedSettings config={derivedConfig} onChange={setDerivedConfig} latest={latest} siteName={site.name} />
+            </TabsContent>
+            <TabsContent value="instruments" activeValue={activeTab}>
+              <InstrumentRegistry
+                sites={sites}
+                activeSite={activeSite}
+                instruments={instruments}
+                onChange={setInstruments}
+                rules={healthRules}
+                onRulesChange={setHealthRules}
+                live={liveStore}
+                now={clock}
+              />
+            </TabsContent>
+            <TabsContent value="samples" activeValue={activeTab}>
+              <LabSamples sites={sites} activeSite={activeSite} samples={samples} onChange={setSamples} limitsFor={id => resolveThresholds(thresholdConfig, id)} />
+            </TabsContent>
+            <TabsContent value="events" activeValue={activeTab}>
+              <EventLog sites={sites} activeSite={activeSite} annotations={annotations} onChange={setAnnotations} />
+            </TabsContent>
+            <TabsContent value="harvest" activeValue={activeTab}>
+              <HarvestPanel sites={sites} state={harvest.state} criteria={reopenCriteria} onCriteriaChange={setReopenCriteria} onEdit={setHarvestEdit} />
+            </TabsContent>
+            <TabsContent value="notifications" activeValue={activeTab}>
+              <NotificationSettings
+                channels={notifier.channels}
+                onChange={notifier.setChannels}
+                deliveries={notifier.deliveries}
+                sites={sites}
+                activeSite={activeSite}
+                onTest={notifier.test}
+              />
+            </TabsContent>
+            <TabsContent value="history" activeValue={activeTab}>
+              <AlertHistory log={alertEngine.state.log} sites={sites} activeSite={activeSite} onSelect={focusAlert} onClear={alertEngine.clearHistory} />
+            </TabsContent>
+            <TabsContent value="reports" activeValue={activeTab}>
+              <Reports
+                source={source}
+                sites={sites}
+                activeSite={activeSite}
+                thresholdConfig={thresholdConfig}
+                qcConfig={qcConfig}
+                derivedConfig={derivedConfig}
+                log={alertEngine.state.log}
+                gapFor={id => gapThresholdMs(instruments, id, healthRules)}
+              />
+            </TabsContent>
+            <TabsContent value="storage" activeValue={activeTab}>
+              <StorageSettings sites={sites} retention={retention} onChange={setRetention} />
+            </TabsContent>
+            {simulation.available && (
+              <TabsContent value="simulator" activeValue={activeTab}>
+                <SimulatorPanel state={simulation.state} onChange={simulation.setState} sites={configuredSites} activeSite={activeSite} />
+              </TabsContent>
+            )}
+            <TabsContent value="benchmark" activeValue={activeTab}>
+              <BenchmarkPanel
+                run={benchmark.run}
+                progress={benchmark.progress}
+                results={benchmark.results}
+                onStart={benchmark.start}
+                onStop={benchmark.stop}
+                onClear={benchmark.clearResults}
+              />
+            </TabsContent>
             <TabsContent value="about" activeValue={activeTab}>
               <Card className="rounded-2xl mt-3">
                 <CardContent className="p-4 space-y-2 text-sm">
@@ -456,21 +773,33 @@ export default function App() {
                     (temperature, salinity, pH, dissolved oxygen, turbidity, chlorophyll‑a), plus environmental
                     bioindicators: harmful algal bloom gene expression (AU), DNA methylation stress fraction, toxin
                     metabolite index (AU), and lipid oxidation ratio.
-                    Replace the generator with your telemetry API or WebSocket.
+                    Swap the simulator for a WebSocket or HTTP-polling source via the telemetry env vars (see README).
                   </p>
                  <p className="opacity-80">How to interpret bioindicators (mock guidance):</p>
                  <ul className="list-disc ml-5 space-y-1">
-                   <li><strong>HAB gene expression:</strong> higher values suggest emerging algal bloom potential; consider increased sampling or harvest holds.</li>
+                   <li><strong>HAB gene expression:</strong> higher values suggest emerging algal bloom potential; consider increased sampling or harvest holds (a critical bioindicator alert proposes closing the site in the Harvest tab).</li>
                    <li><strong>Stress methylation:</strong> elevated fractions indicate chronic environmental stress (temperature, hypoxia, acidification).</li>
                    <li><strong>Toxin metabolites:</strong> rising index can reflect exposure to algal or microbial toxins; monitor product safety plans.</li>
                    <li><strong>Lipid oxidation:</strong> higher ratios indicate oxidative stress impacting shellfish condition and shelf life.</li>
                  </ul>
                   <ul className="list-disc ml-5 space-y-1">
                     <li><strong>Live stream:</strong> togglable; updates every 5 s.</li>
-                    <li><strong>Alerts:</strong> driven by editable thresholds (non‑persistent here).</li>
-                    <li><strong>Export:</strong> CSV of the on‑screen window for quick sharing.</li>
-                    <li><strong>Charts:</strong> trend + per‑parameter mini‑sparks for quick scanning.</li>
-                    <li><strong>Sites:</strong> simple list; wire to a map or portfolio once ready.</li>
+                    <li><strong>Simulator:</strong> seeded and reproducible, with diurnal temperature and DO, tidal salinity and coupled bioindicators; start a marine heatwave, hypoxic upwelling, HAB bloom or storm runoff at any site, speed playback up to 360× and scrub the simulated clock (Simulator tab).</li>
+                    <li><strong>Performance:</strong> live readings go into fixed-size ring buffers per site and reach the screen once per frame; the page follows only the active site and each list row or tile follows its own, so only what changed re-renders; the site list is virtualized. The Benchmark tab streams hundreds of synthetic sites (optionally generated in a Web Worker), alerts on them without keeping the results, and reports frame times.</li>
+                    <li><strong>Alerts:</strong> driven by per‑site threshold profiles plus sustain, hysteresis and rate‑of‑change rules; acknowledge or snooze them and review past events under Alert history.</li>
+                    <li><strong>Notifications:</strong> new and escalated alerts can raise a desktop notification, sound an alarm or POST to a webhook, each routed by site and severity with quiet hours and rate limits.</li>
+                    <li><strong>HAB risk:</strong> a 0–100 index weighting gene expression, chlorophyll‑a, temperature, toxin metabolites and methylation against the site's thresholds, with Holt‑smoothed forecasts of when each will cross warn/crit (dashed projection on the live trend chart).</li>
+                    <li><strong>Derived parameters:</strong> DO % saturation, aragonite saturation state Ω<sub>arag</sub> and cumulative thermal stress (degree‑hours above a threshold) are computed from temperature, salinity, pH and DO as readings arrive, and can be charted, thresholded, alerted on and exported like measured values.</li>
+                    <li><strong>QC:</strong> every reading is flagged pass/suspect/fail by gross‑range, spike, flatline, rate‑of‑change and DO‑saturation tests (QC tab); failed values are marked on charts, excluded from alerting and exported as <code>*_qc</code> columns.</li>
+                    <li><strong>Analysis:</strong> plot any two parameters at a site against each other, colored by time, and scan a lag window for the cross‑correlation peak (e.g. whether chlorophyll‑a spikes lead HAB gene expression by hours).</li>
+                    <li><strong>Reports:</strong> daily or weekly summaries for chosen sites and parameters (min/mean/max, percentiles, time in warn/crit, exceedance count and longest excursion, alerts raised, sparklines) as a printable standalone HTML page.</li>
+                    <li><strong>Import/Export:</strong> export any sites, parameters and range as CSV (with metadata header), wide CSV, JSON or NDJSON, and charts as SVG/PNG; import sonde or lab CSVs (including our own export) with column mapping, unit and timezone conversion.</li>
+                    <li><strong>Charts:</strong> trend + per‑parameter mini‑sparks over 3 h to 30 d (or a custom range), downsampled with LTTB; history is kept in IndexedDB per the Storage tab's retention.</li>
+                    <li><strong>Lab samples:</strong> log collected shellfish samples (site, species, tissue, assay) and track custody from collected to received to analyzed; results show as ◆ markers on the bioindicator charts, colored by threshold.</li>
+                    <li><strong>Views and links:</strong> the address bar tracks the site, parameter, time range, tab and search, so a link (or the header's Link button) opens the same picture and back/forward step through it; save named views of sites, chart and parameter choices and switch between them from the header (Views tab to choose the cards and sparklines shown).</li>
+                    <li><strong>Event log:</strong> annotate storms, sensor maintenance, harvests or field sampling at a site, as a moment or a time span, by clicking or dragging across the trend chart or from the Event log tab; events show as dashed lines or shaded bands on the trend chart and sparklines and travel with exports.</li>
+                    <li><strong>Instruments:</strong> register the sondes deployed at each site with their parameters, calibration due date and reporting interval; silent instruments raise stale/offline alerts, overdue calibration raises a warning, and charts break lines across missing data.</li>
+                    <li><strong>Sites:</strong> list with alert badges, filterable by region/farm and tag (species, lease, owner), plus an offline Map tab (bundled coastline, markers colored by alert level); create, edit and archive sites in the Sites tab and move the configuration between browsers as JSON.</li>
                   </ul>
                 </CardContent>
               </Card>
@@ -479,6 +808,32 @@ export default function App() {
         </section>
       </main>
 
+      <ExportDialog
+        key={`export-${activeSite}-${exportOpen}`}
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        source={source}
+        sites={sites}
+        activeSite={activeSite}
+        range={range}
+        thresholdConfig={thresholdConfig}
+        qcConfig={qcConfig}
+        derivedConfig={derivedConfig}
+        annotations={annotations}
+      />
+      <AnnotationDialog sites={sites} draft={annotationDraft} onClose={() => setAnnotationDraft(null)} onAdd={a => setAnnotations(prev => [...prev, a])} />
+      <HarvestDialog
+        key={harvestEdit ? `${harvestEdit.siteId}-${harvestEdit.proposal?.alertId ?? ""}-${harvestEdit.dismiss ?? ""}` : "none"}
+        edit={harvestEdit}
+        onClose={() => setHarvestEdit(null)}
+        state={harvest.state}
+        siteName={siteName}
+        reopenCheck={reopenCheck}
+        onChange={harvest.change}
+        onDismiss={harvest.dismiss}
+      />
+      <ImportDialog key={activeSite} open={importOpen} onOpenChange={setImportOpen} sites={sites} defaultSite={activeSite} onImport={importRows} />
+
       <footer className="mx-auto max-w-7xl px-4 py-6 text-xs opacity-70">
         © {new Date().getFullYear()} Coastal Monitoring Mock • For demonstration only
       </footer>
@@ -0,0 +1,70 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { BellOff, Check } from "lucide-react";
+import { PARAM_META } from "@/lib/types";
+import type { LiveStore } from "@/lib/live-store";
+import { useSitesSeries } from "@/hooks/use-live-series";
+import { alertSubject, alertValue, isSnoozed, type AlertEvent } from "@/lib/alert-engine";
+import { fmtduration, fmtnum, fmttime } from "@/lib/format";
+
+type Props = {
+  alerts: AlertEvent[];
+  /** Live readings; the list re-renders only when an alerting site gets a new one. */
+  live: LiveStore;
+  /** When set, each alert is labelled with its site. */
+  siteName?: (siteId: string) => string;
+  onSelect: (alert: AlertEvent) => void;
+  onAck: (alertId: string) => void;
+  onSnooze: (alertId: string, ms: number) => void;
+};
+
+export function ActiveAlerts({ alerts, live, siteName, onSelect, onAck, onSnooze }: Props) {
+  const series = useSitesSeries(live, alerts.map(a => a.siteId));
+  if (alerts.length === 0) return <div className="text-sm opacity-70">No alerts. All parameters within set thresholds.</div>;
+  return (
+    <div className="space-y-2">
+      {alerts.map(a => {
+        const meta = PARAM_META[a.key];
+        const rows = series[a.siteId] ?? [];
+        const latest = rows[rows.length - 1];
+        const now = latest?.ts ?? Date.now();
+        const snoozed = isSnoozed(a, Date.now());
+        const tone = a.level === "crit" ? "bg-red-50 border-red-200" : "bg-yellow-50 border-yellow-200";
+        return (
+          <div
+            key={a.id}
+            role="button"
+            tabIndex={0}
+            onClick={() => onSelect(a)}
+            onKeyDown={(e) => { if (e.key === "Enter") onSelect(a); }}
+            className={`p-2 rounded-xl border text-sm space-y-1 cursor-pointer hover:shadow-sm ${tone} ${snoozed || a.ackedAt ? "opacity-60" : ""}`}
+          >
+            {siteName && <div className="text-xs opacity-70">{siteName(a.siteId)}</div>}
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{alertSubject(a)}</span>
+              <span className="tabular-nums">
+                {a.kind === "threshold"
+                  ? `${fmtnum(latest?.[a.key] ?? a.value)} ${meta.unit}`
+                  : alertValue(a)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="opacity-70">
+                since {fmttime(a.openedAt)} · {fmtduration(now - a.openedAt)}
+                {a.escalatedAt && ` · crit since ${fmttime(a.escalatedAt)}`}
+              </span>
+              <span className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                {a.ackedAt
+                  ? <span className="opacity-70">acked {fmttime(a.ackedAt)}</span>
+                  : <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => onAck(a.id)}><Check className="h-3 w-3 mr-1"/>Ack</Button>}
+                {snoozed
+                  ? <span className="opacity-70">snoozed to {fmttime(a.snoozedUntil!)}</span>
+                  : <Button size="sm" variant="outline" className="h-6 px-2 text-xs" onClick={() => onSnooze(a.id, 3600_000)} title="Snooze 1 h"><BellOff className="h-3 w-3 mr-1"/>1 h</Button>}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import type { Site } from "@/lib/types";
+import { alertSubject, alertValue, type AlertAction, type AlertLogEntry } from "@/lib/alert-engine";
+import { fmtdatetime } from "@/lib/format";
+
+const ACTION_TONE: Record<AlertAction, string> = {
+  opened: "text-yellow-700",
+  escalated: "text-red-700",
+  acknowledged: "text-sky-700",
+  snoozed: "text-slate-600",
+  cleared: "text-emerald-700",
+};
+
+type Props = {
+  log: AlertLogEntry[];
+  sites: Site[];
+  activeSite: string;
+  onSelect: (entry: AlertLogEntry) => void;
+  onClear: () => void;
+};
+
+export function AlertHistory({ log, sites, activeSite, onSelect, onClear }: Props) {
+  const [scope, setScope] = useState<"site" | "all">("site");
+  const rows = useMemo(
+    () => log.filter(e => scope === "all" || e.siteId === activeSite).slice().reverse(),
+    [log, scope, activeSite],
+  );
+  const siteName = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="text-sm opacity-80">Alert lifecycle events (newest first).</div>
+          <div className="ml-auto flex items-center gap-2">
+            <Select
+              value={scope}
+              onValueChange={(v) => setScope(v as "site" | "all")}
+              options={[{ value: "site", label: "This site" }, { value: "all", label: "All sites" }]}
+            />
+            <Button size="sm" variant="outline" onClick={() => { if (window.confirm("Clear the alert history?")) onClear(); }}>Clear</Button>
+          </div>
+        </div>
+        {rows.length === 0
+          ? <div className="text-sm opacity-70">No alert events recorded yet.</div>
+          : (
+            <div className="max-h-96 overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-left opacity-70 sticky top-0 bg-white">
+                  <tr><th className="py-1 pr-2">Time</th><th className="pr-2">Site</th><th className="pr-2">Subject</th><th className="pr-2">Event</th><th className="pr-2">Level</th><th className="text-right">Value</th></tr>
+                </thead>
+                <tbody>
+                  {rows.map((e, i) => (
+                    <tr key={`${e.alertId}:${e.action}:${e.ts}:${i}`} className="border-t cursor-pointer hover:bg-slate-50" onClick={() => onSelect(e)}>
+                      <td className="py-1 pr-2 tabular-nums whitespace-nowrap">{fmtdatetime(e.ts)}</td>
+                      <td className="pr-2">{siteName(e.siteId)}</td>
+                      <td className="pr-2">{alertSubject(e)}</td>
+                      <td className={`pr-2 ${ACTION_TONE[e.action]}`}>{e.action}</td>
+                      <td className="pr-2">{e.level}</td>
+                      <td className="text-right tabular-nums whitespace-nowrap">{alertValue(e)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+      </CardContent>
+    </Card>
+  );
+}
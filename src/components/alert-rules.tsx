@@ -0,0 +1,83 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import type { ParamKey } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META } from "@/lib/types";
+import { DEFAULT_RULES, type AlertRule, type AlertRuleSet } from "@/lib/alert-engine";
+import { numberOr } from "@/lib/format";
+
+type Props = { rules: AlertRuleSet; onChange: (next: AlertRuleSet) => void };
+
+export function AlertRules({ rules, onChange }: Props) {
+  const update = (key: ParamKey, patch: Partial<AlertRule>) => onChange({ ...rules, [key]: { ...rules[key], ...patch } });
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="text-sm opacity-80">
+            A threshold alert opens once the breach has held for the sustain time, and clears only after the value
+            recovers past <em>warn</em> by the clearing margin. Rate alerts fire on the trend over the window
+            (negative = falling); leave the rate blank to disable.
+          </div>
+          <Button size="sm" variant="outline" className="ml-auto" onClick={() => onChange(DEFAULT_RULES)}>Reset defaults</Button>
+        </div>
+        <div className="overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-left opacity-70">
+              <tr>
+                <th className="py-1 pr-2">Parameter</th>
+                <th className="pr-2">Sustain (min)</th>
+                <th className="pr-2">Clearing margin</th>
+                <th className="pr-2">Rate trigger (/h)</th>
+                <th className="pr-2">Rate window (min)</th>
+                <th>Rate level</th>
+              </tr>
+            </thead>
+            <tbody>
+              {PARAM_KEYS.map(k => {
+                const r = rules[k];
+                return (
+                  <tr key={k} className="border-t">
+                    <td className="py-1 pr-2">{PARAM_META[k].label} <span className="opacity-60">{PARAM_META[k].unit}</span></td>
+                    <td className="pr-2"><Input className="h-8 w-24" type="number" min={0} value={r.sustainMin} onChange={e => update(k, { sustainMin: Math.max(0, numberOr(e.target.value, 0)) })} /></td>
+                    <td className="pr-2"><Input className="h-8 w-24" type="number" min={0} step="any" value={r.clearMargin} onChange={e => update(k, { clearMargin: Math.max(0, numberOr(e.target.value, 0)) })} /></td>
+                    <td className="pr-2">
+                      <Input
+                        className="h-8 w-24"
+                        type="number"
+                        step="any"
+                        value={r.rate?.perHour ?? ""}
+                        placeholder="off"
+                        onChange={e => update(k, {
+                          rate: e.target.value === ""
+                            ? undefined
+                            : { windowMin: 60, level: "warn", ...r.rate, perHour: numberOr(e.target.value, r.rate?.perHour ?? 0) },
+                        })}
+                      />
+                    </td>
+                    <td className="pr-2">
+                      <Input className="h-8 w-24" type="number" min={5} disabled={!r.rate} value={r.rate?.windowMin ?? ""}
+                        onChange={e => r.rate && update(k, { rate: { ...r.rate, windowMin: Math.max(5, numberOr(e.target.value, r.rate.windowMin)) } })} />
+                    </td>
+                    <td>
+                      {r.rate && (
+                        <Select
+                          value={r.rate.level}
+                          onValueChange={v => update(k, { rate: { ...r.rate!, level: v as "warn" | "crit" } })}
+                          options={[{ value: "warn", label: "warn" }, { value: "crit", label: "crit" }]}
+                        />
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import React from "react";
+import { ReferenceArea, ReferenceLine } from "recharts";
+import { fmtdatetime } from "@/lib/format";
+import { categoryMeta, type Annotation } from "@/lib/annotations";
+
+const describe = (a: Annotation) =>
+  `${categoryMeta(a.category).label}: ${a.note} · ${fmtdatetime(a.start)}${a.end !== undefined ? ` – ${fmtdatetime(a.end)}` : ""}`;
+
+/**
+ * Annotations as a vertical `ReferenceLine` (a moment) or a shaded
+ * `ReferenceArea` (a span), colored by category. `compact` drops the labels
+ * for sparklines. Returned as an array because Recharts only picks up direct children.
+ */
+export function annotationMarks(annotations: Annotation[], compact = false) {
+  return annotations.map(a => {
+    const color = categoryMeta(a.category).color;
+    const label = compact ? undefined : { value: a.note.length > 24 ? `${a.note.slice(0, 23)}…` : a.note, position: "insideTopLeft" as const, fontSize: 10, fill: color };
+    const title = <title>{describe(a)}</title>;
+    return a.end !== undefined ? (
+      <ReferenceArea key={a.id} x1={a.start} x2={a.end} ifOverflow="hidden" label={label}
+        shape={(p: { x?: number; y?: number; width?: number; height?: number }) => (
+          <rect x={p.x} y={p.y} width={Math.max(1, p.width ?? 0)} height={p.height} fill={color} fillOpacity={0.12}>{title}</rect>
+        )} />
+    ) : (
+      <ReferenceLine key={a.id} x={a.start} label={label}
+        shape={(p: { x1?: number; y1?: number; x2?: number; y2?: number }) => (
+          <line x1={p.x1} y1={p.y1} x2={p.x2} y2={p.y2} stroke={color} strokeDasharray="4 3" strokeWidth={compact ? 1 : 1.5}>{title}</line>
+        )} />
+    );
+  });
+}
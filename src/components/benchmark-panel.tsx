@@ -0,0 +1,105 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { BENCHMARK_RATES, DEFAULT_BENCHMARK, LONG_FRAME_MS, type BenchmarkOptions, type BenchmarkResult } from "@/lib/benchmark";
+import type { BenchmarkProgress, BenchmarkRun } from "@/hooks/use-benchmark";
+import { fmtdatetime, fmtnum, numberOr } from "@/lib/format";
+
+type Props = {
+  run: BenchmarkRun | null;
+  progress: BenchmarkProgress | null;
+  results: BenchmarkResult[];
+  onStart: (options: BenchmarkOptions) => void;
+  onStop: () => void;
+  onClear: () => void;
+};
+
+const DURATIONS = [10, 30, 60];
+
+const rateLabel = (r: number) => r < 1 ? `${r}/s (every ${1 / r} s)` : `${r}/s`;
+
+/** Streams N synthetic sites through the live pipeline and records frame times, to compare settings and builds. */
+export function BenchmarkPanel({ run, progress, results, onStart, onStop, onClear }: Props) {
+  const [options, setOptions] = useState<BenchmarkOptions>(DEFAULT_BENCHMARK);
+  const set = (patch: Partial<BenchmarkOptions>) => setOptions(o => ({ ...o, ...patch }));
+  const load = options.sites * options.ratePerSite;
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4 text-sm">
+        <div className="opacity-80">
+          While a run is going the dashboard swaps its sites for synthetic ones and streams them through the same path as
+          real readings: ring buffers, QC, derived parameters and alerting, the latter into a scratch alert state that is
+          dropped afterwards, so there are no notifications, harvest proposals or stored history. The site you were looking
+          at comes back when the run ends.
+          Frames are timed with requestAnimationFrame after a one-second warm-up; frames over {LONG_FRAME_MS} ms are counted
+          as long. Open the Live tab during a run to measure chart rendering too.
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-xs" htmlFor="bench-sites">Sites</Label>
+          <Input id="bench-sites" className="h-8 w-24" type="number" min={1} max={5000} value={options.sites} disabled={!!run}
+            onChange={e => set({ sites: Math.min(5000, Math.max(1, Math.trunc(numberOr(e.target.value, options.sites)))) })} />
+          <Label className="text-xs">Rate per site</Label>
+          <Select value={String(options.ratePerSite)} onValueChange={v => set({ ratePerSite: Number(v) })}
+            options={BENCHMARK_RATES.map(r => ({ value: String(r), label: rateLabel(r) }))} className="w-40" />
+          <Label className="text-xs">Duration</Label>
+          <Select value={String(options.durationS)} onValueChange={v => set({ durationS: Number(v) })}
+            options={DURATIONS.map(d => ({ value: String(d), label: `${d} s` }))} className="w-24" />
+          <div className="flex items-center gap-2">
+            <Switch id="bench-worker" checked={options.worker} onCheckedChange={worker => set({ worker })} />
+            <Label htmlFor="bench-worker" className="text-xs">Generate in a Web Worker</Label>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            {run
+              ? <Button size="sm" variant="outline" onClick={onStop}>Stop</Button>
+              : <Button size="sm" onClick={() => onStart(options)}>Start</Button>}
+          </div>
+        </div>
+        <div className="text-xs opacity-70">
+          {fmtnum(load, load < 10 ? 1 : 0)} readings/s in total
+          {run && progress && <> · running {fmtnum(progress.elapsedMs / 1000, 0)} / {run.options.durationS + 1} s, {progress.readings} readings, {fmtnum(progress.fps, 0)} fps</>}
+          {run && !progress && <> · starting…</>}
+        </div>
+
+        {!results.length ? (
+          <div className="opacity-60">No runs yet.</div>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-left opacity-70">
+                <tr>
+                  <th className="py-1 pr-2">When</th><th className="pr-2">Sites</th><th className="pr-2">Rate</th><th className="pr-2">Worker</th>
+                  <th className="pr-2">Readings/s</th><th className="pr-2">FPS</th><th className="pr-2">p50</th><th className="pr-2">p95</th>
+                  <th className="pr-2">p99</th><th className="pr-2">Max</th><th className="pr-2">Long frames</th>
+                </tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {[...results].reverse().map(r => (
+                  <tr key={r.at} className="border-t">
+                    <td className="py-1 pr-2 whitespace-nowrap">{fmtdatetime(r.at)}</td>
+                    <td className="pr-2">{r.options.sites}</td>
+                    <td className="pr-2">{r.options.ratePerSite}/s</td>
+                    <td className="pr-2">{r.options.worker ? "yes" : "no"}</td>
+                    <td className="pr-2">{fmtnum(r.readingsPerS, 0)}</td>
+                    <td className="pr-2">{fmtnum(r.frames.fps, 1)}</td>
+                    <td className="pr-2">{fmtnum(r.frames.p50, 1)} ms</td>
+                    <td className="pr-2">{fmtnum(r.frames.p95, 1)} ms</td>
+                    <td className="pr-2">{fmtnum(r.frames.p99, 1)} ms</td>
+                    <td className="pr-2">{fmtnum(r.frames.max, 0)} ms</td>
+                    <td className={`pr-2 ${r.frames.long ? "text-amber-700" : ""}`}>{r.frames.long} / {r.frames.frames}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <Button size="sm" variant="outline" onClick={onClear}>Clear results</Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,19 @@
+import React from "react";
+import { downloadChartPNG, downloadChartSVG } from "@/lib/chart-image";
+import { fileSlug } from "@/lib/download";
+
+/** Small SVG / PNG download buttons for the chart rendered inside `target`. */
+export function ChartExportButtons({ target, name, title, className = "" }: { target: React.RefObject<HTMLElement>; name: string; title?: string; className?: string }) {
+  const save = (kind: "svg" | "png") => {
+    if (!target.current) return;
+    const file = fileSlug(name);
+    if (kind === "svg") downloadChartSVG(target.current, file, title);
+    else downloadChartPNG(target.current, file, title);
+  };
+  return (
+    <span className={`inline-flex gap-1 ${className}`}>
+      <button className="text-[10px] px-1.5 rounded border border-slate-200 bg-white hover:bg-slate-50" onClick={() => save("svg")} title="Download chart as SVG">SVG</button>
+      <button className="text-[10px] px-1.5 rounded border border-slate-200 bg-white hover:bg-slate-50" onClick={() => save("png")} title="Download chart as PNG">PNG</button>
+    </span>
+  );
+}
@@ -0,0 +1,32 @@
+import React from "react";
+
+type Props<T extends string> = {
+  items: { value: T; label: string }[];
+  selected: T[];
+  /** Called with the new selection; toggled items are appended at the end. */
+  onChange: (v: T[]) => void;
+  /** Show an "all"/"none" link after the chips. */
+  toggleAll?: boolean;
+};
+
+/** Row of toggle chips for picking any number of items, e.g. sites or parameters. */
+export function Chips<T extends string>({ items, selected, onChange, toggleAll }: Props<T>) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {items.map(it => {
+        const on = selected.includes(it.value);
+        return (
+          <button key={it.value} onClick={() => onChange(on ? selected.filter(v => v !== it.value) : [...selected, it.value])}
+            className={`text-xs px-2 py-1 rounded-full border ${on ? "bg-sky-50 border-sky-300" : "bg-white border-slate-200 opacity-60"}`}>
+            {it.label}
+          </button>
+        );
+      })}
+      {toggleAll && (
+        <button className="text-xs underline opacity-70 ml-1" onClick={() => onChange(selected.length === items.length ? [] : items.map(i => i.value))}>
+          {selected.length === items.length ? "none" : "all"}
+        </button>
+      )}
+    </div>
+  );
+}
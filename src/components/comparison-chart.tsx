@@ -0,0 +1,101 @@
+import React, { useMemo, useRef } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import type { ParamKey, Reading, Site } from "@/lib/types";
+import { PARAM_META } from "@/lib/types";
+import { alignSeries, seriesStats } from "@/lib/compare";
+import { ChartExportButtons } from "@/components/chart-export";
+
+export const SITE_COLORS = ["#0284c7", "#ea580c", "#16a34a", "#9333ea", "#db2777", "#ca8a04", "#0d9488", "#4f46e5"];
+
+type Props = {
+  sites: Site[];
+  selected: string[];
+  onSelectedChange: (ids: string[]) => void;
+  param: ParamKey;
+  rowsBySite: Record<string, Reading[]>;
+  normalize: boolean;
+  onNormalizeChange: (v: boolean) => void;
+  tickTime: (t: number) => string;
+};
+
+/** One parameter overlaid for several sites on a shared time grid, plus per-site window stats. */
+export function ComparisonChart({ sites, selected, onSelectedChange, param, rowsBySite, normalize, onNormalizeChange, tickTime }: Props) {
+  const chosen = sites.filter(s => selected.includes(s.id));
+  const colorOf = (id: string) => SITE_COLORS[sites.findIndex(s => s.id === id) % SITE_COLORS.length];
+  const chosenKey = chosen.map(s => s.id).join("|");
+  const picked = useMemo(
+    () => Object.fromEntries(chosenKey.split("|").filter(Boolean).map(id => [id, rowsBySite[id] ?? []])),
+    [chosenKey, rowsBySite],
+  );
+  const aligned = useMemo(() => alignSeries(picked, param, 600, normalize), [picked, param, normalize]);
+  const meta = PARAM_META[param];
+  const chartRef = useRef<HTMLDivElement>(null);
+  const nameOf = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+
+  const toggle = (id: string) => onSelectedChange(selected.includes(id) ? selected.filter(x => x !== id) : [...selected, id]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {sites.map(s => {
+          const on = selected.includes(s.id);
+          return (
+            <button
+              key={s.id}
+              onClick={() => toggle(s.id)}
+              className={`text-xs px-2 py-1 rounded-full border inline-flex items-center gap-1.5 ${on ? "bg-white border-slate-300" : "bg-slate-50 border-slate-200 opacity-50"}`}
+            >
+              <span className="h-2 w-2 rounded-full" style={{ background: colorOf(s.id) }} />
+              {s.name}
+            </button>
+          );
+        })}
+        <div className="ml-auto flex items-center gap-2">
+          <Label className="text-xs">z‑score</Label>
+          <Switch checked={normalize} onCheckedChange={onNormalizeChange} />
+        </div>
+      </div>
+
+      <div ref={chartRef} className="h-64 w-full relative">
+        <ChartExportButtons target={chartRef} name={`comparison_${param}`} title={`${meta.label} by site${normalize ? " (z-score)" : ""}`} className="absolute right-2 -top-1 z-10" />
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={aligned} margin={{ top: 8, right: 16, left: 8, bottom: 8 }}>
+            <XAxis dataKey="ts" type="number" domain={["dataMin", "dataMax"]} tickFormatter={(t)=>tickTime(t)} />
+            <YAxis domain={['auto','auto']} tickFormatter={(v)=>v.toFixed(1)} />
+            <Tooltip
+              formatter={(v:any, id:any)=>[`${Number(v).toFixed(2)}${normalize ? " σ" : ` ${meta.unit}`}`, nameOf(String(id))]}
+              labelFormatter={(l:any)=>new Date(l).toLocaleString()}
+            />
+            <Legend formatter={(id:any)=>nameOf(String(id))} />
+            {chosen.map(s => (
+              <Line key={s.id} type="monotone" dataKey={s.id} stroke={colorOf(s.id)} strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead className="text-xs text-left opacity-70">
+          <tr><th className="py-1">Site</th><th className="text-right">Min</th><th className="text-right">Mean</th><th className="text-right">Max</th><th className="text-right">n</th></tr>
+        </thead>
+        <tbody>
+          {chosen.map(s => {
+            const st = seriesStats(picked[s.id] ?? [], param);
+            const cell = (v?: number) => v === undefined ? "—" : `${v.toFixed(2)} ${meta.unit}`;
+            return (
+              <tr key={s.id} className="border-t tabular-nums">
+                <td className="py-1"><span className="inline-block h-2 w-2 rounded-full mr-2" style={{ background: colorOf(s.id) }} />{s.name}</td>
+                <td className="text-right">{cell(st?.min)}</td>
+                <td className="text-right">{cell(st?.mean)}</td>
+                <td className="text-right">{cell(st?.max)}</td>
+                <td className="text-right">{st?.n ?? 0}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import type { ConnectionStatus } from "@/lib/telemetry";
+
+const TONE: Record<ConnectionStatus, string> = {
+  idle: "bg-slate-100 border-slate-200 text-slate-600",
+  connecting: "bg-sky-50 border-sky-200 text-sky-700",
+  open: "bg-emerald-50 border-emerald-200 text-emerald-700",
+  reconnecting: "bg-yellow-50 border-yellow-200 text-yellow-700",
+  closed: "bg-slate-100 border-slate-200 text-slate-600",
+};
+
+const DOT: Record<ConnectionStatus, string> = {
+  idle: "bg-slate-400",
+  connecting: "bg-sky-500 animate-pulse",
+  open: "bg-emerald-500",
+  reconnecting: "bg-yellow-500 animate-pulse",
+  closed: "bg-slate-400",
+};
+
+export function ConnectionBadge({ label, status }: { label: string; status: ConnectionStatus }) {
+  return (
+    <span className={`text-xs ml-2 px-2 py-0.5 rounded-full border inline-flex items-center gap-1.5 ${TONE[status]}`} title={`Telemetry: ${label} (${status})`}>
+      <span className={`h-2 w-2 rounded-full ${DOT[status]}`} />
+      {label} · {status}
+    </span>
+  );
+}
@@ -0,0 +1,76 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { Reading } from "@/lib/types";
+import { DERIVED_KEYS, PARAM_META } from "@/lib/types";
+import { DEFAULT_DERIVED, DERIVED_INPUTS, type DerivedConfig } from "@/lib/derived";
+import { fmtdatetime, fmtnum, numberOr } from "@/lib/format";
+import { PRECISION } from "@/lib/csv";
+
+type Props = {
+  config: DerivedConfig;
+  onChange: (next: DerivedConfig) => void;
+  latest?: Reading;
+  siteName: string;
+};
+
+const DESCRIPTION: Record<(typeof DERIVED_KEYS)[number], string> = {
+  do_sat: "Measured DO as a percentage of oxygen solubility at the same temperature and salinity (Weiss 1970).",
+  omega_arag: "Aragonite saturation state from temperature, salinity, pH and alkalinity estimated from salinity. Below 1 seawater is corrosive to aragonite shells; larvae are stressed below about 1.5.",
+  thermal_dh: "Cumulative degree-hours above the threshold temperature since the last reset: a 1 °C excess for a day adds 24 °C·h, and temperatures failing QC add nothing. It only grows, so reset it at the start of each warm season.",
+};
+
+export function DerivedSettings({ config, onChange, latest, siteName }: Props) {
+  const set = <G extends keyof DerivedConfig>(group: G, patch: Partial<DerivedConfig[G]>) =>
+    onChange({ ...config, [group]: { ...config[group], ...patch } });
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4 text-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="opacity-80">
+            Derived parameters are computed from each reading as it arrives and then behave like measured ones: chart them,
+            set thresholds and alert rules, and export them. Changes here apply to readings from now on.
+          </div>
+          <Button size="sm" variant="outline" className="ml-auto" onClick={() => onChange(DEFAULT_DERIVED)}>Reset defaults</Button>
+        </div>
+        <table className="w-full">
+          <thead className="text-xs text-left opacity-70">
+            <tr><th className="py-1 pr-2">Parameter</th><th className="pr-2">From</th><th className="pr-2">How</th><th className="text-right">{siteName} now</th></tr>
+          </thead>
+          <tbody>
+            {DERIVED_KEYS.map(k => (
+              <tr key={k} className="border-t align-top">
+                <td className="py-1 pr-2 whitespace-nowrap">{PARAM_META[k].label} <span className="opacity-60">{PARAM_META[k].unit}</span></td>
+                <td className="pr-2 whitespace-nowrap">{DERIVED_INPUTS[k].map(i => PARAM_META[i].label).join(", ")}</td>
+                <td className="pr-2 opacity-80">{DESCRIPTION[k]}</td>
+                <td className="text-right whitespace-nowrap">{fmtnum(latest?.[k], PRECISION[k])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+          <Label className="w-40">Alkalinity (µmol/kg)</Label>
+          <span>TA =</span>
+          <Input className="h-8 w-20" type="number" step="any" value={config.alkalinity.intercept}
+            onChange={e => set("alkalinity", { intercept: numberOr(e.target.value, config.alkalinity.intercept) })} />
+          <span>+</span>
+          <Input className="h-8 w-20" type="number" step="any" value={config.alkalinity.slope}
+            onChange={e => set("alkalinity", { slope: numberOr(e.target.value, config.alkalinity.slope) })} />
+          <span>× salinity</span>
+          <span className="text-xs opacity-60">(replace with a regional fit where one exists)</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="w-40">Thermal stress</Label>
+          <span>degree-hours above</span>
+          <Input className="h-8 w-20" type="number" step="any" value={config.thermal.thresholdC}
+            onChange={e => set("thermal", { thresholdC: numberOr(e.target.value, config.thermal.thresholdC) })} />
+          <span>°C, summed {config.thermal.resetAt ? `since ${fmtdatetime(config.thermal.resetAt)}` : "since monitoring began"}</span>
+          <Button size="sm" variant="outline" onClick={() => set("thermal", { resetAt: Date.now() })}>Reset now</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,201 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Download } from "lucide-react";
+import type { Site } from "@/lib/types";
+import { fmtdatetime, fmtduration } from "@/lib/format";
+import { toLocalInput } from "@/lib/time-range";
+import { downloadText } from "@/lib/download";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  ANNOTATION_CATEGORIES, annotationRecord, annotationsCSV, categoryMeta, createAnnotation,
+  type Annotation, type AnnotationCategory,
+} from "@/lib/annotations";
+
+/** Where a new annotation starts out: a site and a moment, or a span picked on the trend chart. */
+export type AnnotationDraft = { siteId: string; start: number; end?: number };
+
+type FormProps = {
+  sites: Site[];
+  initial: AnnotationDraft;
+  onAdd: (a: Annotation) => void;
+  onCancel?: () => void;
+};
+
+/** Category, time (moment or span) and note for one field event. */
+function AnnotationForm({ sites, initial, onAdd, onCancel }: FormProps) {
+  const [author, setAuthor] = usePersistentState("m2m.author.v1", "");
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState(() => ({
+    siteId: initial.siteId,
+    category: "other" as AnnotationCategory,
+    start: toLocalInput(initial.start),
+    span: initial.end !== undefined,
+    end: toLocalInput(initial.end ?? initial.start + 3600_000),
+    note: "",
+  }));
+
+  function add() {
+    try {
+      const start = new Date(draft.start).getTime();
+      onAdd(createAnnotation({
+        siteId: draft.siteId, category: draft.category, start, note: draft.note, author,
+        end: draft.span ? new Date(draft.end).getTime() : undefined,
+      }, Date.now()));
+      setDraft(d => ({ ...d, note: "" }));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Site</Label>
+          <Select value={draft.siteId} onValueChange={v => setDraft({ ...draft, siteId: v })} options={sites.map(s => ({ value: s.id, label: s.name }))} className="w-full h-10" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Category</Label>
+          <Select value={draft.category} onValueChange={v => setDraft({ ...draft, category: v as AnnotationCategory })}
+            options={ANNOTATION_CATEGORIES.map(c => ({ value: c.value, label: c.label }))} className="w-full h-10" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="annotation-start">{draft.span ? "From" : "At"}</Label>
+          <Input id="annotation-start" type="datetime-local" value={draft.start} onChange={e => setDraft({ ...draft, start: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Switch id="annotation-span" checked={draft.span} onCheckedChange={span => setDraft({ ...draft, span })} />
+            <Label htmlFor="annotation-span" className="text-xs">{draft.span ? "Until" : "Time span"}</Label>
+          </div>
+          {draft.span && <Input type="datetime-local" value={draft.end} onChange={e => setDraft({ ...draft, end: e.target.value })} />}
+        </div>
+        <div className="space-y-1 col-span-2 md:col-span-3">
+          <Label className="text-xs" htmlFor="annotation-note">Note</Label>
+          <Input id="annotation-note" value={draft.note} placeholder="e.g. Sonde wiped and recalibrated"
+            onChange={e => setDraft({ ...draft, note: e.target.value })} onKeyDown={e => { if (e.key === "Enter") add(); }} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="annotation-author">Your name</Label>
+          <Input id="annotation-author" value={author} onChange={e => setAuthor(e.target.value)} />
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <Button disabled={!draft.note.trim()} onClick={add}>Add annotation</Button>
+        {onCancel && <Button variant="outline" onClick={onCancel}>Cancel</Button>}
+        {error && <span className="text-red-700">{error}</span>}
+      </div>
+    </div>
+  );
+}
+
+type DialogProps = {
+  sites: Site[];
+  draft: AnnotationDraft | null;
+  onClose: () => void;
+  onAdd: (a: Annotation) => void;
+};
+
+/** Opened by clicking (a moment) or dragging across (a span) the trend chart. */
+export function AnnotationDialog({ sites, draft, onClose, onAdd }: DialogProps) {
+  return (
+    <Dialog open={!!draft} onOpenChange={v => { if (!v) onClose(); }} title="Annotate">
+      {draft && (
+        <AnnotationForm
+          key={`${draft.siteId}:${draft.start}:${draft.end}`}
+          sites={sites}
+          initial={draft}
+          onAdd={a => { onAdd(a); onClose(); }}
+          onCancel={onClose}
+        />
+      )}
+    </Dialog>
+  );
+}
+
+type Props = {
+  sites: Site[];
+  activeSite: string;
+  annotations: Annotation[];
+  onChange: (next: Annotation[]) => void;
+};
+
+/** Per-site log of field events shown on the charts: storms, maintenance, harvests, sampling. */
+export function EventLog({ sites, activeSite, annotations, onChange }: Props) {
+  const [scope, setScope] = useState<"site" | "all">("site");
+  const siteName = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+  const shown = annotations.filter(a => scope === "all" || a.siteId === activeSite).sort((a, b) => b.start - a.start);
+
+  function exportLog(format: "csv" | "json") {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const list = [...shown].reverse();
+    if (format === "csv") downloadText(`event_log_${stamp}.csv`, annotationsCSV(list));
+    else downloadText(`event_log_${stamp}.json`, JSON.stringify(list.map(annotationRecord), null, 2), "application/json");
+  }
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4 text-sm">
+        <div className="opacity-80">
+          Record what happened at a site so later readers know why the data moved. Events show as dashed lines (a moment) or
+          shaded bands (a span) on the trend chart and sparklines, and are included in exports. Click the trend chart to
+          annotate a moment there, or drag across it to mark a span.
+        </div>
+        <AnnotationForm key={activeSite} sites={sites} initial={{ siteId: activeSite, start: Date.now() }} onAdd={a => onChange([...annotations, a])} />
+
+        <div className="flex items-center gap-2">
+          <Select value={scope} onValueChange={v => setScope(v as "site" | "all")}
+            options={[{ value: "site", label: `At ${siteName(activeSite)}` }, { value: "all", label: "All sites" }]} />
+          <div className="ml-auto flex items-center gap-2">
+            <Button size="sm" variant="outline" disabled={!shown.length} onClick={() => exportLog("csv")}><Download className="h-4 w-4 mr-1" />CSV</Button>
+            <Button size="sm" variant="outline" disabled={!shown.length} onClick={() => exportLog("json")}><Download className="h-4 w-4 mr-1" />JSON</Button>
+          </div>
+        </div>
+
+        {shown.length === 0 ? <div className="opacity-70">No events logged.</div> : (
+          <div className="overflow-auto">
+            <table className="w-full">
+              <thead className="text-xs text-left opacity-70">
+                <tr>
+                  <th className="py-1 pr-2">When</th>
+                  {scope === "all" && <th className="pr-2">Site</th>}
+                  <th className="pr-2">Category</th>
+                  <th className="pr-2">Note</th>
+                  <th className="pr-2">By</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(a => {
+                  const meta = categoryMeta(a.category);
+                  return (
+                    <tr key={a.id} className="border-t align-top">
+                      <td className="py-1 pr-2 whitespace-nowrap">
+                        {fmtdatetime(a.start)}
+                        {a.end !== undefined && <div className="text-xs opacity-70">to {fmtdatetime(a.end)} ({fmtduration(a.end - a.start)})</div>}
+                      </td>
+                      {scope === "all" && <td className="pr-2">{siteName(a.siteId)}</td>}
+                      <td className="pr-2 whitespace-nowrap"><span style={{ color: meta.color }}>{a.end !== undefined ? "▮" : "┊"} </span>{meta.label}</td>
+                      <td className="pr-2">{a.note}</td>
+                      <td className="pr-2">{a.author || <span className="opacity-50">—</span>}</td>
+                      <td className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => onChange(annotations.filter(x => x.id !== a.id))}>Remove</Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Download } from "lucide-react";
+import type { ParamKey, Site } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META } from "@/lib/types";
+import type { TelemetrySource } from "@/lib/telemetry";
+import { profileFor, resolveThresholds, type ThresholdConfig } from "@/lib/thresholds";
+import { loadHistory } from "@/lib/history";
+import { flushQueue } from "@/lib/history-store";
+import { resolveRange, type TimeRange } from "@/lib/time-range";
+import { EXPORT_FORMATS, renderExport, type ExportFormat, type ExportRequest } from "@/lib/export";
+import { downloadText, fileSlug } from "@/lib/download";
+import { qcSeries, type QcConfig } from "@/lib/qc";
+import type { DerivedConfig } from "@/lib/derived";
+import { TimeRangePicker } from "@/components/time-range-picker";
+import { Chips } from "@/components/chips";
+import { annotationsFor, type Annotation } from "@/lib/annotations";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  source: TelemetrySource;
+  sites: Site[];
+  activeSite: string;
+  range: TimeRange;
+  thresholdConfig: ThresholdConfig;
+  qcConfig: QcConfig;
+  /** Fills derived values missing from stored history. */
+  derivedConfig: DerivedConfig;
+  annotations: Annotation[];
+};
+
+export function ExportDialog({ open, onOpenChange, source, sites, activeSite, range: initialRange, thresholdConfig, qcConfig, derivedConfig, annotations }: Props) {
+  const [siteIds, setSiteIds] = useState<string[]>([activeSite]);
+  const [params, setParams] = useState<ParamKey[]>(PARAM_KEYS);
+  const [range, setRange] = useState<TimeRange>(initialRange);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [precision, setPrecision] = useState<ExportRequest["precision"]>("default");
+  const [withQc, setWithQc] = useState(true);
+  const [withEvents, setWithEvents] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function run() {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { from, to } = resolveRange(range, Date.now());
+      await flushQueue();
+      const chosen = sites.filter(s => siteIds.includes(s.id));
+      const rows = await Promise.all(chosen.map(s => loadHistory(source, s.id, from, to, { derived: derivedConfig, qc: qcConfig })));
+      const req: ExportRequest = {
+        sites: chosen.map((site, i) => ({
+          site,
+          profile: profileFor(thresholdConfig, site.id).name,
+          thresholds: resolveThresholds(thresholdConfig, site.id),
+          rows: rows[i],
+          flags: withQc ? qcSeries(rows[i], qcConfig) : undefined,
+          annotations: withEvents ? annotationsFor(annotations, site.id, from, to) : undefined,
+        })),
+        params: PARAM_KEYS.filter(k => params.includes(k)),
+        from, to, precision,
+      };
+      const fmt = EXPORT_FORMATS.find(f => f.value === format)!;
+      const stamp = (t: number) => new Date(t).toISOString().slice(0, 16).replace(/[:T]/g, "");
+      const name = chosen.length === 1 ? fileSlug(chosen[0].name) : `${chosen.length}_sites`;
+      downloadText(`${name}_${stamp(from)}-${stamp(to)}.${fmt.ext}`, renderExport(format, req), fmt.mime);
+      setStatus(`Exported ${rows.reduce((n, r) => n + r.length, 0)} readings.`);
+    } catch (e) {
+      setStatus(`Export failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} title="Export data">
+      <div className="space-y-4 text-sm">
+        <div className="space-y-1">
+          <Label className="text-xs">Sites</Label>
+          <Chips items={sites.map(s => ({ value: s.id, label: s.name }))} selected={siteIds} onChange={setSiteIds} toggleAll />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Parameters</Label>
+          <Chips items={PARAM_KEYS.map(k => ({ value: k, label: PARAM_META[k].label }))} selected={params} onChange={setParams} toggleAll />
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Time range</Label>
+            <TimeRangePicker value={range} onChange={setRange} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Format</Label>
+            <Select value={format} onValueChange={v => setFormat(v as ExportFormat)} options={EXPORT_FORMATS.map(f => ({ value: f.value, label: f.label }))} className="w-80" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Precision</Label>
+            <Select value={precision} onValueChange={v => setPrecision(v as ExportRequest["precision"])}
+              options={[{ value: "default", label: "Sensor resolution" }, { value: "full", label: "Full (unrounded)" }]} />
+          </div>
+          <div className="flex items-center gap-2 pb-1.5">
+            <Switch id="export-qc" checked={withQc} onCheckedChange={setWithQc} />
+            <Label htmlFor="export-qc" className="text-xs">QC flag columns</Label>
+          </div>
+          <div className="flex items-center gap-2 pb-1.5">
+            <Switch id="export-events" checked={withEvents} onCheckedChange={setWithEvents} />
+            <Label htmlFor="export-events" className="text-xs">Annotations</Label>
+          </div>
+        </div>
+        {status && <div className="p-2 rounded-xl border bg-slate-50">{status}</div>}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button disabled={busy || !siteIds.length || !params.length} onClick={run}>
+            <Download className="h-4 w-4 mr-2"/>{busy ? "Preparing…" : "Export"}
+          </Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { PARAM_META } from "@/lib/types";
+import { fmtnum, fmttime, numberOr } from "@/lib/format";
+import { HAB_INPUTS, type HabInput, type HabRisk, type HabRiskConfig } from "@/lib/hab-risk";
+import type { Crossing, ForecastOptions } from "@/lib/forecast";
+
+const TONE = { ok: "#10b981", warn: "#eab308", crit: "#ef4444" };
+const R = 60, CX = 70, CY = 70;
+
+function polar(v: number, r = R) {
+  const a = Math.PI * (1 - Math.min(100, Math.max(0, v)) / 100);
+  return [CX + r * Math.cos(a), CY - r * Math.sin(a)];
+}
+
+function arc(from: number, to: number) {
+  const [x1, y1] = polar(from);
+  const [x2, y2] = polar(to);
+  return `M ${x1} ${y1} A ${R} ${R} 0 0 1 ${x2} ${y2}`;
+}
+
+/** Semicircular 0–100 gauge with ok / warn / crit bands. */
+function Gauge({ score, warn, crit }: { score: number; warn: number; crit: number }) {
+  const [nx, ny] = polar(Number.isFinite(score) ? score : 0, R - 12);
+  return (
+    <svg viewBox="0 0 140 84" className="w-40">
+      <path d={arc(0, warn)} stroke={TONE.ok} strokeWidth={10} fill="none" />
+      <path d={arc(warn, crit)} stroke={TONE.warn} strokeWidth={10} fill="none" />
+      <path d={arc(crit, 100)} stroke={TONE.crit} strokeWidth={10} fill="none" />
+      {Number.isFinite(score) && <line x1={CX} y1={CY} x2={nx} y2={ny} stroke="#0f172a" strokeWidth={2.5} strokeLinecap="round" />}
+      <circle cx={CX} cy={CY} r={4} fill="#0f172a" />
+      <text x={CX} y={CY + 13} textAnchor="middle" className="fill-slate-900 text-[13px] font-semibold">{fmtnum(score, 0)}</text>
+    </svg>
+  );
+}
+
+export type HabCrossings = Record<HabInput, { warn: Crossing; crit: Crossing } | null>;
+
+type Props = {
+  risk: HabRisk;
+  config: HabRiskConfig;
+  onConfigChange: (next: HabRiskConfig) => void;
+  crossings: HabCrossings;
+  forecast: ForecastOptions;
+  onForecastChange: (next: ForecastOptions) => void;
+};
+
+function describe(c: Crossing | undefined) {
+  if (!c) return "—";
+  if (c.breached) return "reached";
+  if (c.at) return `≈ ${fmttime(c.at)}`;
+  if (c.earliest) return `possible from ${fmttime(c.earliest)}`;
+  return "not expected";
+}
+
+/** Composite HAB risk gauge with per-input contributions and forecast threshold crossings. */
+export function HabGauge({ risk, config, onConfigChange, crossings, forecast, onForecastChange }: Props) {
+  const label = risk.level === "crit" ? "High" : risk.level === "warn" ? "Elevated" : "Low";
+  return (
+    <div className="grid gap-4 md:grid-cols-[auto_1fr] items-start">
+      <div className="flex flex-col items-center">
+        <Gauge score={risk.score} warn={config.warn} crit={config.crit} />
+        <div className="text-sm font-medium" style={{ color: TONE[risk.level] }}>HAB risk: {Number.isFinite(risk.score) ? label : "no data"}</div>
+      </div>
+      <div className="overflow-auto">
+        <table className="w-full text-xs">
+          <thead className="text-left opacity-70">
+            <tr>
+              <th className="py-1 pr-2">Input</th>
+              <th className="pr-2 text-right">Value</th>
+              <th className="pr-2">Sub-score</th>
+              <th className="pr-2">Weight</th>
+              <th className="pr-2">Warn crossing</th>
+              <th>Crit crossing</th>
+            </tr>
+          </thead>
+          <tbody>
+            {risk.components.map(c => (
+              <tr key={c.key} className="border-t">
+                <td className="py-1 pr-2">{PARAM_META[c.key].label}</td>
+                <td className="pr-2 text-right tabular-nums">{fmtnum(c.value)}</td>
+                <td className="pr-2">
+                  <div className="h-2 w-20 rounded bg-slate-100 overflow-hidden">
+                    <div className="h-full bg-sky-500" style={{ width: `${Number.isFinite(c.score) ? c.score * 100 : 0}%` }} />
+                  </div>
+                </td>
+                <td className="pr-2">
+                  <Input className="h-7 w-16 text-xs" type="number" min={0} step="0.05" value={config.weights[c.key]}
+                    onChange={e => onConfigChange({ ...config, weights: { ...config.weights, [c.key]: Math.max(0, numberOr(e.target.value, config.weights[c.key])) } })} />
+                </td>
+                <td className="pr-2 whitespace-nowrap">{describe(crossings[c.key]?.warn)}</td>
+                <td className="whitespace-nowrap">{describe(crossings[c.key]?.crit)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs opacity-80">
+          <span>Index warn at</span>
+          <Input className="h-7 w-14 text-xs" type="number" min={0} max={100} value={config.warn}
+            onChange={e => onConfigChange({ ...config, warn: numberOr(e.target.value, config.warn) })} />
+          <span>crit at</span>
+          <Input className="h-7 w-14 text-xs" type="number" min={0} max={100} value={config.crit}
+            onChange={e => onConfigChange({ ...config, crit: numberOr(e.target.value, config.crit) })} />
+          <span className="ml-3">Forecast: fit last</span>
+          <Input className="h-7 w-14 text-xs" type="number" min={10} value={forecast.lookbackMin}
+            onChange={e => onForecastChange({ ...forecast, lookbackMin: Math.max(10, numberOr(e.target.value, forecast.lookbackMin)) })} />
+          <span>min, project</span>
+          <Input className="h-7 w-14 text-xs" type="number" min={10} value={forecast.horizonMin}
+            onChange={e => onForecastChange({ ...forecast, horizonMin: Math.max(10, numberOr(e.target.value, forecast.horizonMin)) })} />
+          <span>min (Holt smoothing, ~95% band).</span>
+        </div>
+      </div>
+    </div>
+  );
+}
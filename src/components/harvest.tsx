@@ -0,0 +1,212 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Dialog } from "@/components/ui/dialog";
+import { Chips } from "@/components/chips";
+import { Download } from "lucide-react";
+import type { Site } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META } from "@/lib/types";
+import { fmtdatetime, fmtnum } from "@/lib/format";
+import { downloadText } from "@/lib/download";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  HARVEST_STATUSES, harvestLogCSV, isReopening, reopenSummary, statusOf,
+  type HarvestProposal, type HarvestState, type HarvestStatus, type ReopenCheck, type ReopenCriteria, type StatusChange,
+} from "@/lib/harvest";
+
+const TONE: Record<HarvestStatus, string> = {
+  open: "bg-emerald-500/10 text-emerald-700 border-emerald-500/30",
+  conditional: "bg-yellow-500/10 text-yellow-700 border-yellow-500/30",
+  closed: "bg-red-500/10 text-red-700 border-red-500/30",
+};
+
+const labelOf = (s: HarvestStatus) => HARVEST_STATUSES.find(x => x.value === s)!.label;
+
+export function HarvestBadge({ status, onClick }: { status: HarvestStatus; onClick?: () => void }) {
+  const cls = `text-xs px-2 py-0.5 rounded-full border whitespace-nowrap ${TONE[status]}`;
+  return onClick
+    ? <button className={`${cls} hover:opacity-80`} onClick={onClick} title="Change harvest status">Harvest: {labelOf(status)}</button>
+    : <span className={cls}>{labelOf(status)}</span>;
+}
+
+/** What the change dialog is doing: a manual change (optionally accepting a proposal) or dismissing a proposal. */
+export type HarvestEdit = { siteId: string; to?: HarvestStatus; proposal?: HarvestProposal; dismiss?: boolean };
+
+type DialogProps = {
+  edit: HarvestEdit | null;
+  onClose: () => void;
+  state: HarvestState;
+  siteName: (id: string) => string;
+  reopenCheck: (siteId: string) => ReopenCheck;
+  onChange: (c: StatusChange) => void;
+  onDismiss: (alertId: string, reason: string, author: string) => void;
+};
+
+export function HarvestDialog({ edit, onClose, state, siteName, reopenCheck, onChange, onDismiss }: DialogProps) {
+  const current = edit ? statusOf(state, edit.siteId) : "open";
+  const [to, setTo] = useState<HarvestStatus>(edit?.to ?? current);
+  const [reason, setReason] = useState(edit?.proposal && !edit.dismiss
+    ? `Critical ${PARAM_META[edit.proposal.key].label} alert (${fmtnum(edit.proposal.value)} ${PARAM_META[edit.proposal.key].unit})`.trim()
+    : "");
+  const [author, setAuthor] = usePersistentState("m2m.author.v1", "");
+  if (!edit) return null;
+
+  const gated = !edit.dismiss && isReopening(current, to);
+  const check = gated ? reopenCheck(edit.siteId) : null;
+  const blocked = !!check && !check.ok;
+  const valid = reason.trim() !== "" && author.trim() !== "" && (edit.dismiss || to !== current) && !blocked;
+
+  function submit() {
+    if (!edit || !valid) return;
+    if (edit.dismiss && edit.proposal) onDismiss(edit.proposal.alertId, reason, author);
+    else onChange({ siteId: edit.siteId, to, reason, author, alertId: edit.proposal?.alertId, reopen: check ?? undefined });
+    onClose();
+  }
+
+  return (
+    <Dialog open onOpenChange={v => !v && onClose()} title={`${edit.dismiss ? "Dismiss closure proposal" : "Harvest status"} · ${siteName(edit.siteId)}`} className="max-w-lg">
+      <div className="space-y-3 text-sm">
+        <div className="flex items-center gap-2">Current status: <HarvestBadge status={current} /></div>
+        {!edit.dismiss && (
+          <div className="space-y-1">
+            <Label className="text-xs">New status</Label>
+            <Select value={to} onValueChange={v => setTo(v as HarvestStatus)} options={HARVEST_STATUSES} className="w-56" />
+          </div>
+        )}
+        {check && (
+          <div className={`p-2 rounded-xl border ${check.ok ? "bg-emerald-50 border-emerald-200" : "bg-red-50 border-red-200"}`}>
+            Reopen criteria: {check.streak} of {check.needed} consecutive clean readings
+            {check.openAlerts > 0 && `, ${check.openAlerts} open alert${check.openAlerts === 1 ? "" : "s"} on criteria parameters`}
+            {check.ok ? " — met." : " — not met; the site cannot be reopened yet."}
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="harvest-reason">Reason</Label>
+          <textarea id="harvest-reason" value={reason} onChange={e => setReason(e.target.value)} rows={3}
+            className="w-full rounded-xl border border-slate-300 px-3 py-2 text-sm" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="harvest-author">Author</Label>
+          <Input id="harvest-author" value={author} onChange={e => setAuthor(e.target.value)} placeholder="Name or initials" />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button disabled={!valid} onClick={submit}>{edit.dismiss ? "Dismiss" : "Record change"}</Button>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
+
+type PanelProps = {
+  sites: Site[];
+  state: HarvestState;
+  criteria: ReopenCriteria;
+  onCriteriaChange: (next: ReopenCriteria) => void;
+  onEdit: (edit: HarvestEdit) => void;
+};
+
+/** Status per site, pending proposals, reopen criteria and the audit log. */
+export function HarvestPanel({ sites, state, criteria, onCriteriaChange, onEdit }: PanelProps) {
+  const siteName = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+  const log = [...state.log].reverse();
+
+  function exportLog(format: "csv" | "json") {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === "csv") downloadText(`harvest_log_${stamp}.csv`, harvestLogCSV(state.log, siteName));
+    else downloadText(`harvest_log_${stamp}.json`, JSON.stringify(state.log, null, 2), "application/json");
+  }
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4 text-sm">
+        {state.proposals.length > 0 && (
+          <div className="space-y-2">
+            <div className="font-medium">Closure proposals</div>
+            {state.proposals.map(p => (
+              <div key={p.alertId} className="flex flex-wrap items-center gap-2 p-2 rounded-xl border border-red-200 bg-red-50">
+                <span><strong>{siteName(p.siteId)}</strong>: critical {PARAM_META[p.key].label} ({fmtnum(p.value)} {PARAM_META[p.key].unit}) at {fmtdatetime(p.proposedAt)}</span>
+                <div className="ml-auto flex gap-2">
+                  <Button size="sm" onClick={() => onEdit({ siteId: p.siteId, to: "closed", proposal: p })}>Close site…</Button>
+                  <Button size="sm" variant="outline" onClick={() => onEdit({ siteId: p.siteId, proposal: p, dismiss: true })}>Dismiss…</Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <table className="w-full">
+          <thead className="text-xs text-left opacity-70">
+            <tr><th className="py-1 pr-2">Site</th><th className="pr-2">Status</th><th className="pr-2">Since</th><th /></tr>
+          </thead>
+          <tbody>
+            {sites.map(s => (
+              <tr key={s.id} className="border-t">
+                <td className="py-1 pr-2">{s.name}</td>
+                <td className="pr-2"><HarvestBadge status={statusOf(state, s.id)} /></td>
+                <td className="pr-2 text-xs opacity-70">{state.status[s.id] ? fmtdatetime(state.status[s.id].since) : "—"}</td>
+                <td className="text-right"><Button size="sm" variant="outline" onClick={() => onEdit({ siteId: s.id })}>Change…</Button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="space-y-2">
+          <div className="font-medium">Reopen criteria</div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="opacity-80">Require</span>
+            <Input className="h-8 w-20" type="number" min={1} value={criteria.cleanReadings}
+              onChange={e => onCriteriaChange({ ...criteria, cleanReadings: Math.max(1, Math.round(Number(e.target.value) || 1)) })} />
+            <span className="opacity-80">consecutive readings with these parameters below warn:</span>
+          </div>
+          <Chips items={PARAM_KEYS.map(k => ({ value: k, label: PARAM_META[k].label }))} selected={criteria.params}
+            onChange={params => onCriteriaChange({ ...criteria, params })} />
+          <div className="flex items-center gap-2">
+            <Switch id="reopen-alerts" checked={criteria.noOpenAlerts} onCheckedChange={v => onCriteriaChange({ ...criteria, noOpenAlerts: v })} />
+            <Label htmlFor="reopen-alerts">…and no open alerts on them</Label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">Audit log</span>
+            <span className="text-xs opacity-70">{state.log.length} entries · append-only</span>
+            <div className="ml-auto flex gap-2">
+              <Button size="sm" variant="outline" disabled={!state.log.length} onClick={() => exportLog("csv")}><Download className="h-4 w-4 mr-1" />CSV</Button>
+              <Button size="sm" variant="outline" disabled={!state.log.length} onClick={() => exportLog("json")}><Download className="h-4 w-4 mr-1" />JSON</Button>
+            </div>
+          </div>
+          {log.length === 0 ? <div className="opacity-70">No harvest status changes recorded.</div> : (
+            <div className="max-h-72 overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="text-left opacity-70">
+                  <tr><th className="py-1 pr-2">Time</th><th className="pr-2">Site</th><th className="pr-2">Action</th><th className="pr-2">Reason</th><th>Author</th></tr>
+                </thead>
+                <tbody>
+                  {log.map(e => (
+                    <tr key={e.id} className="border-t align-top">
+                      <td className="py-1 pr-2 whitespace-nowrap">{fmtdatetime(e.ts)}</td>
+                      <td className="pr-2">{siteName(e.siteId)}</td>
+                      <td className="pr-2 whitespace-nowrap">
+                        {e.action === "status" ? <>{labelOf(e.from)} → {labelOf(e.to)}</> : e.action === "proposed" ? "Closure proposed" : "Proposal dismissed"}
+                      </td>
+                      <td className="pr-2">
+                        {e.reason}
+                        {e.reopen && <div className="opacity-70">Reopen check: {reopenSummary(e.reopen)}</div>}
+                      </td>
+                      <td>{e.author}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
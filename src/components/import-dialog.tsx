@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from "react";
+import { Dialog } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Upload } from "lucide-react";
+import type { ParamKey, Reading, Site } from "@/lib/types";
+import { MEASURED_KEYS, PARAM_META } from "@/lib/types";
+import { parseCSV } from "@/lib/csv";
+import { buildReadings, guessColumns, isValidTimeZone, UNITS, type ColumnSpec, type ImportTarget } from "@/lib/importer";
+
+const TARGET_OPTIONS: { value: ImportTarget; label: string }[] = [
+  { value: "ignore", label: "— ignore —" },
+  { value: "timestamp", label: "Timestamp" },
+  { value: "date", label: "Date" },
+  { value: "time", label: "Time of day" },
+  { value: "site", label: "Site ID" },
+  ...MEASURED_KEYS.map(k => ({ value: k, label: PARAM_META[k].label })),
+];
+
+const ZONES = ["local", "UTC", "America/Los_Angeles", "America/Vancouver", "America/Anchorage", "-08:00", "-07:00"];
+
+type Props = {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  sites: Site[];
+  defaultSite: string;
+  onImport: (siteId: string, readings: Reading[]) => Promise<void>;
+};
+
+export function ImportDialog({ open, onOpenChange, sites, defaultSite, onImport }: Props) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<string[][]>([]);
+  const [columns, setColumns] = useState<ColumnSpec[]>([]);
+  const [timeZone, setTimeZone] = useState("local");
+  const [assumedSalinity, setAssumedSalinity] = useState(30);
+  const [siteId, setSiteId] = useState(defaultSite);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const header = table[0] ?? [];
+  const body = useMemo(() => table.slice(1), [table]);
+  const zoneOk = isValidTimeZone(timeZone);
+  const result = useMemo(
+    () => header.length && zoneOk ? buildReadings(body, header, { columns, timeZone, assumedSalinity, knownSites: sites.map(s => s.id) }) : null,
+    [body, header, columns, timeZone, assumedSalinity, zoneOk, sites],
+  );
+  const hasTime = columns.some(c => c.target === "timestamp" || c.target === "date");
+  // A site column (e.g. our own long CSV) splits the file by site instead of merging it into one.
+  const split = columns.some(c => c.target === "site");
+  const groups = Object.entries(result?.bySite ?? {});
+  const span = groups.flatMap(([, rows]) => [rows[0].ts, rows[rows.length - 1].ts]);
+  const siteName = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+
+  async function loadFile(file: File) {
+    const rows = parseCSV(await file.text());
+    setFileName(file.name);
+    setTable(rows);
+    setColumns(guessColumns(rows[0] ?? []));
+    setStatus(null);
+  }
+
+  function setColumn(i: number, spec: ColumnSpec) {
+    setColumns(cols => cols.map((c, j) => j === i ? spec : c));
+  }
+
+  async function commit() {
+    if (!result?.count) return;
+    setBusy(true);
+    try {
+      for (const [id, rows] of groups) await onImport(id || siteId, rows);
+      const into = split ? groups.map(([id]) => siteName(id)).join(", ") : siteName(siteId);
+      setStatus(`Imported ${result.count} rows into ${into}.`);
+      setTable([]);
+      setFileName(null);
+    } catch (e) {
+      setStatus(`Import failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} title="Import readings (CSV)">
+      <div className="space-y-4 text-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="inline-flex items-center h-8 px-3 rounded-2xl border border-slate-200 bg-white hover:bg-slate-50 cursor-pointer">
+            <Upload className="h-4 w-4 mr-2"/> Choose file
+            <input type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden"
+              onChange={(e) => { const f = e.target.files?.[0]; if (f) loadFile(f); e.target.value = ""; }} />
+          </label>
+          <span className="opacity-70">{fileName ?? "Sonde logs, lab results or a file exported from this dashboard."}</span>
+        </div>
+        {status && <div className="p-2 rounded-xl border bg-slate-50">{status}</div>}
+
+        {header.length > 0 && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Merge into site</Label>
+                {split
+                  ? <div className="h-8 flex items-center opacity-70">Per row, from the Site ID column</div>
+                  : <Select value={siteId} onValueChange={setSiteId} options={sites.map(s => ({ value: s.id, label: s.name }))} className="w-full" />}
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Timezone for times without offset</Label>
+                <Input list="import-zones" className={`h-8 ${zoneOk ? "" : "border-red-400"}`} value={timeZone} onChange={(e) => setTimeZone(e.target.value)} />
+                <datalist id="import-zones">{ZONES.map(z => <option key={z} value={z} />)}</datalist>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Salinity for DO % sat (if no column)</Label>
+                <Input className="h-8" type="number" value={assumedSalinity} onChange={(e) => setAssumedSalinity(Number(e.target.value) || 0)} />
+              </div>
+            </div>
+
+            <div className="overflow-auto border rounded-xl">
+              <table className="text-xs">
+                <thead>
+                  <tr className="bg-slate-50">
+                    {header.map((h, i) => {
+                      const spec = columns[i] ?? { target: "ignore" };
+                      const units = UNITS[spec.target as ParamKey];
+                      return (
+                        <th key={i} className="p-2 text-left align-top font-normal space-y-1 min-w-[9rem]">
+                          <div className="font-medium truncate" title={h}>{h || `column ${i + 1}`}</div>
+                          <Select value={spec.target} onValueChange={(v) => setColumn(i, { target: v as ImportTarget, unit: UNITS[v as ParamKey]?.[0].value })} options={TARGET_OPTIONS} className="w-full" />
+                          {units && <Select value={spec.unit ?? units[0].value} onValueChange={(u) => setColumn(i, { ...spec, unit: u })} options={units} className="w-full" />}
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {body.slice(0, 8).map((r, i) => (
+                    <tr key={i} className="border-t">{header.map((_, c) => <td key={c} className="px-2 py-1 tabular-nums whitespace-nowrap">{r[c]}</td>)}</tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {body.length > 8 && <div className="text-xs opacity-70">Showing 8 of {body.length} data rows.</div>}
+
+            {!hasTime && <div className="text-red-700">Map a Timestamp (or Date + Time) column to continue.</div>}
+            {!zoneOk && <div className="text-red-700">Unknown timezone "{timeZone}".</div>}
+            {result && hasTime && (
+              <div className="space-y-2">
+                <div>
+                  <strong>{result.count}</strong> valid rows{split && groups.length > 0 && <> for <strong>{groups.length}</strong> {groups.length === 1 ? "site" : "sites"}</>}
+                  {result.skipped > 0 && <>, <strong>{result.skipped}</strong> skipped</>}
+                  {result.issues.length > 0 && <>, <strong>{result.issues.length}</strong> issues</>}.
+                  {span.length > 0 && <span className="opacity-70"> {new Date(Math.min(...span)).toLocaleString()} – {new Date(Math.max(...span)).toLocaleString()}</span>}
+                </div>
+                {result.issues.length > 0 && (
+                  <ul className="max-h-40 overflow-auto border rounded-xl p-2 text-xs space-y-0.5 bg-yellow-50">
+                    {result.issues.slice(0, 200).map((iss, i) => (
+                      <li key={i}>Row {iss.row}{iss.column ? ` · ${iss.column}` : ""}: {iss.message}</li>
+                    ))}
+                    {result.issues.length > 200 && <li>…and {result.issues.length - 200} more</li>}
+                  </ul>
+                )}
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button disabled={busy || !hasTime || !result?.count} onClick={commit}>
+                Import {result?.count ?? 0} rows
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </Dialog>
+  );
+}
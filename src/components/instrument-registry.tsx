@@ -0,0 +1,201 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Dialog } from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import type { ParamKey, Site } from "@/lib/types";
+import { MEASURED_KEYS, PARAM_META } from "@/lib/types";
+import { fmtdatetime, fmtduration, numberOr } from "@/lib/format";
+import { instrumentHealth, type HealthRules, type Instrument, type InstrumentHealth } from "@/lib/instruments";
+import type { LiveStore } from "@/lib/live-store";
+import { useSitesSeries } from "@/hooks/use-live-series";
+
+type Props = {
+  sites: Site[];
+  activeSite: string;
+  instruments: Instrument[];
+  onChange: (next: Instrument[]) => void;
+  rules: HealthRules;
+  onRulesChange: (next: HealthRules) => void;
+  live: LiveStore;
+  now: number;
+};
+
+const DAY = 86_400_000;
+
+/** `YYYY-MM-DD` in local time for a date input. */
+const dateInput = (ts: number | undefined) => ts === undefined ? "" : new Date(ts - new Date(ts).getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
+
+function parseDate(raw: string): number | undefined {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(raw);
+  return m ? new Date(+m[1], +m[2] - 1, +m[3]).getTime() : undefined;
+}
+
+const REPORT_TONE = { ok: "text-emerald-700", stale: "text-yellow-700", offline: "text-red-700", not_deployed: "opacity-60" };
+const REPORT_LABEL = { ok: "Reporting", stale: "Stale", offline: "Offline", not_deployed: "Not deployed" };
+
+function HealthCell({ health, now }: { health: InstrumentHealth; now: number }) {
+  return (
+    <span className={REPORT_TONE[health.report]}>
+      {REPORT_LABEL[health.report]}
+      {health.report !== "not_deployed" && (
+        <span className="opacity-70"> · {health.lastSeen ? `${fmtduration(now - health.lastSeen)} ago` : "no data"}</span>
+      )}
+    </span>
+  );
+}
+
+function InstrumentForm({ initial, sites, onSave, onCancel }: { initial: Instrument; sites: Site[]; onSave: (i: Instrument) => void; onCancel: () => void }) {
+  const [draft, setDraft] = useState(initial);
+  const set = (patch: Partial<Instrument>) => setDraft(d => ({ ...d, ...patch }));
+  const toggle = (k: ParamKey) => set({ params: draft.params.includes(k) ? draft.params.filter(x => x !== k) : MEASURED_KEYS.filter(x => x === k || draft.params.includes(x)) });
+  const error = !draft.name.trim() ? "Name is required."
+    : !draft.params.length ? "Select at least one parameter."
+    : draft.retrievedAt !== undefined && draft.retrievedAt < draft.deployedAt ? "Retrieval cannot precede deployment."
+    : draft.intervalSec <= 0 ? "Reporting interval must be positive." : null;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="inst-name">Name / serial</Label>
+          <Input id="inst-name" value={draft.name} onChange={e => set({ name: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Site</Label>
+          <Select value={draft.siteId} onValueChange={v => set({ siteId: v })} options={sites.map(s => ({ value: s.id, label: s.name }))} className="w-full h-10" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="inst-deployed">Deployed</Label>
+          <Input id="inst-deployed" type="date" value={dateInput(draft.deployedAt)} onChange={e => set({ deployedAt: parseDate(e.target.value) ?? draft.deployedAt })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="inst-retrieved">Retrieved (blank while deployed)</Label>
+          <Input id="inst-retrieved" type="date" value={dateInput(draft.retrievedAt)} onChange={e => set({ retrievedAt: parseDate(e.target.value) })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="inst-cal">Calibration due</Label>
+          <Input id="inst-cal" type="date" value={dateInput(draft.calibrationDue)} onChange={e => set({ calibrationDue: parseDate(e.target.value) ?? draft.calibrationDue })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="inst-interval">Expected reporting interval (s)</Label>
+          <Input id="inst-interval" type="number" min={1} value={draft.intervalSec} onChange={e => set({ intervalSec: numberOr(e.target.value, draft.intervalSec) })} />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Measures</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {MEASURED_KEYS.map(k => (
+            <button key={k} onClick={() => toggle(k)}
+              className={`text-xs px-2 py-1 rounded-full border ${draft.params.includes(k) ? "bg-sky-50 border-sky-300" : "bg-white border-slate-200 opacity-60"}`}>
+              {PARAM_META[k].label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs" htmlFor="inst-notes">Notes</Label>
+        <Input id="inst-notes" value={draft.notes ?? ""} onChange={e => set({ notes: e.target.value || undefined })} />
+      </div>
+      {error && <div className="text-red-700">{error}</div>}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button disabled={!!error} onClick={() => onSave({ ...draft, name: draft.name.trim() })}>Save</Button>
+      </div>
+    </div>
+  );
+}
+
+/** Instrument registry with live reporting and calibration status. */
+export function InstrumentRegistry({ sites, activeSite, instruments, onChange, rules, onRulesChange, live, now }: Props) {
+  const [scope, setScope] = useState<"site" | "all">("site");
+  const [editing, setEditing] = useState<Instrument | null>(null);
+  const siteName = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+  const shown = instruments.filter(i => scope === "all" || i.siteId === activeSite);
+  const series = useSitesSeries(live, shown.map(i => i.siteId));
+
+  function save(inst: Instrument) {
+    onChange(instruments.some(i => i.id === inst.id) ? instruments.map(i => i.id === inst.id ? inst : i) : [...instruments, inst]);
+    setEditing(null);
+  }
+
+  const blank = (): Instrument => ({
+    id: `inst-${Date.now().toString(36)}`, siteId: activeSite, name: "", params: [],
+    deployedAt: now, calibrationDue: now + 90 * DAY, intervalSec: 300,
+  });
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={scope} onValueChange={v => setScope(v as "site" | "all")}
+            options={[{ value: "site", label: `At ${siteName(activeSite)}` }, { value: "all", label: "All sites" }]} />
+          <Button size="sm" className="ml-auto" onClick={() => setEditing(blank())}><Plus className="h-4 w-4 mr-1" />Add instrument</Button>
+        </div>
+        {shown.length === 0 ? <div className="opacity-70">No instruments registered.</div> : (
+          <div className="overflow-auto">
+            <table className="w-full">
+              <thead className="text-xs text-left opacity-70">
+                <tr>
+                  <th className="py-1 pr-2">Instrument</th>
+                  {scope === "all" && <th className="pr-2">Site</th>}
+                  <th className="pr-2">Measures</th>
+                  <th className="pr-2">Deployed</th>
+                  <th className="pr-2">Calibration due</th>
+                  <th className="pr-2">Interval</th>
+                  <th className="pr-2">Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(inst => {
+                  const h = instrumentHealth(inst, series[inst.siteId] ?? [], now, rules);
+                  return (
+                    <tr key={inst.id} className="border-t align-top">
+                      <td className="py-1 pr-2">{inst.name}{inst.notes && <div className="text-xs opacity-60">{inst.notes}</div>}</td>
+                      {scope === "all" && <td className="pr-2">{siteName(inst.siteId)}</td>}
+                      <td className="pr-2 text-xs">{inst.params.map(k => PARAM_META[k].label).join(", ")}</td>
+                      <td className="pr-2 text-xs whitespace-nowrap">
+                        {fmtdatetime(inst.deployedAt)}
+                        {inst.retrievedAt !== undefined && <div className="opacity-70">retrieved {fmtdatetime(inst.retrievedAt)}</div>}
+                      </td>
+                      <td className={`pr-2 text-xs whitespace-nowrap ${h.calibration === "overdue" ? "text-red-700 font-medium" : h.calibration === "due_soon" ? "text-yellow-700" : ""}`}>
+                        {new Date(inst.calibrationDue).toLocaleDateString()}
+                        {h.calibration === "overdue" && " · overdue"}
+                        {h.calibration === "due_soon" && " · due soon"}
+                      </td>
+                      <td className="pr-2 text-xs">{inst.intervalSec} s</td>
+                      <td className="pr-2 text-xs whitespace-nowrap"><HealthCell health={h} now={now} /></td>
+                      <td className="text-right whitespace-nowrap space-x-1">
+                        <Button size="sm" variant="outline" onClick={() => setEditing(inst)}>Edit</Button>
+                        {inst.retrievedAt === undefined && (
+                          <Button size="sm" variant="outline" onClick={() => save({ ...inst, retrievedAt: Date.now() })}>Retrieve</Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => onChange(instruments.filter(i => i.id !== inst.id))}>Remove</Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2 pt-1">
+          <span className="opacity-80">Stale after</span>
+          <Input className="h-8 w-16" type="number" min={1} value={rules.staleAfter} onChange={e => onRulesChange({ ...rules, staleAfter: Math.max(1, numberOr(e.target.value, rules.staleAfter)) })} />
+          <span className="opacity-80">missed intervals, offline after</span>
+          <Input className="h-8 w-16" type="number" min={1} value={rules.offlineAfter} onChange={e => onRulesChange({ ...rules, offlineAfter: Math.max(rules.staleAfter, numberOr(e.target.value, rules.offlineAfter)) })} />
+          <span className="opacity-80">; flag calibration</span>
+          <Input className="h-8 w-16" type="number" min={0} value={rules.calibrationSoonDays} onChange={e => onRulesChange({ ...rules, calibrationSoonDays: Math.max(0, numberOr(e.target.value, rules.calibrationSoonDays)) })} />
+          <span className="opacity-80">days before due.</span>
+        </div>
+        <Dialog open={!!editing} onOpenChange={v => !v && setEditing(null)} title={editing && instruments.some(i => i.id === editing.id) ? "Edit instrument" : "Add instrument"} className="max-w-xl">
+          {editing && <InstrumentForm key={editing.id} initial={editing} sites={sites} onSave={save} onCancel={() => setEditing(null)} />}
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import type { ParamKey, Site } from "@/lib/types";
+import { PARAM_META } from "@/lib/types";
+import { classifyAlert, type ThresholdSet } from "@/lib/thresholds";
+import { fmtdatetime, fmtnum } from "@/lib/format";
+import { toLocalInput } from "@/lib/time-range";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { MARKER_COLORS } from "@/components/sample-markers";
+import {
+  advanceCustody, ASSAYS, createSample, CUSTODY_STEPS, custodyOf, SPECIES, TISSUES,
+  type CustodyState, type LabSample,
+} from "@/lib/samples";
+
+type Props = {
+  sites: Site[];
+  activeSite: string;
+  samples: LabSample[];
+  onChange: (next: LabSample[]) => void;
+  limitsFor: (siteId: string) => ThresholdSet;
+};
+
+const STATE_TONE: Record<CustodyState, string> = {
+  collected: "bg-slate-100 border-slate-300",
+  received: "bg-sky-50 border-sky-300",
+  analyzed: "bg-emerald-50 border-emerald-300",
+};
+
+const assayLabel = (k: ParamKey) => ASSAYS.find(a => a.key === k)?.label ?? k;
+
+/** Advance control for one sample: a button for receipt, a result field for analysis. */
+function CustodyAction({ sample, author, onAdvance }: { sample: LabSample; author: string; onAdvance: (result?: number) => void }) {
+  const [result, setResult] = useState("");
+  const state = custodyOf(sample);
+  if (state === "analyzed") return null;
+  if (state === "collected") return <Button size="sm" variant="outline" disabled={!author.trim()} onClick={() => onAdvance()}>Mark received</Button>;
+  const n = Number(result);
+  const valid = result !== "" && Number.isFinite(n) && n >= 0;
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Input className="h-8 w-20" type="number" min={0} step="any" placeholder={PARAM_META[sample.assay].unit || "result"} value={result} onChange={e => setResult(e.target.value)} />
+      <Button size="sm" variant="outline" disabled={!valid || !author.trim()} onClick={() => onAdvance(n)}>Record result</Button>
+    </span>
+  );
+}
+
+/** Lab sample entry and chain of custody: collected → received → analyzed. */
+export function LabSamples({ sites, activeSite, samples, onChange, limitsFor }: Props) {
+  const [author, setAuthor] = usePersistentState("m2m.author.v1", "");
+  const [scope, setScope] = useState<"site" | "all">("site");
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState(() => ({
+    id: "", siteId: activeSite, collectedAt: toLocalInput(Date.now()),
+    species: SPECIES[0], tissue: TISSUES[0], assay: ASSAYS[0].key, notes: "",
+  }));
+  const siteName = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+  const shown = samples.filter(s => scope === "all" || s.siteId === activeSite).sort((a, b) => b.collectedAt - a.collectedAt);
+
+  function add() {
+    try {
+      const sample = createSample(samples, { ...draft, collectedAt: new Date(draft.collectedAt).getTime(), notes: draft.notes.trim() || undefined, by: author }, Date.now());
+      onChange([...samples, sample]);
+      setDraft(d => ({ ...d, id: "", notes: "" }));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function advance(sample: LabSample, result?: number) {
+    try {
+      const next = advanceCustody(sample, author, Date.now(), result);
+      onChange(samples.map(s => s.id === sample.id ? next : s));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4 text-sm">
+        <div className="opacity-80">
+          Bioindicator assays run on collected shellfish. Analyzed results appear as ◆ markers on the BioIndicators
+          charts, colored by the site's thresholds.
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="sample-id">Sample id</Label>
+            <Input id="sample-id" value={draft.id} onChange={e => setDraft({ ...draft, id: e.target.value })} placeholder="e.g. SK-2024-0113" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Site</Label>
+            <Select value={draft.siteId} onValueChange={v => setDraft({ ...draft, siteId: v })} options={sites.map(s => ({ value: s.id, label: s.name }))} className="w-full h-10" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="sample-time">Collected</Label>
+            <Input id="sample-time" type="datetime-local" value={draft.collectedAt} onChange={e => setDraft({ ...draft, collectedAt: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Assay</Label>
+            <Select value={draft.assay} onValueChange={v => setDraft({ ...draft, assay: v as ParamKey })} options={ASSAYS.map(a => ({ value: a.key, label: a.label }))} className="w-full h-10" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Species</Label>
+            <Select value={draft.species} onValueChange={v => setDraft({ ...draft, species: v })} options={SPECIES.map(s => ({ value: s, label: s }))} className="w-full h-10" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Tissue</Label>
+            <Select value={draft.tissue} onValueChange={v => setDraft({ ...draft, tissue: v })} options={TISSUES.map(t => ({ value: t, label: t }))} className="w-full h-10" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="sample-notes">Notes</Label>
+            <Input id="sample-notes" value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="sample-author">Your name (custody)</Label>
+            <Input id="sample-author" value={author} onChange={e => setAuthor(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button disabled={!draft.id.trim() || !author.trim()} onClick={add}>Log collected sample</Button>
+          {error && <span className="text-red-700">{error}</span>}
+          <Select value={scope} onValueChange={v => setScope(v as "site" | "all")} className="ml-auto"
+            options={[{ value: "site", label: `At ${siteName(activeSite)}` }, { value: "all", label: "All sites" }]} />
+        </div>
+
+        {shown.length === 0 ? <div className="opacity-70">No samples logged.</div> : (
+          <div className="overflow-auto">
+            <table className="w-full">
+              <thead className="text-xs text-left opacity-70">
+                <tr>
+                  <th className="py-1 pr-2">Sample</th>
+                  {scope === "all" && <th className="pr-2">Site</th>}
+                  <th className="pr-2">Collected</th>
+                  <th className="pr-2">Species / tissue</th>
+                  <th className="pr-2">Assay</th>
+                  <th className="pr-2">Custody</th>
+                  <th className="pr-2 text-right">Result</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(s => {
+                  const state = custodyOf(s);
+                  const level = s.result !== undefined ? classifyAlert(s.assay, s.result, limitsFor(s.siteId)) : null;
+                  return (
+                    <tr key={s.id} className="border-t align-top">
+                      <td className="py-1 pr-2 font-medium">{s.id}{s.notes && <div className="text-xs font-normal opacity-60">{s.notes}</div>}</td>
+                      {scope === "all" && <td className="pr-2">{siteName(s.siteId)}</td>}
+                      <td className="pr-2 whitespace-nowrap">{fmtdatetime(s.collectedAt)}</td>
+                      <td className="pr-2">{s.species}<div className="text-xs opacity-70">{s.tissue}</div></td>
+                      <td className="pr-2">{assayLabel(s.assay)}</td>
+                      <td className="pr-2">
+                        <span className={`text-xs px-2 py-0.5 rounded-full border ${STATE_TONE[state]}`}>{state}</span>
+                        <div className="text-[11px] opacity-70 mt-0.5"
+                          title={s.custody.map(c => `${c.state} ${new Date(c.at).toLocaleString()} by ${c.by}`).join("\n")}>
+                          {CUSTODY_STEPS.indexOf(state) + 1}/{CUSTODY_STEPS.length} · {s.custody[s.custody.length - 1].by}
+                        </div>
+                      </td>
+                      <td className="pr-2 text-right tabular-nums whitespace-nowrap">
+                        {s.result !== undefined && level && (
+                          <>
+                            <span style={{ color: MARKER_COLORS[level] }}>◆ </span>
+                            {fmtnum(s.result)} {PARAM_META[s.assay].unit}
+                            <div className="text-xs opacity-70">{level}</div>
+                          </>
+                        )}
+                      </td>
+                      <td className="text-right"><CustodyAction key={state} sample={s} author={author} onAdvance={r => advance(s, r)} /></td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import type { Site } from "@/lib/types";
+import { CHANNEL_TYPES, DEFAULT_CHANNELS, type Delivery, type NotificationChannel } from "@/lib/notify";
+import { notificationsSupported, requestNotificationPermission } from "@/lib/notify-delivery";
+import { fmtdatetime, numberOr } from "@/lib/format";
+
+const STATUS_TONE: Record<Delivery["status"], string> = {
+  sent: "text-emerald-700",
+  failed: "text-red-700",
+  suppressed: "text-slate-500",
+};
+
+type Props = {
+  channels: NotificationChannel[];
+  onChange: (next: NotificationChannel[]) => void;
+  deliveries: Delivery[];
+  sites: Site[];
+  activeSite: string;
+  onTest: (channel: NotificationChannel, siteId: string) => void;
+};
+
+function ChannelEditor({ channel, sites, onChange, onRemove, onTest }: {
+  channel: NotificationChannel;
+  sites: Site[];
+  onChange: (next: NotificationChannel) => void;
+  onRemove: () => void;
+  onTest: () => void;
+}) {
+  const set = (patch: Partial<NotificationChannel>) => onChange({ ...channel, ...patch });
+  const rate = (patch: Partial<NotificationChannel["rateLimit"]>) => set({ rateLimit: { ...channel.rateLimit, ...patch } });
+  const toggleSite = (id: string) => set({
+    sites: channel.sites.includes(id) ? channel.sites.filter(s => s !== id) : [...channel.sites, id],
+  });
+  const q = channel.quietHours;
+
+  return (
+    <div className={`border rounded-xl p-3 space-y-2 ${channel.enabled ? "" : "opacity-70"}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Switch id={`ch-${channel.id}`} checked={channel.enabled} onCheckedChange={v => set({ enabled: v })} />
+        <Input className="h-8 w-40" value={channel.name} onChange={e => set({ name: e.target.value })} />
+        <span className="text-xs opacity-60">{CHANNEL_TYPES.find(t => t.value === channel.type)?.label}</span>
+        <div className="ml-auto flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={onTest}>Send test</Button>
+          <Button size="sm" variant="outline" onClick={onRemove}>Remove</Button>
+        </div>
+      </div>
+      {channel.type === "webhook" && (
+        <div className="flex items-center gap-2">
+          <Label className="w-20">URL</Label>
+          <Input className="h-8 flex-1" value={channel.url ?? ""} placeholder="https://…" onChange={e => set({ url: e.target.value })} />
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Label className="w-20">Sites</Label>
+        {sites.map(s => (
+          <button key={s.id} type="button" onClick={() => toggleSite(s.id)}
+            className={`text-xs px-2 py-1 rounded-full border ${channel.sites.includes(s.id) ? "bg-sky-50 border-sky-300" : "bg-white border-slate-200 opacity-60"}`}>
+            {s.name}
+          </button>
+        ))}
+        {!channel.sites.length && <span className="text-xs opacity-60">(none selected: all sites)</span>}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Label className="w-20">Severity</Label>
+        <Select value={channel.minLevel} onValueChange={v => set({ minLevel: v as NotificationChannel["minLevel"] })}
+          options={[{ value: "warn", label: "Warn and crit" }, { value: "crit", label: "Crit only" }]} />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Label className="w-20">Quiet hours</Label>
+        <Switch id={`quiet-${channel.id}`} checked={!!q}
+          onCheckedChange={v => set({ quietHours: v ? { start: "22:00", end: "06:00", allowCrit: true } : null })} />
+        {q && (
+          <>
+            <Input className="h-8 w-28" type="time" value={q.start} onChange={e => set({ quietHours: { ...q, start: e.target.value } })} />
+            <span>–</span>
+            <Input className="h-8 w-28" type="time" value={q.end} onChange={e => set({ quietHours: { ...q, end: e.target.value } })} />
+            <Switch id={`quiet-crit-${channel.id}`} checked={q.allowCrit} onCheckedChange={v => set({ quietHours: { ...q, allowCrit: v } })} />
+            <Label htmlFor={`quiet-crit-${channel.id}`}>Crit still notifies</Label>
+          </>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Label className="w-20">Rate limit</Label>
+        <span>at most</span>
+        <Input className="h-8 w-16" type="number" min={1} value={channel.rateLimit.max}
+          onChange={e => rate({ max: Math.max(1, numberOr(e.target.value, channel.rateLimit.max)) })} />
+        <span>per</span>
+        <Input className="h-8 w-16" type="number" min={1} value={channel.rateLimit.windowMin}
+          onChange={e => rate({ windowMin: Math.max(1, numberOr(e.target.value, channel.rateLimit.windowMin)) })} />
+        <span>min; repeat the same alert after</span>
+        <Input className="h-8 w-16" type="number" min={0} value={channel.rateLimit.cooldownMin}
+          onChange={e => rate({ cooldownMin: Math.max(0, numberOr(e.target.value, channel.rateLimit.cooldownMin)) })} />
+        <span>min</span>
+      </div>
+    </div>
+  );
+}
+
+export function NotificationSettings({ channels, onChange, deliveries, sites, activeSite, onTest }: Props) {
+  const [permission, setPermission] = useState<string>(() => notificationsSupported() ? Notification.permission : "unsupported");
+  const [addType, setAddType] = useState<NotificationChannel["type"]>("webhook");
+  const channelName = (id: string) => channels.find(c => c.id === id)?.name ?? id;
+
+  const add = () => {
+    const base = DEFAULT_CHANNELS.find(c => c.type === addType)!;
+    onChange([...channels, { ...base, id: `${addType}-${Date.now().toString(36)}`, name: `${base.name} ${channels.length + 1}`, enabled: true }]);
+  };
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="text-sm opacity-80">
+            New and escalated alerts are sent to every enabled channel whose sites and severity match, outside its quiet
+            hours and within its rate limit.
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-xs opacity-70">Desktop permission: {permission}</span>
+            {permission === "default" && (
+              <Button size="sm" variant="outline" onClick={() => requestNotificationPermission().then(setPermission)}>Allow notifications</Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => onChange(DEFAULT_CHANNELS)}>Reset defaults</Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {channels.map(ch => (
+            <ChannelEditor
+              key={ch.id}
+              channel={ch}
+              sites={sites}
+              onChange={next => onChange(channels.map(c => c.id === ch.id ? next : c))}
+              onRemove={() => onChange(channels.filter(c => c.id !== ch.id))}
+              onTest={() => onTest(ch, activeSite)}
+            />
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={addType} onValueChange={v => setAddType(v as NotificationChannel["type"])} options={CHANNEL_TYPES} />
+          <Button size="sm" variant="outline" onClick={add}>Add channel</Button>
+        </div>
+        <div>
+          <div className="text-sm font-medium mb-1">Deliveries this session</div>
+          {!deliveries.length ? (
+            <div className="text-sm opacity-60">Nothing sent yet.</div>
+          ) : (
+            <div className="overflow-auto max-h-64">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-left opacity-70">
+                  <tr><th className="py-1 pr-2">Time</th><th className="pr-2">Channel</th><th className="pr-2">Alert</th><th className="pr-2">Status</th><th>Detail</th></tr>
+                </thead>
+                <tbody>
+                  {deliveries.slice().reverse().map((d, i) => (
+                    <tr key={`${d.ts}-${d.channelId}-${i}`} className="border-t">
+                      <td className="py-1 pr-2 whitespace-nowrap">{fmtdatetime(d.ts)}</td>
+                      <td className="pr-2">{channelName(d.channelId)}</td>
+                      <td className="pr-2 font-mono text-xs">{d.subject}</td>
+                      <td className={`pr-2 ${STATUS_TONE[d.status]}`}>{d.status}</td>
+                      <td className="opacity-70">{d.detail ?? ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,41 @@
+import React from "react";
+import type { AlertLevel } from "@/lib/types";
+import type { SiteAlertSummary } from "@/lib/alert-engine";
+
+const TONE: Record<AlertLevel, string> = {
+  ok: "bg-emerald-500/10 text-emerald-700 border-emerald-500/30",
+  warn: "bg-yellow-500/10 text-yellow-700 border-yellow-500/30",
+  crit: "bg-red-500/10 text-red-700 border-red-500/30",
+};
+
+const LABEL: Record<AlertLevel, string> = { ok: "OK", warn: "Warning", crit: "Critical" };
+
+/** Site counts per worst alert level across the whole portfolio. */
+export function PortfolioSummary({ summary }: { summary: Record<string, SiteAlertSummary> }) {
+  const counts: Record<AlertLevel, number> = { ok: 0, warn: 0, crit: 0 };
+  let open = 0;
+  for (const s of Object.values(summary)) {
+    counts[s.level]++;
+    open += s.count;
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium mr-1">Portfolio</span>
+      {(["crit", "warn", "ok"] as AlertLevel[]).map(level => (
+        <span key={level} className={`px-3 py-1 rounded-full border tabular-nums ${TONE[level]}`}>
+          {LABEL[level]}: <strong>{counts[level]}</strong> {counts[level] === 1 ? "site" : "sites"}
+        </span>
+      ))}
+      <span className="ml-auto text-xs opacity-70">{open} open {open === 1 ? "alert" : "alerts"} across {Object.keys(summary).length} sites</span>
+    </div>
+  );
+}
+
+export function LevelBadge({ summary }: { summary: SiteAlertSummary }) {
+  if (summary.level === "ok") return <span className={`text-xs px-2 py-0.5 rounded-full border ${TONE.ok}`}>OK</span>;
+  return (
+    <span className={`text-xs px-2 py-0.5 rounded-full border tabular-nums ${TONE[summary.level]}`}>
+      {summary.level} · {summary.count}
+    </span>
+  );
+}
@@ -0,0 +1,48 @@
+import React from "react";
+import type { ParamKey } from "@/lib/types";
+import type { QcFlag, QcFlags } from "@/lib/qc";
+
+export const QC_COLORS: Record<QcFlag, string> = {
+  pass: "#10b981",
+  not_evaluated: "#94a3b8",
+  suspect: "#f59e0b",
+  fail: "#dc2626",
+};
+
+type DotProps = { cx?: number; cy?: number; index?: number; payload?: { ts: number } };
+
+/**
+ * Recharts `dot` renderer that marks suspect readings with an amber ring and
+ * failed ones with a red cross; passing readings draw nothing.
+ */
+export function qcDot(flags: Map<number, QcFlags>, key: ParamKey, size = 4) {
+  return ({ cx, cy, index, payload }: DotProps) => {
+    const flag = payload && flags.get(payload.ts)?.[key];
+    if (cx == null || cy == null || !Number.isFinite(cy) || (flag !== "suspect" && flag !== "fail")) {
+      return <g key={index} />;
+    }
+    if (flag === "suspect") {
+      return <circle key={index} cx={cx} cy={cy} r={size} fill="white" stroke={QC_COLORS.suspect} strokeWidth={2} />;
+    }
+    return (
+      <g key={index} stroke={QC_COLORS.fail} strokeWidth={2}>
+        <line x1={cx - size} y1={cy - size} x2={cx + size} y2={cy + size} />
+        <line x1={cx - size} y1={cy + size} x2={cx + size} y2={cy - size} />
+      </g>
+    );
+  };
+}
+
+/** Small legend explaining the QC markers. */
+export function QcLegend() {
+  return (
+    <span className="inline-flex items-center gap-3 text-xs opacity-70">
+      <span className="inline-flex items-center gap-1">
+        <svg width="10" height="10"><circle cx="5" cy="5" r="3.5" fill="white" stroke={QC_COLORS.suspect} strokeWidth="1.5" /></svg>QC suspect
+      </span>
+      <span className="inline-flex items-center gap-1">
+        <svg width="10" height="10" stroke={QC_COLORS.fail} strokeWidth="1.5"><line x1="1" y1="1" x2="9" y2="9" /><line x1="1" y1="9" x2="9" y2="1" /></svg>QC fail
+      </span>
+    </span>
+  );
+}
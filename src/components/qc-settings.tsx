@@ -0,0 +1,103 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import type { MeasuredKey, ParamKey } from "@/lib/types";
+import { MEASURED_KEYS, PARAM_META } from "@/lib/types";
+import { DEFAULT_QC, QC_TESTS, type QcConfig, type QcFlag, type QcParamConfig } from "@/lib/qc";
+import { QC_COLORS } from "@/components/qc-dot";
+import { numberOr } from "@/lib/format";
+
+type Props = {
+  config: QcConfig;
+  onChange: (next: QcConfig) => void;
+  /** Flag counts for the active site over the selected range. */
+  summary: Record<ParamKey, Record<QcFlag, number>>;
+  siteName: string;
+};
+
+function Num({ value, onChange, min }: { value: number; onChange: (v: number) => void; min?: number }) {
+  return <Input className="h-8 w-20" type="number" step="any" min={min} value={value}
+    onChange={e => onChange(min !== undefined ? Math.max(min, numberOr(e.target.value, value)) : numberOr(e.target.value, value))} />;
+}
+
+export function QcSettings({ config, onChange, summary, siteName }: Props) {
+  const update = <G extends keyof QcParamConfig>(key: MeasuredKey, group: G, patch: Partial<QcParamConfig[G]>) => onChange({
+    ...config,
+    params: { ...config.params, [key]: { ...config.params[key], [group]: { ...config.params[key][group], ...patch } } },
+  });
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="text-sm opacity-80">
+            Every reading is run through the enabled tests and flagged with the worst result. Failed values are drawn
+            with a red cross and ignored by alerting; suspect values are circled but still alert.
+          </div>
+          <Button size="sm" variant="outline" className="ml-auto" onClick={() => onChange(DEFAULT_QC)}>Reset defaults</Button>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {QC_TESTS.map(t => (
+            <div key={t.value} className="flex items-center gap-2">
+              <Switch id={`qc-${t.value}`} checked={config.enabled[t.value]}
+                onCheckedChange={v => onChange({ ...config, enabled: { ...config.enabled, [t.value]: v } })} />
+              <Label htmlFor={`qc-${t.value}`}>{t.label}</Label>
+            </div>
+          ))}
+        </div>
+        <div className="overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-left opacity-70">
+              <tr>
+                <th className="py-1 pr-2">Parameter</th>
+                <th className="pr-2" colSpan={2}>Fail outside</th>
+                <th className="pr-2" colSpan={2}>Suspect outside</th>
+                <th className="pr-2" colSpan={2}>Spike suspect / fail</th>
+                <th className="pr-2">Flat tolerance</th>
+                <th className="pr-2" colSpan={2}>Flat suspect / fail (min)</th>
+                <th className="pr-2">Rate (σ)</th>
+                <th className="text-right">{siteName}: suspect / fail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MEASURED_KEYS.map(k => {
+                const c = config.params[k];
+                const n = summary[k];
+                return (
+                  <tr key={k} className="border-t">
+                    <td className="py-1 pr-2 whitespace-nowrap">{PARAM_META[k].label} <span className="opacity-60">{PARAM_META[k].unit}</span></td>
+                    <td className="pr-1"><Num value={c.grossRange.failMin} onChange={v => update(k, "grossRange", { failMin: v })} /></td>
+                    <td className="pr-2"><Num value={c.grossRange.failMax} onChange={v => update(k, "grossRange", { failMax: v })} /></td>
+                    <td className="pr-1"><Num value={c.grossRange.suspectMin} onChange={v => update(k, "grossRange", { suspectMin: v })} /></td>
+                    <td className="pr-2"><Num value={c.grossRange.suspectMax} onChange={v => update(k, "grossRange", { suspectMax: v })} /></td>
+                    <td className="pr-1"><Num min={0} value={c.spike.suspect} onChange={v => update(k, "spike", { suspect: v })} /></td>
+                    <td className="pr-2"><Num min={0} value={c.spike.fail} onChange={v => update(k, "spike", { fail: v })} /></td>
+                    <td className="pr-2"><Num min={0} value={c.flatline.tolerance} onChange={v => update(k, "flatline", { tolerance: v })} /></td>
+                    <td className="pr-1"><Num min={1} value={c.flatline.suspectMin} onChange={v => update(k, "flatline", { suspectMin: v })} /></td>
+                    <td className="pr-2"><Num min={1} value={c.flatline.failMin} onChange={v => update(k, "flatline", { failMin: v })} /></td>
+                    <td className="pr-2"><Num min={1} value={c.rateOfChange.nDev} onChange={v => update(k, "rateOfChange", { nDev: v })} /></td>
+                    <td className="text-right tabular-nums whitespace-nowrap">
+                      <span style={{ color: n.suspect ? QC_COLORS.suspect : undefined }}>{n.suspect}</span>
+                      {" / "}
+                      <span style={{ color: n.fail ? QC_COLORS.fail : undefined }}>{n.fail}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="opacity-80">DO saturation cross-check (uses temperature and salinity): suspect at</span>
+          <Num min={100} value={config.doSaturation.suspect} onChange={v => onChange({ ...config, doSaturation: { ...config.doSaturation, suspect: v } })} />
+          <span className="opacity-80">%, fail at</span>
+          <Num min={100} value={config.doSaturation.fail} onChange={v => onChange({ ...config, doSaturation: { ...config.doSaturation, fail: v } })} />
+          <span className="opacity-80">%</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
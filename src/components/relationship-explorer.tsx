@@ -0,0 +1,198 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ScatterChart, Scatter, Cell, LineChart, Line, XAxis, YAxis, ZAxis, Tooltip, ResponsiveContainer, ReferenceLine, type TooltipProps } from "recharts";
+import type { ParamKey, Reading, Site } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META } from "@/lib/types";
+import type { TelemetrySource } from "@/lib/telemetry";
+import type { LiveStore } from "@/lib/live-store";
+import { rangeLabel, type TimeRange } from "@/lib/time-range";
+import { useRangeData } from "@/hooks/use-range-data";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import type { DerivedConfig } from "@/lib/derived";
+import { maskFailed, qcSeries, type QcConfig } from "@/lib/qc";
+import { crossCorrelation, gridPairs, medianStep, MIN_PAIRS, noiseBound } from "@/lib/correlation";
+import { fmtdatetime, fmtduration, fmtnum, numberOr } from "@/lib/format";
+import { TimeRangePicker } from "@/components/time-range-picker";
+import { ChartExportButtons } from "@/components/chart-export";
+
+type Props = {
+  source: TelemetrySource;
+  site: Site;
+  live: LiveStore;
+  historyVersion: number;
+  qcConfig: QcConfig;
+  derivedConfig: DerivedConfig;
+};
+
+type ExplorerSettings = { x: ParamKey; y: ParamKey; maxLagH: number; shift: boolean };
+
+const DEFAULT_SETTINGS: ExplorerSettings = { x: "chl", y: "gene_expr", maxLagH: 12, shift: false };
+
+function reviveSettings(stored: ExplorerSettings): ExplorerSettings {
+  const merged = { ...DEFAULT_SETTINGS, ...stored };
+  const known = (k: ParamKey) => PARAM_KEYS.includes(k);
+  return { ...merged, x: known(merged.x) ? merged.x : DEFAULT_SETTINGS.x, y: known(merged.y) ? merged.y : DEFAULT_SETTINGS.y };
+}
+
+/** Scatter points are thinned to about this many grid cells. */
+const MAX_POINTS = 1500;
+
+const OPTIONS = PARAM_KEYS.map(k => ({ value: k, label: PARAM_META[k].label }));
+
+/** Old readings blue, recent ones orange. */
+const timeColor = (f: number) => `hsl(${Math.round(210 - 180 * f)}, 80%, 45%)`;
+
+const fmtLag = (ms: number) => ms === 0 ? "0" : `${ms < 0 ? "−" : "+"}${fmtduration(Math.abs(ms))}`;
+
+function rLabel(r: number, n: number) {
+  if (!Number.isFinite(r)) return "not enough paired data";
+  const strength = Math.abs(r) < noiseBound(n) ? "indistinguishable from noise" : Math.abs(r) >= 0.7 ? "strong" : Math.abs(r) >= 0.4 ? "moderate" : "weak";
+  return `${strength}${Math.abs(r) >= noiseBound(n) ? (r > 0 ? " positive" : " negative") : ""}`;
+}
+
+/** Two parameters at one site against each other: time-colored scatter and lagged cross-correlation. */
+export function RelationshipExplorer({ source, site, live, historyVersion, qcConfig, derivedConfig }: Props) {
+  const [settings, setSettings] = usePersistentState<ExplorerSettings>("m2m.explorer.v1", DEFAULT_SETTINGS, reviveSettings);
+  const set = (patch: Partial<ExplorerSettings>) => setSettings({ ...settings, ...patch });
+  const { x, y, maxLagH, shift } = settings;
+  const [range, setRange] = useState<TimeRange>({ preset: "7d" });
+  const siteIds = useMemo(() => [site.id], [site.id]);
+  const { rows: byId, loading } = useRangeData(source, siteIds, range, live, { derived: derivedConfig, qc: qcConfig }, historyVersion);
+  const stored = byId[site.id];
+
+  // Same QC-clean values as alerting, so failed readings do not fake a relationship.
+  const rows = useMemo(() => maskFailed(stored ?? [], qcSeries(stored ?? [], qcConfig)), [stored, qcConfig]);
+
+  const ccf = useMemo(() => crossCorrelation(rows, x, y, maxLagH * 3600_000), [rows, x, y, maxLagH]);
+  const peak = ccf.peak;
+  const lagSteps = shift && peak ? Math.round(peak.lagMs / ccf.stepMs) : 0;
+
+  const points = useMemo(() => {
+    if (!rows.length) return [];
+    const span = rows[rows.length - 1].ts - rows[0].ts;
+    // When shifting, stay on the correlation grid so the lag is a whole number of steps.
+    const step = lagSteps ? ccf.stepMs : Math.max(medianStep(rows) || 0, Math.ceil(span / MAX_POINTS), 1000);
+    const grid = gridPairs(rows, x, y, step);
+    const stride = Math.max(1, Math.ceil(grid.ts.length / MAX_POINTS));
+    const first = grid.ts[0], last = grid.ts[grid.ts.length - 1];
+    const out: { ts: number; x: number; y: number; color: string }[] = [];
+    for (let i = 0; i < grid.ts.length; i += stride) {
+      const vx = grid.a[i], vy = grid.b[i + lagSteps];
+      if (!Number.isFinite(vx) || !Number.isFinite(vy)) continue;
+      out.push({ ts: grid.ts[i], x: vx, y: vy, color: timeColor((grid.ts[i] - first) / Math.max(1, last - first)) });
+    }
+    return out;
+  }, [rows, x, y, ccf.stepMs, lagSteps]);
+
+  const zero = ccf.points.find(p => p.lagMs === 0);
+  const bound = noiseBound(zero?.n ?? 0);
+  const ccfData = ccf.points.map(p => ({ lag: p.lagMs / 3600_000, r: Number.isFinite(p.r) && p.n >= MIN_PAIRS ? p.r : NaN }));
+  const mx = PARAM_META[x], my = PARAM_META[y];
+  const scatterRef = useRef<HTMLDivElement>(null);
+  const ccfRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-xs">Leading (x)</Label>
+          <Select value={x} onValueChange={v => set({ x: v as ParamKey })} options={OPTIONS} className="w-44" />
+          <Label className="text-xs">Following (y)</Label>
+          <Select value={y} onValueChange={v => set({ y: v as ParamKey })} options={OPTIONS} className="w-44" />
+          <Label className="text-xs" htmlFor="explorer-lag">Lags up to ±</Label>
+          <Input id="explorer-lag" className="h-8 w-16" type="number" min={1} max={168} value={maxLagH}
+            onChange={e => set({ maxLagH: Math.min(168, Math.max(1, numberOr(e.target.value, maxLagH))) })} />
+          <span className="text-xs">h</span>
+          <div className="ml-auto"><TimeRangePicker value={range} onChange={setRange} /></div>
+        </div>
+
+        <div className="text-sm">
+          {loading ? <span className="opacity-60">Loading {rangeLabel(range)}…</span>
+            : peak ? (
+              <>
+                Peak correlation <strong>r = {peak.r.toFixed(2)}</strong> at lag <strong>{fmtLag(peak.lagMs)}</strong>
+                {" "}({rLabel(peak.r, peak.n)}, {peak.n} pairs
+                {peak.lagMs > 0 ? `; ${mx.label} leads ${my.label}` : peak.lagMs < 0 ? `; ${my.label} leads ${mx.label}` : "; no lead either way"}).
+                {" "}At lag 0: r = {fmtnum(zero?.r ?? NaN)}.
+              </>
+            ) : <span className="opacity-60">Not enough overlapping {mx.label} and {my.label} readings at {site.name} in {rangeLabel(range).toLowerCase()}.</span>}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-medium">{my.label} vs {mx.label}</span>
+              <div className="ml-auto flex items-center gap-2">
+                <Switch id="explorer-shift" checked={shift} onCheckedChange={v => set({ shift: v })} />
+                <Label htmlFor="explorer-shift" className="text-xs">Shift y by peak lag</Label>
+              </div>
+            </div>
+            <div ref={scatterRef} className="h-72 w-full relative">
+              <ChartExportButtons target={scatterRef} name={`${site.name}_${x}_vs_${y}`} title={`${site.name} · ${my.label} vs ${mx.label}${lagSteps ? ` (lag ${fmtLag(lagSteps * ccf.stepMs)})` : ""}`} className="absolute right-2 -top-1 z-10" />
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart margin={{ top: 8, right: 16, left: 8, bottom: 16 }}>
+                  <XAxis dataKey="x" type="number" name={mx.label} domain={["auto", "auto"]} tickFormatter={v => Number(v).toFixed(1)}
+                    label={{ value: `${mx.label} (${mx.unit})`, position: "insideBottom", offset: -8, fontSize: 11 }} />
+                  <YAxis dataKey="y" type="number" name={my.label} domain={["auto", "auto"]} tickFormatter={v => Number(v).toFixed(1)}
+                    label={{ value: `${my.label} (${my.unit})`, angle: -90, position: "insideLeft", fontSize: 11 }} />
+                  <ZAxis range={[14, 14]} />
+                  <Tooltip
+                    cursor={{ strokeDasharray: "3 3" }}
+                    content={({ payload }: TooltipProps<number, string>) => {
+                      const p = payload?.[0]?.payload as { ts: number; x: number; y: number } | undefined;
+                      return p ? (
+                        <div className="rounded-lg border bg-white px-2 py-1 text-xs shadow">
+                          <div>{fmtdatetime(p.ts)}</div>
+                          <div>{mx.label}: {p.x.toFixed(2)} {mx.unit}</div>
+                          <div>{my.label}{lagSteps ? ` (${fmtLag(lagSteps * ccf.stepMs)})` : ""}: {p.y.toFixed(2)} {my.unit}</div>
+                        </div>
+                      ) : null;
+                    }}
+                  />
+                  <Scatter data={points} isAnimationActive={false}>
+                    {points.map((p, i) => <Cell key={i} fill={p.color} fillOpacity={0.7} />)}
+                  </Scatter>
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+            {points.length > 0 && (
+              <div className="flex items-center gap-2 text-xs opacity-70">
+                <span>{fmtdatetime(points[0].ts)}</span>
+                <span className="h-2 flex-1 rounded-full" style={{ background: `linear-gradient(to right, ${timeColor(0)}, ${timeColor(0.5)}, ${timeColor(1)})` }} />
+                <span>{fmtdatetime(points[points.length - 1].ts)}</span>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="font-medium mb-1">Cross-correlation (lag step {fmtduration(ccf.stepMs)})</div>
+            <div ref={ccfRef} className="h-72 w-full relative">
+              <ChartExportButtons target={ccfRef} name={`${site.name}_${x}_${y}_ccf`} title={`${site.name} · ${mx.label} → ${my.label} cross-correlation`} className="absolute right-2 -top-1 z-10" />
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={ccfData} margin={{ top: 8, right: 16, left: 8, bottom: 16 }}>
+                  <XAxis dataKey="lag" type="number" domain={[-maxLagH, maxLagH]} tickFormatter={v => `${v > 0 ? "+" : ""}${Number(v).toFixed(0)} h`}
+                    label={{ value: `lag of ${my.label} after ${mx.label}`, position: "insideBottom", offset: -8, fontSize: 11 }} />
+                  <YAxis domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} />
+                  <Tooltip formatter={(v: any) => [fmtnum(Number(v)), "r"]} labelFormatter={(l: any) => `lag ${fmtLag(Number(l) * 3600_000)}`} />
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  {Number.isFinite(bound) && <ReferenceLine y={bound} stroke="#94a3b8" strokeDasharray="3 3" />}
+                  {Number.isFinite(bound) && <ReferenceLine y={-bound} stroke="#94a3b8" strokeDasharray="3 3" />}
+                  {peak && <ReferenceLine x={peak.lagMs / 3600_000} stroke="#ea580c" strokeDasharray="4 2" />}
+                  <Line type="monotone" dataKey="r" stroke="#0ea5e9" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="text-xs opacity-70">
+              Positive lag: {mx.label} changes first. Dashed lines: ±{fmtnum(bound)}, roughly the 95% range of r for unrelated series.
+              Correlation is not causation; both may follow a shared driver such as temperature or the tide.
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, FileText, Printer } from "lucide-react";
+import type { ParamKey, Site } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META } from "@/lib/types";
+import type { TelemetrySource } from "@/lib/telemetry";
+import type { AlertLogEntry } from "@/lib/alert-engine";
+import { profileFor, resolveThresholds, type ThresholdConfig } from "@/lib/thresholds";
+import { loadHistory } from "@/lib/history";
+import { flushQueue } from "@/lib/history-store";
+import { maskFailed, qcSeries, type QcConfig } from "@/lib/qc";
+import type { DerivedConfig } from "@/lib/derived";
+import { resolveRange, type TimeRange } from "@/lib/time-range";
+import { buildSiteReport, renderReportHtml } from "@/lib/report";
+import { downloadText, fileSlug } from "@/lib/download";
+import { TimeRangePicker } from "@/components/time-range-picker";
+import { Chips } from "@/components/chips";
+
+type Props = {
+  source: TelemetrySource;
+  sites: Site[];
+  activeSite: string;
+  thresholdConfig: ThresholdConfig;
+  qcConfig: QcConfig;
+  derivedConfig: DerivedConfig;
+  log: AlertLogEntry[];
+  /** Continuous-data step per site, as used to break chart lines. */
+  gapFor: (siteId: string) => number;
+};
+
+const DAY = 86_400_000;
+
+/** Local midnight at or before `ts`. */
+function startOfDay(ts: number) {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+/** Previous calendar day, and previous Monday–Sunday week, as custom ranges. */
+function periodShortcuts(now: number): { label: string; range: TimeRange; title: string }[] {
+  const today = startOfDay(now);
+  const monday = today - ((new Date(today).getDay() + 6) % 7) * DAY;
+  return [
+    { label: "Yesterday", range: { preset: "custom", from: today - DAY, to: today - 1 }, title: "Daily site summary" },
+    { label: "Last week (Mon–Sun)", range: { preset: "custom", from: monday - 7 * DAY, to: monday - 1 }, title: "Weekly site summary" },
+  ];
+}
+
+/** Summary report for chosen sites and period: statistics, exceedances and alerts, as printable standalone HTML. */
+export function Reports({ source, sites, activeSite, thresholdConfig, qcConfig, derivedConfig, log, gapFor }: Props) {
+  const [siteIds, setSiteIds] = useState<string[]>([activeSite]);
+  const [params, setParams] = useState<ParamKey[]>(PARAM_KEYS);
+  const [range, setRange] = useState<TimeRange>({ preset: "7d" });
+  const [title, setTitle] = useState("Weekly site summary");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [html, setHtml] = useState<string | null>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  async function generate() {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const { from, to } = resolveRange(range, Date.now());
+      await flushQueue();
+      const chosen = sites.filter(s => siteIds.includes(s.id));
+      const loaded = await Promise.all(chosen.map(s => loadHistory(source, s.id, from, to, { derived: derivedConfig, qc: qcConfig })));
+      const reports = chosen.map((site, i) => {
+        // Statistics use the same QC-clean values as alerting.
+        const rows = loaded[i];
+        return buildSiteReport(site, maskFailed(rows, qcSeries(rows, qcConfig)), PARAM_KEYS.filter(k => params.includes(k)), {
+          profile: profileFor(thresholdConfig, site.id).name,
+          thresholds: resolveThresholds(thresholdConfig, site.id),
+          log, from, to, maxStepMs: gapFor(site.id),
+        });
+      });
+      setHtml(renderReportHtml({ title: title.trim() || "Site summary", from, to, generatedAt: Date.now(), params: PARAM_KEYS.filter(k => params.includes(k)), sites: reports }));
+    } catch (e) {
+      setStatus(`Report failed: ${(e as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function download() {
+    if (!html) return;
+    const { from, to } = resolveRange(range, Date.now());
+    const day = (t: number) => new Date(t).toISOString().slice(0, 10);
+    downloadText(`${fileSlug(title || "report")}_${day(from)}_${day(to)}.html`, html, "text/html;charset=utf-8;");
+  }
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-3 text-sm">
+        <div className="space-y-1">
+          <Label className="text-xs">Sites</Label>
+          <Chips items={sites.map(s => ({ value: s.id, label: s.name }))} selected={siteIds} onChange={setSiteIds} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Parameters</Label>
+          <Chips items={PARAM_KEYS.map(k => ({ value: k, label: PARAM_META[k].label }))} selected={params} onChange={setParams} />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-xs">Period</Label>
+          <TimeRangePicker value={range} onChange={setRange} />
+          {periodShortcuts(Date.now()).map(p => (
+            <Button key={p.label} size="sm" variant="outline" onClick={() => { setRange(p.range); setTitle(p.title); }}>{p.label}</Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-xs" htmlFor="report-title">Title</Label>
+          <Input id="report-title" className="h-8 w-64" value={title} onChange={e => setTitle(e.target.value)} />
+          <Button size="sm" disabled={busy || !siteIds.length || !params.length} onClick={generate}>
+            <FileText className="h-4 w-4 mr-1" />{busy ? "Building…" : "Generate"}
+          </Button>
+          {html && <>
+            <Button size="sm" variant="outline" onClick={() => frameRef.current?.contentWindow?.print()}><Printer className="h-4 w-4 mr-1" />Print</Button>
+            <Button size="sm" variant="outline" onClick={download}><Download className="h-4 w-4 mr-1" />Download HTML</Button>
+          </>}
+        </div>
+        {status && <div className="text-red-700">{status}</div>}
+        {html && <iframe ref={frameRef} title="Report preview" srcDoc={html} className="w-full h-[36rem] rounded-xl border bg-white" />}
+      </CardContent>
+    </Card>
+  );
+}
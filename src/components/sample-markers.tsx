@@ -0,0 +1,34 @@
+import React from "react";
+import { ReferenceDot } from "recharts";
+import type { AlertLevel } from "@/lib/types";
+import { fmtdatetime, fmtnum } from "@/lib/format";
+import type { SampleMarker } from "@/lib/samples";
+
+export const MARKER_COLORS: Record<AlertLevel, string> = { ok: "#10b981", warn: "#eab308", crit: "#ef4444" };
+
+function Diamond({ cx, cy, size, color, title }: { cx?: number; cy?: number; size: number; color: string; title: string }) {
+  if (cx == null || cy == null) return <g />;
+  return (
+    <path d={`M ${cx} ${cy - size} L ${cx + size} ${cy} L ${cx} ${cy + size} L ${cx - size} ${cy} Z`} fill={color} stroke="white" strokeWidth={1.5}>
+      <title>{title}</title>
+    </path>
+  );
+}
+
+/**
+ * Lab results as diamond `ReferenceDot`s colored by threshold level. Returned as
+ * an array (not a component) because Recharts only picks up direct children.
+ */
+export function sampleDots(markers: SampleMarker[], size = 6) {
+  return markers.map(m => (
+    <ReferenceDot
+      key={m.sampleId}
+      x={m.ts}
+      y={m.value}
+      ifOverflow="extendDomain"
+      shape={(p: { cx?: number; cy?: number }) => (
+        <Diamond cx={p.cx} cy={p.cy} size={size} color={MARKER_COLORS[m.level]} title={`Lab ${m.sampleId}: ${fmtnum(m.value)} (${m.level}) · ${fmtdatetime(m.ts)}`} />
+      )}
+    />
+  ));
+}
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Pause, Play } from "lucide-react";
+import type { Site } from "@/lib/types";
+import {
+  PLAYBACK_SPEEDS, reanchor, SCENARIO_KINDS, scenarioStatus, simTime,
+  type Scenario, type ScenarioKind, type SimulationState,
+} from "@/lib/simulator";
+import { toLocalInput } from "@/lib/time-range";
+import { fmtdatetime, numberOr } from "@/lib/format";
+
+type Props = {
+  state: SimulationState;
+  onChange: (next: SimulationState) => void;
+  sites: Site[];
+  activeSite: string;
+};
+
+const HOUR = 3600_000;
+
+const STATUS_TONE: Record<ReturnType<typeof scenarioStatus>, string> = {
+  scheduled: "text-sky-700",
+  running: "text-amber-700 font-medium",
+  done: "text-slate-500",
+};
+
+/** Seed, playback speed, a scrubbable simulated clock and per-site scenarios for the built-in simulator. */
+export function SimulatorPanel({ state, onChange, sites, activeSite }: Props) {
+  const [wall, setWall] = useState(() => Date.now());
+  useEffect(() => {
+    const id = window.setInterval(() => setWall(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, []);
+  const { clock, scenarios } = state;
+  const simNow = simTime(clock, wall);
+  const setClock = (patch: Parameters<typeof reanchor>[2]) => onChange({ ...state, clock: reanchor(clock, Date.now(), patch) });
+  const seek = (t: number) => setClock({ anchorSim: t });
+
+  const [siteId, setSiteId] = useState(activeSite);
+  const [kind, setKind] = useState<ScenarioKind>("heatwave");
+  const [startsInH, setStartsInH] = useState(0);
+  const [durationH, setDurationH] = useState(SCENARIO_KINDS[0].hours);
+  const [intensity, setIntensity] = useState(1);
+  const kindMeta = SCENARIO_KINDS.find(k => k.value === kind)!;
+
+  const add = () => {
+    const scenario: Scenario = { id: `${kind}-${Date.now().toString(36)}`, siteId, kind, start: simNow + startsInH * HOUR, durationH, intensity };
+    onChange({ ...state, scenarios: [...scenarios, scenario] });
+  };
+  const remove = (id: string) => onChange({ ...state, scenarios: scenarios.filter(s => s.id !== id) });
+
+  // Scrub window: a day back and three ahead, widened to cover every scenario.
+  const ends = scenarios.flatMap(s => [s.start, s.start + s.durationH * HOUR]);
+  const lo = Math.min(simNow - 24 * HOUR, ...ends) - 6 * HOUR;
+  const hi = Math.max(simNow + 72 * HOUR, ...ends) + 6 * HOUR;
+  const siteName = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+  const offsetH = (simNow - wall) / HOUR;
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4 text-sm">
+        <div className="opacity-80">
+          Readings are a deterministic function of the seed, the simulated time and the scenarios below: the same seed replays
+          the same tides, weather and events. Readings keep wall-clock timestamps; the simulated clock picks which moment
+          their values come from.
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium tabular-nums">Simulated {new Date(simNow).toLocaleString()}</span>
+          <span className="text-xs opacity-60">
+            {Math.abs(offsetH) < 0.01 ? "(real time)" : `(${offsetH > 0 ? "+" : "−"}${Math.abs(offsetH).toFixed(1)} h from wall clock)`}
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => setClock({ paused: !clock.paused })}>
+              {clock.paused ? <><Play className="h-4 w-4 mr-1" />Play</> : <><Pause className="h-4 w-4 mr-1" />Pause</>}
+            </Button>
+            <Select value={String(clock.speed)} onValueChange={v => setClock({ speed: Number(v) })}
+              options={PLAYBACK_SPEEDS.map(s => ({ value: String(s), label: `${s}×` }))} className="w-20" />
+            <Button size="sm" variant="outline" onClick={() => onChange({ ...state, clock: { anchorWall: Date.now(), anchorSim: Date.now(), speed: 1, paused: false } })}>
+              Back to real time
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <input type="range" className="w-full" min={lo} max={hi} step={5 * 60_000} value={simNow}
+            onChange={e => seek(Number(e.target.value))} aria-label="Simulated time" />
+          <div className="relative h-4 text-[10px] opacity-70">
+            {scenarios.map(s => (
+              <span key={s.id} title={`${siteName(s.siteId)}: ${SCENARIO_KINDS.find(k => k.value === s.kind)?.label}`}
+                className="absolute top-0 h-1.5 rounded-full bg-amber-400"
+                style={{ left: `${(s.start - lo) / (hi - lo) * 100}%`, width: `${Math.max(0.5, s.durationH * HOUR / (hi - lo) * 100)}%` }} />
+            ))}
+            <span className="absolute left-0 top-2">{fmtdatetime(lo)}</span>
+            <span className="absolute right-0 top-2">{fmtdatetime(hi)}</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Label className="text-xs">Jump to</Label>
+            <Input type="datetime-local" className="h-8 w-48" value={toLocalInput(simNow)}
+              onChange={e => { const t = new Date(e.target.value).getTime(); if (Number.isFinite(t)) seek(t); }} />
+            {clock.paused && <span className="text-xs text-amber-700">Paused: no readings arrive, so instruments will go stale.</span>}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Label className="text-xs" htmlFor="sim-seed">Seed</Label>
+          <Input id="sim-seed" className="h-8 w-28" type="number" value={state.seed}
+            onChange={e => onChange({ ...state, seed: Math.trunc(numberOr(e.target.value, state.seed)) })} />
+          <Button size="sm" variant="outline" onClick={() => onChange({ ...state, seed: Math.floor(Math.random() * 1e6) })}>New seed</Button>
+          <span className="text-xs opacity-60">History already stored keeps its values.</span>
+        </div>
+
+        <div className="border rounded-xl p-3 space-y-2">
+          <div className="font-medium">Start a scenario</div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={siteId} onValueChange={setSiteId} options={sites.map(s => ({ value: s.id, label: s.name }))} className="w-44" />
+            <Select value={kind} onValueChange={v => { setKind(v as ScenarioKind); setDurationH(SCENARIO_KINDS.find(k => k.value === v)!.hours); }}
+              options={SCENARIO_KINDS.map(k => ({ value: k.value, label: k.label }))} className="w-44" />
+            <Label className="text-xs">starts in</Label>
+            <Input className="h-8 w-16" type="number" min={0} value={startsInH} onChange={e => setStartsInH(Math.max(0, numberOr(e.target.value, startsInH)))} />
+            <span className="text-xs">h, lasts</span>
+            <Input className="h-8 w-16" type="number" min={1} value={durationH} onChange={e => setDurationH(Math.max(1, numberOr(e.target.value, durationH)))} />
+            <span className="text-xs">h, intensity</span>
+            <Input className="h-8 w-16" type="number" min={0.2} max={3} step={0.1} value={intensity}
+              onChange={e => setIntensity(Math.min(3, Math.max(0.2, numberOr(e.target.value, intensity))))} />
+            <Button size="sm" onClick={add} disabled={!sites.some(s => s.id === siteId)}>Add</Button>
+          </div>
+          <div className="text-xs opacity-70">{kindMeta.description}</div>
+        </div>
+
+        {!scenarios.length ? (
+          <div className="opacity-60">No scenarios: every site follows its baseline.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-xs text-left opacity-70">
+              <tr><th className="py-1 pr-2">Site</th><th className="pr-2">Scenario</th><th className="pr-2">Start (simulated)</th><th className="pr-2">Duration</th><th className="pr-2">Intensity</th><th className="pr-2">Status</th><th /></tr>
+            </thead>
+            <tbody>
+              {scenarios.map(s => {
+                const status = scenarioStatus(s, simNow);
+                return (
+                  <tr key={s.id} className="border-t">
+                    <td className="py-1 pr-2">{siteName(s.siteId)}</td>
+                    <td className="pr-2">{SCENARIO_KINDS.find(k => k.value === s.kind)?.label ?? s.kind}</td>
+                    <td className="pr-2 whitespace-nowrap">{fmtdatetime(s.start)}</td>
+                    <td className="pr-2">{s.durationH} h</td>
+                    <td className="pr-2">{s.intensity}×</td>
+                    <td className={`pr-2 ${STATUS_TONE[status]}`}>{status}</td>
+                    <td className="text-right whitespace-nowrap">
+                      <Button size="sm" variant="outline" onClick={() => seek(s.start)}>Jump to start</Button>{" "}
+                      <Button size="sm" variant="outline" onClick={() => remove(s.id)}>Remove</Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+import React from "react";
+import type { AlertLevel, Site } from "@/lib/types";
+import type { SiteAlertSummary } from "@/lib/alert-engine";
+import type { HarvestStatus } from "@/lib/harvest";
+import { LevelBadge } from "@/components/portfolio-summary";
+import { HarvestBadge } from "@/components/harvest";
+import { VirtualList } from "@/components/virtual-list";
+import type { LiveStore } from "@/lib/live-store";
+import { useLatestReading } from "@/hooks/use-live-series";
+import { fmttime } from "@/lib/format";
+
+type Props = {
+  sites: Site[];
+  activeSite: string;
+  onSelect: (siteId: string) => void;
+  summary: Record<string, SiteAlertSummary>;
+  harvestStatus: (siteId: string) => HarvestStatus;
+  regionName: (regionId?: string) => string | undefined;
+  live: LiveStore;
+};
+
+/** Row height including the 8 px gap; rows are fixed height so the list can be virtualized. */
+const ROW_HEIGHT = 84;
+
+type RowProps = { site: Site; active: boolean; level: AlertLevel; count: number; harvest: HarvestStatus; region?: string; live: LiveStore; onSelect: (siteId: string) => void };
+
+// Props are primitives (or stable objects), so a row re-renders only when its own status changes or its site gets a reading.
+const SiteRow = React.memo(function SiteRow({ site, active, level, count, harvest, region, live, onSelect }: RowProps) {
+  const latest = useLatestReading(live, site.id);
+  return (
+    <button
+      onClick={() => onSelect(site.id)}
+      className={`w-full h-[76px] overflow-hidden text-left p-2 rounded-xl border hover:bg-slate-50 ${active ? "border-sky-300 bg-sky-50" : "border-slate-200"}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium truncate">{site.name}</span>
+        <span className="flex items-center gap-1">
+          {harvest !== "open" && <HarvestBadge status={harvest} />}
+          <LevelBadge summary={{ level, count }} />
+        </span>
+      </div>
+      <div className="text-xs opacity-70 truncate">{site.id} · {site.lat.toFixed(3)}, {site.lon.toFixed(3)} · depth {site.depth_m} m</div>
+      <div className="text-xs opacity-70 truncate">{[region, latest && `last reading ${fmttime(latest.ts)}`].filter(Boolean).join(" · ")}</div>
+    </button>
+  );
+});
+
+/** Sites with alert and harvest badges, virtualized so hundreds of sites stay cheap to render. */
+export function SiteList({ sites, activeSite, onSelect, summary, harvestStatus, regionName, live }: Props) {
+  if (!sites.length) return <div className="text-sm opacity-70">No sites match.</div>;
+  return (
+    <VirtualList items={sites} rowHeight={ROW_HEIGHT} maxHeight={288} getKey={s => s.id} className="pr-1">
+      {s => (
+        <SiteRow
+          site={s}
+          active={s.id === activeSite}
+          level={summary[s.id]?.level ?? "ok"}
+          count={summary[s.id]?.count ?? 0}
+          harvest={harvestStatus(s.id)}
+          region={regionName(s.regionId)}
+          live={live}
+          onSelect={onSelect}
+        />
+      )}
+    </VirtualList>
+  );
+}
@@ -0,0 +1,250 @@
+import React, { useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Dialog } from "@/components/ui/dialog";
+import { Download, Plus, Upload } from "lucide-react";
+import type { Site } from "@/lib/types";
+import { SPECIES } from "@/lib/samples";
+import { downloadText } from "@/lib/download";
+import {
+  activeSites, mergeSiteConfig, parseSiteConfig, siteError, siteTags, tagLabel, type Region, type SiteConfig,
+} from "@/lib/sites";
+
+type Props = {
+  config: SiteConfig;
+  onChange: (next: SiteConfig) => void;
+  activeSite: string;
+};
+
+type Draft = { site: Site; isNew: boolean };
+
+function slug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "region";
+}
+
+/** Coordinates and depth are edited as text so a half-typed or invalid value can be reported rather than swallowed. */
+function SiteForm({ draft, config, onSave, onCancel }: { draft: Draft; config: SiteConfig; onSave: (s: Site) => void; onCancel: () => void }) {
+  const [site, setSite] = useState(draft.site);
+  const [coords, setCoords] = useState({
+    lat: draft.isNew ? "" : String(draft.site.lat),
+    lon: draft.isNew ? "" : String(draft.site.lon),
+    depth: draft.isNew ? "" : String(draft.site.depth_m),
+  });
+  const [newSpecies, setNewSpecies] = useState("");
+  const set = (patch: Partial<Site>) => setSite(s => ({ ...s, ...patch }));
+  const tags = site.tags ?? { species: [] };
+  const setTags = (patch: Partial<NonNullable<Site["tags"]>>) => set({ tags: { ...tags, ...patch } });
+  const toggleSpecies = (sp: string) => setTags({ species: tags.species.includes(sp) ? tags.species.filter(x => x !== sp) : [...tags.species, sp] });
+  const num = (raw: string) => raw.trim() === "" ? NaN : Number(raw);
+
+  const candidate: Site = { ...site, id: site.id.trim(), name: site.name.trim(), lat: num(coords.lat), lon: num(coords.lon), depth_m: num(coords.depth) };
+  const error = siteError(candidate, config.sites.filter(s => draft.isNew || s.id !== draft.site.id));
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="site-name">Name</Label>
+          <Input id="site-name" value={site.name} onChange={e => set({ name: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="site-id">Id {draft.isNew ? "" : "(history is stored under it, so it cannot change)"}</Label>
+          <Input id="site-id" value={site.id} disabled={!draft.isNew} placeholder="e.g. PS-HOODSPORT" onChange={e => set({ id: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="site-lat">Latitude (°N, −90 to 90)</Label>
+          <Input id="site-lat" inputMode="decimal" value={coords.lat} onChange={e => setCoords(c => ({ ...c, lat: e.target.value }))} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="site-lon">Longitude (°E, −180 to 180)</Label>
+          <Input id="site-lon" inputMode="decimal" value={coords.lon} onChange={e => setCoords(c => ({ ...c, lon: e.target.value }))} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="site-depth">Depth (m)</Label>
+          <Input id="site-depth" inputMode="decimal" value={coords.depth} onChange={e => setCoords(c => ({ ...c, depth: e.target.value }))} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Region / farm</Label>
+          <Select value={site.regionId ?? ""} onValueChange={v => set({ regionId: v || undefined })} className="w-full h-10"
+            options={[{ value: "", label: "(none)" }, ...config.regions.map(r => ({ value: r.id, label: r.name }))]} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="site-lease">Lease id</Label>
+          <Input id="site-lease" value={tags.leaseId ?? ""} onChange={e => setTags({ leaseId: e.target.value || undefined })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="site-owner">Owner</Label>
+          <Input id="site-owner" value={tags.owner ?? ""} onChange={e => setTags({ owner: e.target.value || undefined })} />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Species</Label>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {[...new Set([...SPECIES, ...tags.species])].map(sp => (
+            <button key={sp} onClick={() => toggleSpecies(sp)}
+              className={`text-xs px-2 py-1 rounded-full border ${tags.species.includes(sp) ? "bg-sky-50 border-sky-300" : "bg-white border-slate-200 opacity-60"}`}>
+              {sp}
+            </button>
+          ))}
+          <Input className="h-8 w-40" placeholder="Other species ⏎" value={newSpecies} onChange={e => setNewSpecies(e.target.value)}
+            onKeyDown={e => {
+              if (e.key !== "Enter" || !newSpecies.trim()) return;
+              if (!tags.species.includes(newSpecies.trim())) setTags({ species: [...tags.species, newSpecies.trim()] });
+              setNewSpecies("");
+            }} />
+        </div>
+      </div>
+      {error && <div className="text-red-700">{error}</div>}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button disabled={!!error} onClick={() => onSave(candidate)}>Save</Button>
+      </div>
+    </div>
+  );
+}
+
+/** Create, edit and archive sites and the regions/farms they belong to. */
+export function SiteManager({ config, onChange, activeSite }: Props) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const regionName = (id?: string) => config.regions.find(r => r.id === id)?.name ?? "—";
+  const shown = config.sites.filter(s => showArchived || !s.archived);
+  const lastActive = activeSites(config).length <= 1;
+
+  function save(site: Site) {
+    const exists = config.sites.some(s => s.id === site.id);
+    onChange({ ...config, sites: exists ? config.sites.map(s => s.id === site.id ? site : s) : [...config.sites, site] });
+    setDraft(null);
+  }
+
+  function setArchived(site: Site, archived: boolean) {
+    if (archived && !window.confirm(`Archive "${site.name}"? It stops streaming and alerting; its history is kept and it can be restored.`)) return;
+    onChange({ ...config, sites: config.sites.map(s => s.id === site.id ? { ...s, archived: archived || undefined } : s) });
+  }
+
+  function addRegion() {
+    const name = window.prompt("Region or farm name");
+    if (!name?.trim()) return;
+    let id = slug(name);
+    while (config.regions.some(r => r.id === id)) id += "-1";
+    onChange({ ...config, regions: [...config.regions, { id, name: name.trim(), kind: "region" }] });
+  }
+
+  function updateRegion(next: Region) {
+    onChange({ ...config, regions: config.regions.map(r => r.id === next.id ? next : r) });
+  }
+
+  function removeRegion(region: Region) {
+    const used = config.sites.filter(s => s.regionId === region.id).length;
+    if (used && !window.confirm(`Remove "${region.name}"? Its ${used} site(s) become ungrouped.`)) return;
+    onChange({
+      regions: config.regions.filter(r => r.id !== region.id),
+      sites: config.sites.map(s => s.regionId === region.id ? { ...s, regionId: undefined } : s),
+    });
+  }
+
+  async function importFile(file: File) {
+    try {
+      onChange(mergeSiteConfig(config, parseSiteConfig(JSON.parse(await file.text()))));
+      setImportError(null);
+    } catch (e) {
+      setImportError(`Import failed: ${(e as Error).message}`);
+    }
+  }
+
+  const blank = (): Draft => ({ isNew: true, site: { id: "", name: "", lat: NaN, lon: NaN, depth_m: NaN, tags: { species: [] } } });
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={() => setDraft(blank())}><Plus className="h-4 w-4 mr-1" />New site</Button>
+          <label className="flex items-center gap-1 text-xs opacity-80">
+            <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} /> Show archived
+          </label>
+          <div className="ml-auto flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => downloadText("sites.json", JSON.stringify(config, null, 2), "application/json")}>
+              <Download className="h-4 w-4 mr-1"/> Export JSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => fileRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1"/> Import JSON
+            </Button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ""; }}
+            />
+          </div>
+        </div>
+        {importError && <div className="text-red-700">{importError}</div>}
+
+        <div className="overflow-auto">
+          <table className="w-full">
+            <thead className="text-xs text-left opacity-70">
+              <tr>
+                <th className="py-1 pr-2">Site</th>
+                <th className="pr-2">Region / farm</th>
+                <th className="pr-2">Position</th>
+                <th className="pr-2">Depth</th>
+                <th className="pr-2">Tags</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(s => (
+                <tr key={s.id} className={`border-t ${s.archived ? "opacity-50" : ""} ${s.id === activeSite ? "bg-sky-50/60" : ""}`}>
+                  <td className="py-1 pr-2">
+                    <div className="font-medium">{s.name}{s.archived && <span className="ml-1 text-xs">(archived)</span>}</div>
+                    <div className="text-xs opacity-70">{s.id}</div>
+                  </td>
+                  <td className="pr-2">{regionName(s.regionId)}</td>
+                  <td className="pr-2 whitespace-nowrap">{s.lat.toFixed(3)}, {s.lon.toFixed(3)}</td>
+                  <td className="pr-2">{s.depth_m} m</td>
+                  <td className="pr-2">
+                    <div className="flex flex-wrap gap-1">
+                      {siteTags(s).map(t => <span key={t} className="text-xs px-2 py-0.5 rounded-full border border-slate-200">{tagLabel(t)}</span>)}
+                    </div>
+                  </td>
+                  <td className="text-right whitespace-nowrap space-x-1">
+                    <Button size="sm" variant="outline" onClick={() => setDraft({ isNew: false, site: s })}>Edit</Button>
+                    {s.archived
+                      ? <Button size="sm" variant="outline" onClick={() => setArchived(s, false)}>Restore</Button>
+                      : <Button size="sm" variant="outline" disabled={lastActive} title={lastActive ? "At least one site must stay active" : undefined}
+                          onClick={() => setArchived(s, true)}>Archive</Button>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="font-medium">Regions and farms</div>
+            <Button size="sm" variant="outline" className="ml-auto" onClick={addRegion}><Plus className="h-4 w-4 mr-1" />Add</Button>
+          </div>
+          {config.regions.length === 0 ? <div className="opacity-70">No regions yet.</div> : config.regions.map(r => (
+            <div key={r.id} className="flex items-center gap-2">
+              <Input className="h-8 w-64" value={r.name} onChange={e => updateRegion({ ...r, name: e.target.value })} />
+              <Select value={r.kind} onValueChange={v => updateRegion({ ...r, kind: v as Region["kind"] })}
+                options={[{ value: "region", label: "Region" }, { value: "farm", label: "Farm" }]} />
+              <span className="text-xs opacity-70">{config.sites.filter(s => s.regionId === r.id).length} site(s)</span>
+              <Button size="sm" variant="outline" className="ml-auto" onClick={() => removeRegion(r)}>Remove</Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={o => { if (!o) setDraft(null); }} title={draft?.isNew ? "New site" : "Edit site"} className="max-w-xl">
+        {draft && <SiteForm key={draft.site.id || "new"} draft={draft} config={config} onSave={save} onCancel={() => setDraft(null)} />}
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from "react";
+import type { AlertLevel, ParamKey, Site } from "@/lib/types";
+import { PARAM_META } from "@/lib/types";
+import type { LiveStore } from "@/lib/live-store";
+import { useLatestReading } from "@/hooks/use-live-series";
+import { fmtnum } from "@/lib/format";
+import coastline from "@/assets/puget-sound.geo.json";
+
+// Bundled with the app so the map works offline (no tile server).
+type LandFeature = { properties: { name: string }; geometry: { type: "Polygon"; coordinates: number[][][] } };
+const LAND = (coastline as { features: LandFeature[] }).features;
+const [MIN_LON, MIN_LAT, MAX_LON, MAX_LAT] = (coastline as { bbox: number[] }).bbox;
+
+// Equirectangular projection scaled by cos(mid-latitude); good enough at this extent.
+const SCALE = 1000;
+const KX = Math.cos(((MIN_LAT + MAX_LAT) / 2) * Math.PI / 180) * SCALE;
+const WIDTH = (MAX_LON - MIN_LON) * KX;
+const HEIGHT = (MAX_LAT - MIN_LAT) * SCALE;
+const project = (lon: number, lat: number): [number, number] => [(lon - MIN_LON) * KX, (MAX_LAT - lat) * SCALE];
+
+const MARKER: Record<AlertLevel, string> = { ok: "#10b981", warn: "#eab308", crit: "#ef4444" };
+const HOVER_KEYS: ParamKey[] = ["temp", "sal", "ph", "do", "turb", "chl"];
+
+type Props = {
+  sites: Site[];
+  levels: Record<string, AlertLevel>;
+  live: LiveStore;
+  activeSite: string;
+  onSelect: (siteId: string) => void;
+};
+
+export function SiteMap({ sites, levels, live, activeSite, onSelect }: Props) {
+  const [hover, setHover] = useState<string | null>(null);
+  const paths = useMemo(() => LAND.map(f => ({
+    name: f.properties.name,
+    d: f.geometry.coordinates
+      .map(ring => ring.map(([lon, lat], i) => `${i ? "L" : "M"}${project(lon, lat).map(n => n.toFixed(1)).join(",")}`).join("") + "Z")
+      .join(""),
+  })), []);
+  const graticule = useMemo(() => {
+    const lats: number[] = [];
+    const lons: number[] = [];
+    for (let v = Math.ceil(MIN_LAT * 4) / 4; v <= MAX_LAT; v += 0.25) lats.push(v);
+    for (let v = Math.ceil(MIN_LON * 4) / 4; v <= MAX_LON; v += 0.25) lons.push(v);
+    return { lats, lons };
+  }, []);
+
+  const hovered = sites.find(s => s.id === hover);
+  // Only the hovered site's readings re-render the map.
+  const hoveredReading = useLatestReading(live, hovered?.id);
+  const inView = (s: Site) => s.lon >= MIN_LON && s.lon <= MAX_LON && s.lat >= MIN_LAT && s.lat <= MAX_LAT;
+
+  return (
+    <div className="relative w-full max-w-2xl mx-auto">
+      <svg viewBox={`0 0 ${WIDTH.toFixed(0)} ${HEIGHT.toFixed(0)}`} className="w-full h-auto rounded-xl border bg-sky-100" role="img" aria-label="Map of monitoring sites in Puget Sound">
+        {graticule.lats.map(lat => {
+          const y = project(MIN_LON, lat)[1];
+          return (
+            <g key={`lat${lat}`}>
+              <line x1={0} x2={WIDTH} y1={y} y2={y} stroke="#94a3b8" strokeWidth={0.6} strokeDasharray="3 4" />
+              <text x={4} y={y - 3} fontSize={10} fill="#64748b">{lat.toFixed(2)}°N</text>
+            </g>
+          );
+        })}
+        {graticule.lons.map(lon => {
+          const x = project(lon, MIN_LAT)[0];
+          return (
+            <g key={`lon${lon}`}>
+              <line x1={x} x2={x} y1={0} y2={HEIGHT} stroke="#94a3b8" strokeWidth={0.6} strokeDasharray="3 4" />
+              <text x={x + 3} y={HEIGHT - 4} fontSize={10} fill="#64748b">{Math.abs(lon).toFixed(2)}°W</text>
+            </g>
+          );
+        })}
+        {paths.map(p => <path key={p.name} d={p.d} fill="#f5f5f4" stroke="#78716c" strokeWidth={1}><title>{p.name}</title></path>)}
+        {sites.filter(inView).map(s => {
+          const [x, y] = project(s.lon, s.lat);
+          const active = s.id === activeSite;
+          return (
+            <g
+              key={s.id}
+              transform={`translate(${x},${y})`}
+              className="cursor-pointer"
+              onClick={() => onSelect(s.id)}
+              onMouseEnter={() => setHover(s.id)}
+              onMouseLeave={() => setHover(h => h === s.id ? null : h)}
+            >
+              {active && <circle r={13} fill="none" stroke="#0284c7" strokeWidth={3} />}
+              <circle r={8} fill={MARKER[levels[s.id] ?? "ok"]} stroke="#fff" strokeWidth={2} />
+              <text x={12} y={4} fontSize={12} fontWeight={active ? 600 : 400} fill="#0f172a">{s.name}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {hovered && (
+        <div
+          className="absolute z-10 pointer-events-none bg-white/95 border rounded-xl shadow p-2 text-xs w-52"
+          style={{
+            left: `${(project(hovered.lon, hovered.lat)[0] / WIDTH) * 100}%`,
+            top: `${(project(hovered.lon, hovered.lat)[1] / HEIGHT) * 100}%`,
+            transform: project(hovered.lon, hovered.lat)[0] > WIDTH / 2 ? "translate(calc(-100% - 14px), 8px)" : "translate(14px, 8px)",
+          }}
+        >
+          <div className="font-medium">{hovered.name}</div>
+          <div className="opacity-70 mb-1">{hovered.id} · depth {hovered.depth_m} m · {levels[hovered.id] ?? "ok"}</div>
+          {hoveredReading
+            ? (
+              <table className="w-full">
+                <tbody>
+                  {HOVER_KEYS.map(k => (
+                    <tr key={k}><td>{PARAM_META[k].label}</td><td className="text-right tabular-nums">{fmtnum(hoveredReading[k])} {PARAM_META[k].unit}</td></tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+            : <div className="opacity-70">No data yet.</div>}
+        </div>
+      )}
+      {sites.some(s => !inView(s)) && (
+        <div className="text-xs opacity-70 mt-2">Some sites fall outside the bundled Puget Sound outline and are not shown.</div>
+      )}
+    </div>
+  );
+}
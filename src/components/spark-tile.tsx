@@ -0,0 +1,68 @@
+import React, { useRef } from "react";
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip } from "recharts";
+import type { ParamKey, Reading } from "@/lib/types";
+import { PARAM_META } from "@/lib/types";
+import { fmtdatetime, fmtnum } from "@/lib/format";
+import { ChartExportButtons } from "@/components/chart-export";
+import { qcDot } from "@/components/qc-dot";
+import type { QcFlags } from "@/lib/qc";
+import { MARKER_COLORS, sampleDots } from "@/components/sample-markers";
+import type { SampleMarker } from "@/lib/samples";
+import type { Annotation } from "@/lib/annotations";
+import { annotationMarks } from "@/components/annotation-marks";
+import type { LiveStore } from "@/lib/live-store";
+import { useLatestReading } from "@/hooks/use-live-series";
+
+type SparkProps = { data: Reading[]; dataKey: ParamKey; flags?: Map<number, QcFlags>; markers?: SampleMarker[]; annotations?: Annotation[] };
+
+export function MiniSpark({ data, dataKey, flags, markers, annotations }: SparkProps) {
+  return (
+    <ResponsiveContainer width="100%" height={56}>
+      <AreaChart data={data} margin={{ top: 6, right: 8, left: 0, bottom: 0 }}>
+        <XAxis dataKey="ts" hide domain={["dataMin", "dataMax"]} type="number"/>
+        <YAxis hide/>
+        <Tooltip formatter={(v:any)=>Number(v).toFixed(2)} labelFormatter={(l:any)=>new Date(l).toLocaleString()} />
+        <Area type="monotone" dataKey={dataKey} strokeWidth={2} fillOpacity={0.1} dot={flags ? qcDot(flags, dataKey, 2.5) : false} isAnimationActive={false} />
+        {markers && sampleDots(markers, 4)}
+        {annotations && annotationMarks(annotations, true)}
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+}
+
+type Props = {
+  param: ParamKey;
+  data: Reading[];
+  flags?: Map<number, QcFlags>;
+  /** Discrete lab results drawn over the continuous series. */
+  markers?: SampleMarker[];
+  annotations?: Annotation[];
+  /** The latest value is read from the live store for this site, so new readings re-render only the tile. */
+  live: LiveStore;
+  siteId: string;
+  selected: boolean;
+  siteName: string;
+};
+
+/** Labelled sparkline with latest value and image export. Memoized, so pass stable `data`, `flags`, `markers` and `annotations`. */
+export const SparkTile = React.memo(function SparkTile({ param, data, flags, markers, annotations, live, siteId, selected, siteName }: Props) {
+  const ref = useRef<HTMLDivElement>(null);
+  const latest = useLatestReading(live, siteId);
+  const meta = PARAM_META[param];
+  const lastLab = markers?.[markers.length - 1];
+  return (
+    <div ref={ref} className={`group p-2 rounded-xl border ${selected?"border-sky-300 bg-sky-50":"border-slate-200"}`}>
+      <div className="text-xs mb-1 flex items-center justify-between gap-1">
+        <span>{meta.label}</span>
+        <ChartExportButtons target={ref} name={`${siteName}_${param}`} title={`${siteName} · ${meta.label}`} className="opacity-0 group-hover:opacity-100" />
+        <span className="opacity-60 tabular-nums">{fmtnum(latest?.[param])} {meta.unit}</span>
+      </div>
+      <MiniSpark data={data} dataKey={param} flags={flags} markers={markers} annotations={annotations} />
+      {lastLab && (
+        <div className="text-[11px] opacity-70 flex items-center gap-1">
+          <span style={{ color: MARKER_COLORS[lastLab.level] }}>◆</span> lab {fmtnum(lastLab.value)} · {fmtdatetime(lastLab.ts)}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { Site } from "@/lib/types";
+import { clearReadings, countReadings, pruneBefore } from "@/lib/history-store";
+import type { RetentionSettings } from "@/lib/history";
+
+type Props = { sites: Site[]; retention: RetentionSettings; onChange: (next: RetentionSettings) => void };
+
+export function StorageSettings({ sites, retention, onChange }: Props) {
+  const [counts, setCounts] = useState<Record<string, number> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(sites.map(s => countReadings(s.id)))
+      .then(n => { if (!cancelled) setCounts(Object.fromEntries(sites.map((s, i) => [s.id, n[i]]))); })
+      .catch(e => { if (!cancelled) setError(`IndexedDB unavailable: ${(e as Error).message}`); });
+    return () => { cancelled = true; };
+  }, [sites, version]);
+
+  const run = (op: Promise<void>) => op.then(() => setVersion(v => v + 1)).catch(e => setError((e as Error).message));
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-3 text-sm">
+        <div className="opacity-80">Readings are stored in this browser (IndexedDB) for long‑range charts and exports.</div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Label className="text-sm">Keep readings for</Label>
+          <Input
+            className="h-8 w-24"
+            type="number"
+            min={1}
+            value={retention.days}
+            onChange={(e) => { const n = Math.round(Number(e.target.value)); if (n >= 1) onChange({ days: n }); }}
+          />
+          <span>days</span>
+          <Button size="sm" variant="outline" onClick={() => run(pruneBefore(sites.map(s => s.id), Date.now() - retention.days * 86_400_000))}>Prune now</Button>
+          <Button size="sm" variant="outline" onClick={() => { if (window.confirm("Delete all stored readings?")) run(clearReadings()); }}>Clear stored history</Button>
+        </div>
+        {error && <div className="text-red-700">{error}</div>}
+        {counts && (
+          <table className="text-sm">
+            <tbody>
+              {sites.map(s => (
+                <tr key={s.id}><td className="pr-4">{s.name}</td><td className="tabular-nums text-right">{counts[s.id]?.toLocaleString() ?? "—"} readings</td></tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
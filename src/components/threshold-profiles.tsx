@@ -0,0 +1,172 @@
+import React, { useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Download, Plus, Trash2, Upload } from "lucide-react";
+import type { ParamKey, Site } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META } from "@/lib/types";
+import {
+  DEFAULT_PROFILE_ID, mergeThresholdConfig, parseThresholdConfig, profileFor, resolveThresholds,
+  type Threshold, type ThresholdConfig, type ThresholdProfile,
+} from "@/lib/thresholds";
+import { downloadText } from "@/lib/download";
+
+type Props = {
+  config: ThresholdConfig;
+  onChange: (next: ThresholdConfig) => void;
+  site: Site;
+};
+
+function slug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "profile";
+}
+
+export function ThresholdProfiles({ config, onChange, site }: Props) {
+  const assigned = profileFor(config, site.id);
+  const [editingId, setEditingId] = useState(assigned.id);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const editing = config.profiles.find(p => p.id === editingId) ?? assigned;
+  const isDefault = editing.id === DEFAULT_PROFILE_ID;
+  // What the editing profile inherits: the default profile over the base values.
+  const inherited = resolveThresholds({ ...config, assignments: {} }, "");
+
+  function updateProfile(next: ThresholdProfile) {
+    onChange({ ...config, profiles: config.profiles.map(p => p.id === next.id ? next : p) });
+  }
+
+  function setOverride(key: ParamKey, field: keyof Threshold, value: Threshold[keyof Threshold] | undefined) {
+    const current = { ...editing.overrides[key] };
+    if (value === undefined) delete current[field];
+    else (current as Record<string, unknown>)[field] = value;
+    const overrides = { ...editing.overrides };
+    if (Object.keys(current).length) overrides[key] = current;
+    else delete overrides[key];
+    updateProfile({ ...editing, overrides });
+  }
+
+  function createProfile() {
+    const name = window.prompt("Profile name (e.g. species or farm)");
+    if (!name?.trim()) return;
+    let id = slug(name);
+    while (config.profiles.some(p => p.id === id)) id += "-1";
+    onChange({ ...config, profiles: [...config.profiles, { id, name: name.trim(), overrides: {} }] });
+    setEditingId(id);
+  }
+
+  function deleteProfile() {
+    if (isDefault || !window.confirm(`Delete profile "${editing.name}"? Sites using it fall back to Default.`)) return;
+    const assignments = Object.fromEntries(Object.entries(config.assignments).filter(([, id]) => id !== editing.id));
+    onChange({ profiles: config.profiles.filter(p => p.id !== editing.id), assignments });
+    setEditingId(DEFAULT_PROFILE_ID);
+  }
+
+  async function importFile(file: File) {
+    try {
+      const incoming = parseThresholdConfig(JSON.parse(await file.text()));
+      onChange(mergeThresholdConfig(config, incoming));
+      setImportError(null);
+    } catch (e) {
+      setImportError(`Import failed: ${(e as Error).message}`);
+    }
+  }
+
+  const profileOptions = config.profiles.map(p => ({ value: p.id, label: p.name }));
+
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Label className="text-sm">Profile for <strong>{site.name}</strong></Label>
+          <Select
+            value={assigned.id}
+            onValueChange={(id) => {
+              onChange({ ...config, assignments: { ...config.assignments, [site.id]: id } });
+              setEditingId(id);
+            }}
+            options={profileOptions}
+            className="w-48"
+          />
+          <div className="ml-auto flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => downloadText("threshold_profiles.json", JSON.stringify(config, null, 2), "application/json")}>
+              <Download className="h-4 w-4 mr-1"/> Export JSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => fileRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1"/> Import JSON
+            </Button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ""; }}
+            />
+          </div>
+        </div>
+        {importError && <div className="text-sm text-red-700">{importError}</div>}
+
+        <div className="flex flex-wrap items-center gap-3 border-t pt-3">
+          <Label className="text-sm">Editing</Label>
+          <Select value={editing.id} onValueChange={setEditingId} options={profileOptions} className="w-48" />
+          {!isDefault && (
+            <Input
+              className="h-8 w-48"
+              value={editing.name}
+              onChange={(e) => updateProfile({ ...editing, name: e.target.value })}
+              aria-label="Profile name"
+            />
+          )}
+          <Button size="sm" variant="outline" onClick={createProfile}><Plus className="h-4 w-4 mr-1"/> New profile</Button>
+          {!isDefault && <Button size="sm" variant="outline" onClick={deleteProfile}><Trash2 className="h-4 w-4 mr-1"/> Delete</Button>}
+        </div>
+        <div className="text-sm opacity-80">
+          {isDefault
+            ? "Default limits apply to every site unless its profile overrides a parameter."
+            : "Leave a field blank to inherit the Default profile value (shown as placeholder)."}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-3">
+          {PARAM_KEYS.map(k => {
+            const own = editing.overrides[k] ?? {};
+            const base = inherited[k];
+            const numberField = (field: "warn" | "crit") => (
+              <Input
+                className="h-8"
+                type="number"
+                step="any"
+                value={own[field] ?? (isDefault ? base[field] : "")}
+                placeholder={String(base[field])}
+                onChange={(e) => {
+                  const raw = e.target.value;
+                  const n = Number(raw);
+                  if (raw === "") setOverride(k, field, undefined);
+                  else if (Number.isFinite(n)) setOverride(k, field, n);
+                }}
+              />
+            );
+            return (
+              <div key={k} className={`space-y-2 p-3 rounded-xl border ${Object.keys(own).length && !isDefault ? "border-sky-300 bg-sky-50" : ""}`}>
+                <div className="text-sm font-medium">{PARAM_META[k].label}</div>
+                <div className="grid grid-cols-2 gap-2 items-center">
+                  <Label className="text-xs">Warn</Label>
+                  {numberField("warn")}
+                  <Label className="text-xs">Critical</Label>
+                  {numberField("crit")}
+                  <Label className="text-xs">Direction</Label>
+                  <Select
+                    value={own.dir ?? base.dir}
+                    onValueChange={(v) => setOverride(k, "dir", v === base.dir && !isDefault ? undefined : v as Threshold["dir"])}
+                    options={[{ value: "over", label: "higher is worse" }, { value: "under", label: "lower is worse" }]}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
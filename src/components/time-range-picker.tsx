@@ -0,0 +1,43 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { RANGE_PRESETS, resolveRange, toLocalInput, type RangePreset, type TimeRange } from "@/lib/time-range";
+
+type Props = { value: TimeRange; onChange: (next: TimeRange) => void };
+
+export function TimeRangePicker({ value, onChange }: Props) {
+  const { from, to } = resolveRange(value, Date.now());
+  const parse = (v: string) => {
+    const t = new Date(v).getTime();
+    return Number.isNaN(t) ? undefined : t;
+  };
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={value.preset}
+        onValueChange={(v) => onChange(v === "custom" ? { preset: "custom", from, to } : { preset: v as RangePreset })}
+        options={[...RANGE_PRESETS.map(p => ({ value: p.value, label: p.label })), { value: "custom", label: "Custom…" }]}
+        className="w-32"
+      />
+      {value.preset === "custom" && (
+        <>
+          <Input
+            type="datetime-local"
+            className="h-8 w-48 text-sm"
+            value={toLocalInput(from)}
+            max={toLocalInput(to)}
+            onChange={(e) => { const t = parse(e.target.value); if (t !== undefined && t < to) onChange({ ...value, from: t }); }}
+          />
+          <span className="text-xs opacity-70">to</span>
+          <Input
+            type="datetime-local"
+            className="h-8 w-48 text-sm"
+            value={toLocalInput(to)}
+            min={toLocalInput(from)}
+            onChange={(e) => { const t = parse(e.target.value); if (t !== undefined && t > from) onChange({ ...value, to: t }); }}
+          />
+        </>
+      )}
+    </div>
+  );
+}
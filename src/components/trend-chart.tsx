@@ -0,0 +1,83 @@
+import React, { useRef, useState } from "react";
+import { ComposedChart, Line, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea } from "recharts";
+import type { ParamKey } from "@/lib/types";
+import type { Threshold } from "@/lib/thresholds";
+import type { QcFlags } from "@/lib/qc";
+import type { SampleMarker } from "@/lib/samples";
+import { ChartExportButtons } from "@/components/chart-export";
+import { qcDot, QcLegend } from "@/components/qc-dot";
+import { sampleDots } from "@/components/sample-markers";
+import type { Annotation } from "@/lib/annotations";
+import { annotationMarks } from "@/components/annotation-marks";
+
+type Props = {
+  /** Readings (with gap blanks) followed by forecast points `{ ts, forecast, band }`. */
+  data: Record<string, unknown>[];
+  param: ParamKey;
+  flags: Map<number, QcFlags>;
+  markers?: SampleMarker[];
+  limit: Threshold;
+  /** Caption for the forecast projection; without it no forecast or limit lines are drawn. */
+  forecastLabel?: string;
+  tickTime: (t: number) => string;
+  exportName: string;
+  exportTitle: string;
+  annotations?: Annotation[];
+  /** Called with the clicked time, or the start and end of a drag across the chart. */
+  onPick?: (start: number, end?: number) => void;
+};
+
+const labelTs = (state: { activeLabel?: string | number } | null) => {
+  const t = Number(state?.activeLabel);
+  return state?.activeLabel !== undefined && Number.isFinite(t) ? t : null;
+};
+
+/** The main trend chart. Memoized: page re-renders that leave its data alone (alerts, other panels) skip it. */
+export const TrendChart = React.memo(function TrendChart({ data, param, flags, markers, limit, forecastLabel, tickTime, exportName, exportTitle, annotations, onPick }: Props) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+  const endDrag = () => {
+    if (drag && onPick) {
+      const [a, b] = drag.from <= drag.to ? [drag.from, drag.to] : [drag.to, drag.from];
+      onPick(a, b > a ? b : undefined);
+    }
+    setDrag(null);
+  };
+  return (
+    <div ref={ref} className="mt-4 h-64 w-full relative">
+      <ChartExportButtons target={ref} name={exportName} title={exportTitle} className="absolute right-2 -top-1 z-10" />
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart
+          data={data}
+          margin={{ top: 8, right: 16, left: 8, bottom: 8 }}
+          className={onPick ? "cursor-crosshair" : undefined}
+          onMouseDown={onPick ? (st) => { const t = labelTs(st); if (t !== null) setDrag({ from: t, to: t }); } : undefined}
+          onMouseMove={drag ? (st) => { const t = labelTs(st); if (t !== null) setDrag({ ...drag, to: t }); } : undefined}
+          onMouseUp={drag ? endDrag : undefined}
+          onMouseLeave={drag ? () => setDrag(null) : undefined}
+        >
+          <XAxis dataKey="ts" type="number" domain={["dataMin", "dataMax"]} tickFormatter={(t)=>tickTime(t)} />
+          <YAxis domain={['auto','auto']} tickFormatter={(v)=>v.toFixed(1)} />
+          <Tooltip
+            formatter={(v:any)=>Array.isArray(v) ? `${Number(v[0]).toFixed(2)} – ${Number(v[1]).toFixed(2)}` : Number(v).toFixed(2)}
+            labelFormatter={(l:any)=>new Date(l).toLocaleString()}
+          />
+          {forecastLabel && <>
+            <ReferenceLine y={limit.warn} stroke="#eab308" strokeDasharray="2 4" />
+            <ReferenceLine y={limit.crit} stroke="#ef4444" strokeDasharray="2 4" />
+            <Area type="monotone" dataKey="band" name="forecast band" stroke="none" fill="#0ea5e9" fillOpacity={0.12} isAnimationActive={false} />
+            <Line type="monotone" dataKey="forecast" name="forecast" stroke="#0ea5e9" strokeDasharray="6 4" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </>}
+          <Line type="monotone" dataKey={param} strokeWidth={2} dot={qcDot(flags, param)} isAnimationActive={false} />
+          {sampleDots(markers ?? [])}
+          {annotationMarks(annotations ?? [])}
+          {drag && drag.to !== drag.from && <ReferenceArea x1={drag.from} x2={drag.to} fill="#0ea5e9" fillOpacity={0.15} />}
+        </ComposedChart>
+      </ResponsiveContainer>
+      <div className="absolute left-16 -top-1 flex items-center gap-3">
+        <QcLegend />
+        {forecastLabel && <span className="text-xs opacity-70">{forecastLabel}</span>}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,23 @@
+import * as React from 'react'
+type Props = { open: boolean, onOpenChange: (v:boolean)=>void, title: string, children: React.ReactNode, className?: string }
+export function Dialog({ open, onOpenChange, title, children, className='' }: Props) {
+  React.useEffect(() => {
+    if (!open) return
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onOpenChange(false) }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [open, onOpenChange])
+  if (!open) return null
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-auto bg-slate-900/40 p-4" onClick={()=>onOpenChange(false)}>
+      <div role="dialog" aria-modal="true" aria-label={title} onClick={(e)=>e.stopPropagation()}
+        className={`mt-12 w-full max-w-3xl rounded-2xl border border-slate-200 bg-white shadow-lg ${className}`}>
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h2 className="font-semibold">{title}</h2>
+          <button onClick={()=>onOpenChange(false)} aria-label="Close" className="h-8 w-8 rounded-lg text-lg hover:bg-slate-100">×</button>
+        </div>
+        <div className="p-4">{children}</div>
+      </div>
+    </div>
+  )
+}
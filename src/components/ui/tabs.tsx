@@ -4,7 +4,7 @@ export function Tabs({ value, onValueChange, children }: Props) {
   return <div data-value={value}>{children}</div>
 }
 export function TabsList({ children }: { children: React.ReactNode }) {
-  return <div className="inline-flex rounded-2xl border bg-white p-1">{children}</div>
+  return <div className="inline-flex flex-wrap rounded-2xl border bg-white p-1">{children}</div>
 }
 export function TabsTrigger({ value, activeValue, onClick, children }:{ value:string, activeValue:string, onClick:()=>void, children:React.ReactNode }) {
   const active = value===activeValue
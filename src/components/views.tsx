@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Chips } from "@/components/chips";
+import { Check, Link2 } from "lucide-react";
+import type { Site } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META } from "@/lib/types";
+import { rangeLabel } from "@/lib/time-range";
+import { fmtdatetime } from "@/lib/format";
+import { DEFAULT_LAYOUT, LAYOUT_SLOTS, orderedKeys, type DashboardLayout, type DashboardView } from "@/lib/views";
+
+type SwitcherProps = {
+  views: DashboardView[];
+  currentId: string;
+  onApply: (id: string) => void;
+  onSave: (name: string) => void;
+  /** Link to what is on screen, for the clipboard. */
+  shareLink: () => string;
+};
+
+/** Header controls: switch saved views, save the current one, copy a link to it. */
+export function ViewSwitcher({ views, currentId, onApply, onSave, shareLink }: SwitcherProps) {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState("");
+  const [copied, setCopied] = useState(false);
+  const current = views.find(v => v.id === currentId);
+
+  function save() {
+    if (!name.trim()) return;
+    onSave(name);
+    setNaming(false);
+  }
+
+  async function copy() {
+    const link = shareLink();
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch {
+      window.prompt("Copy this link", link);
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {naming ? (
+        <>
+          <Input className="h-9 w-40" autoFocus placeholder="View name" value={name} onChange={e => setName(e.target.value)}
+            onKeyDown={e => { if (e.key === "Enter") save(); if (e.key === "Escape") setNaming(false); }} />
+          <Button size="sm" disabled={!name.trim()} onClick={save}>Save</Button>
+          <Button size="sm" variant="outline" onClick={() => setNaming(false)}>Cancel</Button>
+        </>
+      ) : (
+        <>
+          {views.length > 0 && (
+            <Select value={current ? current.id : ""} onValueChange={onApply} className="w-44"
+              options={[{ value: "", label: "All sites (no view)" }, ...views.map(v => ({ value: v.id, label: v.name }))]} />
+          )}
+          <Button size="sm" variant="outline" onClick={() => { setName(current?.name ?? ""); setNaming(true); }}>Save view</Button>
+        </>
+      )}
+      <Button size="sm" variant="outline" onClick={copy} title="Copy a link to this site, parameter, range and tab">
+        {copied ? <Check className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}{copied ? "Copied" : "Link"}
+      </Button>
+    </div>
+  );
+}
+
+type PanelProps = {
+  layout: DashboardLayout;
+  onLayoutChange: (next: DashboardLayout) => void;
+  views: DashboardView[];
+  onViewsChange: (next: DashboardView[]) => void;
+  currentId: string;
+  onApply: (id: string) => void;
+  sites: Site[];
+};
+
+/** Parameter choice for the overview, and the list of saved views. */
+export function ViewsPanel({ layout, onLayoutChange, views, onViewsChange, currentId, onApply, sites }: PanelProps) {
+  const siteName = (id: string) => sites.find(s => s.id === id)?.name ?? id;
+  return (
+    <Card className="rounded-2xl mt-3">
+      <CardContent className="p-4 space-y-4 text-sm">
+        <div className="opacity-80">
+          Choose the parameters shown above. A saved view keeps this choice together with the sites listed, the active
+          site, trend parameter, time range and comparison settings; switch views from the header. The address bar always
+          links to the current site, parameter, range, tab and search.
+        </div>
+        {LAYOUT_SLOTS.map(slot => (
+          <div key={slot.key} className="space-y-1">
+            <div className="text-xs font-medium">{slot.label}</div>
+            <Chips items={PARAM_KEYS.map(k => ({ value: k, label: PARAM_META[k].label }))} selected={layout[slot.key]}
+              onChange={keys => onLayoutChange({ ...layout, [slot.key]: orderedKeys(keys) })} />
+          </div>
+        ))}
+        <Button size="sm" variant="outline" onClick={() => onLayoutChange(DEFAULT_LAYOUT)}>Reset to default</Button>
+
+        {!views.length ? (
+          <div className="opacity-60">No saved views. Use “Save view” in the header to keep the current arrangement.</div>
+        ) : (
+          <table className="w-full">
+            <thead className="text-xs text-left opacity-70">
+              <tr><th className="py-1 pr-2">View</th><th className="pr-2">Sites</th><th className="pr-2">Chart</th><th className="pr-2">Saved</th><th /></tr>
+            </thead>
+            <tbody>
+              {views.map(v => (
+                <tr key={v.id} className={`border-t ${v.id === currentId ? "bg-sky-50" : ""}`}>
+                  <td className="py-1 pr-2 font-medium">{v.name}</td>
+                  <td className="pr-2">
+                    {v.siteIds.length ? `${v.siteIds.length} sites` : "All sites"}
+                    <div className="text-xs opacity-70">{siteName(v.activeSite)}</div>
+                  </td>
+                  <td className="pr-2">
+                    {PARAM_META[v.param]?.label ?? v.param} · {rangeLabel(v.range)}
+                    {v.compare && <div className="text-xs opacity-70">comparing {v.compareSites.length} sites{v.normalize ? ", normalized" : ""}</div>}
+                  </td>
+                  <td className="pr-2 whitespace-nowrap">{fmtdatetime(v.savedAt)}</td>
+                  <td className="text-right whitespace-nowrap">
+                    <Button size="sm" variant="outline" onClick={() => onApply(v.id)}>Open</Button>{" "}
+                    <Button size="sm" variant="outline" onClick={() => onViewsChange(views.filter(x => x.id !== v.id))}>Delete</Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
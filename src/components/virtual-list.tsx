@@ -0,0 +1,33 @@
+import React, { useState } from "react";
+
+type Props<T> = {
+  items: T[];
+  /** Every row is this tall (px), gap included; rows are absolutely positioned. */
+  rowHeight: number;
+  /** The list shrinks to fit fewer rows than this height holds. */
+  maxHeight: number;
+  getKey: (item: T) => string;
+  children: (item: T) => React.ReactNode;
+  /** Rows rendered beyond each edge of the viewport, so fast scrolling does not flash blanks. */
+  overscan?: number;
+  className?: string;
+};
+
+/** Scrollable list that only mounts the rows in view, for lists of hundreds of sites. */
+export function VirtualList<T>({ items, rowHeight, maxHeight, getKey, children, overscan = 4, className = "" }: Props<T>) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const height = Math.min(maxHeight, items.length * rowHeight);
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(items.length, Math.ceil((scrollTop + height) / rowHeight) + overscan);
+  return (
+    <div className={`overflow-auto ${className}`} style={{ height }} onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+      <div className="relative" style={{ height: items.length * rowHeight }}>
+        {items.slice(first, last).map((item, i) => (
+          <div key={getKey(item)} className="absolute inset-x-0" style={{ top: (first + i) * rowHeight, height: rowHeight }}>
+            {children(item)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useCallback, useState, type Dispatch, type SetStateAction } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  acknowledgeAlert, DEFAULT_RULES, EMPTY_ALERT_STATE, evaluateInstruments, evaluateSite, snoozeAlert,
+  type AlertEngineState, type AlertRuleSet, type InstrumentCheck,
+} from "@/lib/alert-engine";
+import type { ThresholdSet } from "@/lib/thresholds";
+import type { Reading } from "@/lib/types";
+import { PARAM_KEYS } from "@/lib/types";
+
+export function useAlertRules() {
+  // Fill in parameters missing from older saved rule sets.
+  return usePersistentState<AlertRuleSet>("m2m.alertRules.v1", DEFAULT_RULES, stored => {
+    const out = { ...DEFAULT_RULES };
+    for (const k of PARAM_KEYS) if (stored?.[k]) out[k] = stored[k];
+    return out;
+  });
+}
+
+/** Alert lifecycles and history, persisted so acks and the log survive a reload. */
+export function useAlertEngine() {
+  const [state, setState] = usePersistentState<AlertEngineState>("m2m.alerts.v1", EMPTY_ALERT_STATE, stored =>
+    stored && stored.active && Array.isArray(stored.log) ? stored : EMPTY_ALERT_STATE);
+  return { state, ...useEngineActions(setState) };
+}
+
+/**
+ * The same engine in memory only, for benchmark runs: synthetic sites cost what
+ * alerting real ones would, but nothing is stored, notified or proposed.
+ */
+export function useScratchAlertEngine() {
+  const [state, setState] = useState<AlertEngineState>(EMPTY_ALERT_STATE);
+  const reset = useCallback(() => setState(EMPTY_ALERT_STATE), []);
+  return { state, ...useEngineActions(setState), reset };
+}
+
+function useEngineActions(setState: Dispatch<SetStateAction<AlertEngineState>>) {
+  /** Evaluate several sites in one state update. */
+  const evaluate = useCallback((sites: { siteId: string; rows: Reading[]; limits: ThresholdSet }[], rules: AlertRuleSet) => {
+    if (!sites.length) return;
+    setState(s => sites.reduce((acc, { siteId, rows, limits }) => evaluateSite(acc, siteId, rows, limits, rules), s));
+  }, [setState]);
+  /** Evaluate instrument health for several sites at wall-clock `now`. */
+  const evaluateHealth = useCallback((sites: { siteId: string; checks: InstrumentCheck[] }[], now: number) => {
+    if (!sites.length) return;
+    setState(s => sites.reduce((acc, { siteId, checks }) => evaluateInstruments(acc, siteId, checks, now), s));
+  }, [setState]);
+  const acknowledge = useCallback((alertId: string) => setState(s => acknowledgeAlert(s, alertId, Date.now())), [setState]);
+  const snooze = useCallback((alertId: string, ms: number) => setState(s => snoozeAlert(s, alertId, Date.now(), ms)), [setState]);
+  const clearHistory = useCallback(() => setState(s => ({ ...s, log: [] })), [setState]);
+
+  return { evaluate, evaluateHealth, acknowledge, snooze, clearHistory };
+}
@@ -0,0 +1,16 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { ANNOTATION_CATEGORIES, type Annotation } from "@/lib/annotations";
+
+/** Drops stored entries that no longer parse, so a bad edit cannot break the charts. */
+function revive(stored: Annotation[]): Annotation[] {
+  if (!Array.isArray(stored)) return [];
+  return stored.filter(a =>
+    a && typeof a.id === "string" && typeof a.siteId === "string" && Number.isFinite(a.start)
+    && (a.end === undefined || Number.isFinite(a.end)) && typeof a.note === "string"
+    && ANNOTATION_CATEGORIES.some(c => c.value === a.category));
+}
+
+/** Field events (storms, maintenance, harvests…) per site, persisted to localStorage. */
+export function useAnnotations() {
+  return usePersistentState<Annotation[]>("m2m.annotations.v1", [], revive);
+}
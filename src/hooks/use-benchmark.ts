@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import type { Site } from "@/lib/types";
+import { benchmarkSites, frameStats, WARMUP_MS, type BenchmarkOptions, type BenchmarkResult } from "@/lib/benchmark";
+import { createBenchmarkSource, type BenchmarkSource } from "@/lib/telemetry";
+
+export type BenchmarkRun = { options: BenchmarkOptions; sites: Site[]; source: BenchmarkSource; startedAt: number };
+
+export type BenchmarkProgress = { elapsedMs: number; readings: number; fps: number };
+
+/** Past runs kept for comparison. */
+const KEEP = 20;
+
+/**
+ * A timed benchmark run: while `run` is set the dashboard streams its synthetic
+ * sites instead of the configured ones. Frame durations are sampled with
+ * requestAnimationFrame for the whole run and summarized when it ends.
+ */
+export function useBenchmark() {
+  const [run, setRun] = useState<BenchmarkRun | null>(null);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const [results, setResults] = usePersistentState<BenchmarkResult[]>("m2m.benchmarks.v1", [], stored => Array.isArray(stored) ? stored : []);
+
+  const start = useCallback((options: BenchmarkOptions) => {
+    const sites = benchmarkSites(options.sites);
+    const source = createBenchmarkSource(sites.map(s => s.id), options);
+    setRun({ options, sites, source, startedAt: Date.now() });
+  }, []);
+  const stop = useCallback(() => setRun(null), []);
+  const clearResults = useCallback(() => setResults([]), [setResults]);
+
+  useEffect(() => {
+    if (!run) return;
+    const deltas: number[] = [];
+    const t0 = performance.now();
+    let prev = t0, frame = 0, counted = 0;
+    const loop = (t: number) => {
+      if (t - t0 > WARMUP_MS) {
+        if (!counted) counted = run.source.benchmark.readings();
+        deltas.push(t - prev);
+      }
+      prev = t;
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    const finish = () => {
+      const elapsedS = (performance.now() - t0 - WARMUP_MS) / 1000;
+      const readings = run.source.benchmark.readings() - counted;
+      setResults(prev => [...prev, {
+        at: run.startedAt, options: run.options, readings,
+        readingsPerS: elapsedS > 0 ? readings / elapsedS : 0,
+        frames: frameStats(deltas),
+      }].slice(-KEEP));
+      setRun(null);
+    };
+    const ticker = window.setInterval(() => {
+      const recent = deltas.slice(-60);
+      const ms = recent.reduce((a, b) => a + b, 0);
+      setProgress({ elapsedMs: performance.now() - t0, readings: run.source.benchmark.readings(), fps: ms > 0 ? recent.length / (ms / 1000) : 0 });
+    }, 500);
+    const timeout = window.setTimeout(finish, run.options.durationS * 1000 + WARMUP_MS);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.clearInterval(ticker);
+      window.clearTimeout(timeout);
+      setProgress(null);
+    };
+  }, [run, setResults]);
+
+  return { run, progress, results, start, stop, clearResults };
+}
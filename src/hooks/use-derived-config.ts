@@ -0,0 +1,11 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { DEFAULT_DERIVED, type DerivedConfig } from "@/lib/derived";
+
+/** Alkalinity fit and thermal stress settings for derived parameters, persisted to localStorage. */
+export function useDerivedConfig() {
+  return usePersistentState<DerivedConfig>("m2m.derived.v1", DEFAULT_DERIVED, stored => ({
+    alkalinity: { ...DEFAULT_DERIVED.alkalinity, ...stored?.alkalinity },
+    // Known fields only, so settings stored by older versions do not linger.
+    thermal: { thresholdC: stored?.thermal?.thresholdC ?? DEFAULT_DERIVED.thermal.thresholdC, resetAt: stored?.thermal?.resetAt ?? DEFAULT_DERIVED.thermal.resetAt },
+  }));
+}
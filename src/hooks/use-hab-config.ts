@@ -0,0 +1,14 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { DEFAULT_HAB_RISK, type HabRiskConfig } from "@/lib/hab-risk";
+import { DEFAULT_FORECAST, type ForecastOptions } from "@/lib/forecast";
+
+/** HAB risk weights and index cut-offs, persisted to localStorage. */
+export function useHabRiskConfig() {
+  return usePersistentState<HabRiskConfig>("m2m.habRisk.v1", DEFAULT_HAB_RISK, stored =>
+    stored?.weights ? { ...DEFAULT_HAB_RISK, ...stored, weights: { ...DEFAULT_HAB_RISK.weights, ...stored.weights } } : DEFAULT_HAB_RISK);
+}
+
+/** Forecast smoothing and horizon, persisted to localStorage. */
+export function useForecastOptions() {
+  return usePersistentState<ForecastOptions>("m2m.forecast.v1", DEFAULT_FORECAST, stored => ({ ...DEFAULT_FORECAST, ...stored }));
+}
@@ -0,0 +1,33 @@
+import { useCallback } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  changeStatus, DEFAULT_REOPEN, dismissProposal, EMPTY_HARVEST_STATE, proposeClosures, statusChangeError,
+  type HarvestState, type ReopenCriteria, type StatusChange,
+} from "@/lib/harvest";
+import type { AlertEvent } from "@/lib/alert-engine";
+
+export function useReopenCriteria() {
+  return usePersistentState<ReopenCriteria>("m2m.reopenCriteria.v1", DEFAULT_REOPEN, stored => ({ ...DEFAULT_REOPEN, ...stored }));
+}
+
+/**
+ * Per-site harvest status, pending closure proposals and the audit log, persisted to localStorage.
+ * `change` and `dismiss` throw before touching state when the entry would be refused.
+ */
+export function useHarvest() {
+  const [state, setState] = usePersistentState<HarvestState>("m2m.harvest.v1", EMPTY_HARVEST_STATE, stored =>
+    stored && stored.status && Array.isArray(stored.log) ? { ...EMPTY_HARVEST_STATE, ...stored } : EMPTY_HARVEST_STATE);
+
+  const change = useCallback((c: StatusChange) => {
+    const error = statusChangeError(state, c);
+    if (error) throw new Error(error);
+    setState(s => changeStatus(s, c, Date.now()));
+  }, [state, setState]);
+  const propose = useCallback((alerts: AlertEvent[]) => setState(s => proposeClosures(s, alerts, Date.now())), [setState]);
+  const dismiss = useCallback((alertId: string, reason: string, author: string) => {
+    if (!reason.trim() || !author.trim()) throw new Error("A reason and author are required");
+    setState(s => dismissProposal(s, alertId, reason, author, Date.now()));
+  }, [setState]);
+
+  return { state, change, propose, dismiss };
+}
@@ -0,0 +1,12 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { DEFAULT_HEALTH_RULES, defaultInstruments, type HealthRules, type Instrument } from "@/lib/instruments";
+
+/** Instrument registry, seeded with a sonde and bio sampler per site on first run. */
+export function useInstruments(siteIds: string[]) {
+  return usePersistentState<Instrument[]>("m2m.instruments.v1", defaultInstruments(siteIds), stored =>
+    Array.isArray(stored) ? stored : defaultInstruments(siteIds));
+}
+
+export function useHealthRules() {
+  return usePersistentState<HealthRules>("m2m.healthRules.v1", DEFAULT_HEALTH_RULES, stored => ({ ...DEFAULT_HEALTH_RULES, ...stored }));
+}
@@ -0,0 +1,31 @@
+import { useMemo, useRef, useSyncExternalStore } from "react";
+import type { Reading } from "@/lib/types";
+import type { LiveSeries, LiveStore } from "@/lib/live-store";
+
+const EMPTY: Reading[] = [];
+
+/** One site's live rows. Re-renders only when that site's rows change, not on every flush. */
+export function useSiteSeries(store: LiveStore, siteId: string | undefined): Reading[] {
+  return useSyncExternalStore(store.subscribe, () => (siteId && store.snapshot()[siteId]) || EMPTY);
+}
+
+/** Newest live reading for a site, e.g. for a list row, tile or tooltip. */
+export function useLatestReading(store: LiveStore, siteId: string | undefined): Reading | undefined {
+  return useSyncExternalStore(store.subscribe, () => {
+    const rows = siteId ? store.snapshot()[siteId] : undefined;
+    return rows?.[rows.length - 1];
+  });
+}
+
+/** Live rows for several sites; the object changes only when one of those sites' rows do. */
+export function useSitesSeries(store: LiveStore, siteIds: string[]): LiveSeries {
+  const key = siteIds.join("|");
+  const ids = useMemo(() => [...new Set(key.split("|").filter(Boolean))], [key]);
+  const cache = useRef<{ ids: string[]; value: LiveSeries }>();
+  return useSyncExternalStore(store.subscribe, () => {
+    const snap = store.snapshot(), prev = cache.current;
+    if (prev?.ids === ids && ids.every(id => prev.value[id] === (snap[id] ?? EMPTY))) return prev.value;
+    cache.current = { ids, value: Object.fromEntries(ids.map(id => [id, snap[id] ?? EMPTY])) };
+    return cache.current.value;
+  });
+}
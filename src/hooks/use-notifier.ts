@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import type { AlertLogEntry } from "@/lib/alert-engine";
+import {
+  DEFAULT_CHANNELS, isNotifiable, notificationText, route, subjectOf, webhookPayload,
+  type Delivery, type NotificationChannel,
+} from "@/lib/notify";
+import { playAlarm, postWebhook, showBrowserNotification } from "@/lib/notify-delivery";
+
+const DELIVERY_LIMIT = 200;
+/** Reasons worth a log line; routing misses (site, level) are silent. */
+const SUPPRESSIONS = ["quiet hours", "cooldown", "rate limited"];
+
+function send(channel: NotificationChannel, entry: AlertLogEntry, siteName: string, now: number): Promise<void> {
+  const { title, body } = notificationText(entry, siteName);
+  switch (channel.type) {
+    case "browser": return showBrowserNotification(title, body, subjectOf(entry));
+    case "sound": return playAlarm();
+    case "webhook":
+      if (!channel.url) return Promise.reject(new Error("No webhook URL"));
+      return postWebhook(channel.url, webhookPayload(entry, siteName, now));
+  }
+}
+
+/**
+ * Watches the alert log and fans new or escalated alerts out to the configured
+ * channels. Entries already in the log at mount are history and never notify.
+ */
+export function useNotifier(log: AlertLogEntry[], siteName: (siteId: string) => string) {
+  const [channels, setChannels] = usePersistentState<NotificationChannel[]>("m2m.channels.v1", DEFAULT_CHANNELS, stored =>
+    Array.isArray(stored) ? stored : DEFAULT_CHANNELS);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  // Routing reads this synchronously so a burst of alerts sees its own deliveries.
+  const recent = useRef<Delivery[]>([]);
+  const cursor = useRef<AlertLogEntry | undefined>(log[log.length - 1]);
+  const names = useRef(siteName);
+  names.current = siteName;
+
+  const record = useCallback((d: Delivery) => {
+    recent.current = [...recent.current, d].slice(-DELIVERY_LIMIT);
+    setDeliveries(recent.current);
+  }, []);
+
+  const update = useCallback((d: Delivery, patch: Partial<Delivery>) => {
+    recent.current = recent.current.map(x => x === d ? { ...x, ...patch } : x);
+    setDeliveries(recent.current);
+  }, []);
+
+  const dispatch = useCallback((channel: NotificationChannel, entry: AlertLogEntry, now: number) => {
+    const d: Delivery = { ts: now, channelId: channel.id, alertId: entry.alertId, subject: subjectOf(entry), status: "sent" };
+    record(d);
+    send(channel, entry, names.current(entry.siteId), now).catch(e => update(d, { status: "failed", detail: (e as Error).message }));
+  }, [record, update]);
+
+  useEffect(() => {
+    const last = cursor.current;
+    let start = last ? log.lastIndexOf(last) + 1 : 0;
+    // The log was trimmed or cleared past our cursor: fall back to time.
+    if (last && start === 0) {
+      start = log.findIndex(e => e.ts > last.ts);
+      if (start < 0) start = log.length;
+    }
+    cursor.current = log[log.length - 1];
+    const fresh = log.slice(start).filter(isNotifiable);
+    if (!fresh.length) return;
+    const now = Date.now();
+    for (const entry of fresh) {
+      for (const channel of channels) {
+        const decision = route(channel, entry, recent.current, now);
+        if (!("reason" in decision)) dispatch(channel, entry, now);
+        else if (channel.enabled && SUPPRESSIONS.includes(decision.reason)) {
+          record({ ts: now, channelId: channel.id, alertId: entry.alertId, subject: subjectOf(entry), status: "suppressed", detail: decision.reason });
+        }
+      }
+    }
+  }, [log, channels, dispatch, record]);
+
+  /** Send a sample crit alert through one channel, bypassing routing. */
+  const test = useCallback((channel: NotificationChannel, siteId: string) => {
+    const now = Date.now();
+    dispatch(channel, {
+      ts: now, alertId: `test:${now}`, siteId, key: "do", kind: "threshold", action: "opened", level: "crit", value: 3.2,
+    }, now);
+  }, [dispatch]);
+
+  return { channels, setChannels, deliveries, test };
+}
@@ -0,0 +1,9 @@
+import { useEffect, useState } from "react";
+import { loadJSON, saveJSON } from "@/lib/storage";
+
+/** `useState` backed by a localStorage key. `revive` can repair or migrate what was stored. */
+export function usePersistentState<T>(key: string, fallback: T, revive: (stored: T) => T = s => s) {
+  const [value, setValue] = useState<T>(() => revive(loadJSON<T>(key, fallback)));
+  useEffect(() => saveJSON(key, value), [key, value]);
+  return [value, setValue] as const;
+}
@@ -0,0 +1,16 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { DEFAULT_QC, type QcConfig } from "@/lib/qc";
+import { MEASURED_KEYS } from "@/lib/types";
+
+function revive(stored: QcConfig): QcConfig {
+  if (!stored?.params || !stored.enabled) return DEFAULT_QC;
+  // Fill in parameters and tests added since the config was saved.
+  const params = { ...DEFAULT_QC.params };
+  for (const k of MEASURED_KEYS) if (stored.params[k]) params[k] = { ...DEFAULT_QC.params[k], ...stored.params[k] };
+  return { ...DEFAULT_QC, ...stored, enabled: { ...DEFAULT_QC.enabled, ...stored.enabled }, params };
+}
+
+/** QC test configuration, persisted to localStorage. */
+export function useQcConfig() {
+  return usePersistentState<QcConfig>("m2m.qc.v1", DEFAULT_QC, revive);
+}
@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Reading } from "@/lib/types";
+import type { TelemetrySource } from "@/lib/telemetry";
+import { LIVE_WINDOW_MS, loadHistory, type DeriveOptions } from "@/lib/history";
+import { resolveRange, type TimeRange } from "@/lib/time-range";
+import type { LiveStore } from "@/lib/live-store";
+import { useSitesSeries } from "@/hooks/use-live-series";
+
+type Bounds = { from: number; to: number; live: boolean };
+
+const EMPTY: Reading[] = [];
+
+/** `rows` without readings before `from` and with the readings of `live` newer than its last one appended. */
+function extendRows(rows: Reading[], live: Reading[], from: number) {
+  const last = rows[rows.length - 1]?.ts ?? -Infinity;
+  let tail = live.length;
+  while (tail > 0 && live[tail - 1].ts > last) tail--;
+  let head = 0;
+  while (head < rows.length && rows[head].ts < from) head++;
+  if (!head && tail === live.length) return rows;
+  return [...rows.slice(head), ...live.slice(tail)];
+}
+
+/**
+ * Full-resolution readings per site for the selected range. Short preset ranges
+ * are cut from the live buffer; longer or custom ranges come from IndexedDB via
+ * `loadHistory`. Preset ranges follow live data: the window ends at the newest
+ * reading, each new one is appended and what falls out of the window is dropped,
+ * without re-merging the stored rows. A site's rows keep their identity until
+ * its own live or stored data changes, and only these sites' readings re-render.
+ */
+export function useRangeData(
+  source: TelemetrySource,
+  siteIds: string[],
+  range: TimeRange,
+  live: LiveStore,
+  /** For stored readings without derived values; changing it does not reload. */
+  derive: DeriveOptions,
+  /** Bump to reload stored history, e.g. after an import. */
+  version = 0,
+) {
+  const series = useSitesSeries(live, siteIds);
+  const deriveRef = useRef(derive);
+  deriveRef.current = derive;
+  // What to load; `bounds` below is what is shown, and moves on with live data.
+  const loaded = useMemo(() => resolveRange(range, Date.now()), [range]);
+  const needsHistory = !loaded.live || loaded.to - loaded.from > LIVE_WINDOW_MS;
+  const [stored, setStored] = useState<Record<string, Reading[]>>({});
+  const idsKey = siteIds.join("|");
+
+  useEffect(() => {
+    setStored({});
+    if (!needsHistory) return;
+    let cancelled = false;
+    for (const id of idsKey.split("|").filter(Boolean)) {
+      loadHistory(source, id, loaded.from, loaded.to, deriveRef.current)
+        .catch(() => [] as Reading[])
+        .then(rows => { if (!cancelled) setStored(prev => ({ ...prev, [id]: rows })); });
+    }
+    return () => { cancelled = true; };
+  }, [source, idsKey, loaded, needsHistory, version]);
+
+  // Preset windows end at the newest reading shown (the simulated clock may run behind or ahead of the wall).
+  const lastTs = siteIds.map(id => series[id]?.[series[id].length - 1]?.ts).filter((t): t is number => t !== undefined);
+  const newest = loaded.live && lastTs.length ? Math.max(...lastTs) : loaded.to;
+  const bounds = useMemo<Bounds>(
+    () => loaded.live ? { from: newest - (loaded.to - loaded.from), to: newest, live: true } : loaded,
+    [loaded, newest],
+  );
+
+  const cache = useRef(new Map<string, { saved: Reading[]; loaded: Bounds; rows: Reading[] }>());
+  const rows = useMemo(() => {
+    const out: Record<string, Reading[]> = {};
+    for (const id of siteIds) {
+      const live = series[id] ?? EMPTY, saved = stored[id] ?? EMPTY;
+      const hit = cache.current.get(id);
+      if (!needsHistory) out[id] = !live.length || live[0].ts >= bounds.from ? live : live.filter(r => r.ts >= bounds.from);
+      else if (!bounds.live) out[id] = saved;
+      // Same stored rows as last time: only the new live readings and the moved start to apply.
+      else out[id] = extendRows(hit && hit.saved === saved && hit.loaded === loaded ? hit.rows : saved, live, bounds.from);
+      cache.current.set(id, { saved, loaded, rows: out[id] });
+    }
+    return out;
+  }, [siteIds, series, stored, loaded, bounds, needsHistory]);
+
+  const loading = needsHistory && siteIds.some(id => !stored[id]);
+  return { rows, bounds, loading };
+}
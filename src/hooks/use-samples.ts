@@ -0,0 +1,7 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import type { LabSample } from "@/lib/samples";
+
+/** Lab samples and their custody trail, persisted to localStorage. */
+export function useSamples() {
+  return usePersistentState<LabSample[]>("m2m.samples.v1", [], stored => Array.isArray(stored) ? stored : []);
+}
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { DEFAULT_SIMULATION, type SimClock, type SimulationState } from "@/lib/simulator";
+import { isSimulatorSource, type TelemetrySource } from "@/lib/telemetry";
+
+/**
+ * A clock left running faster than real time would have raced ahead while the
+ * app was closed (a day at 360× is about a year). Such a clock comes back
+ * paused where it was last anchored, at the same speed; press Play to go on.
+ */
+function reviveClock(stored: Partial<SimClock> | undefined): SimClock {
+  const clock = { ...DEFAULT_SIMULATION.clock, ...stored };
+  if (clock.paused || clock.speed === 1) return clock;
+  return { ...clock, anchorWall: Date.now(), paused: true };
+}
+
+/**
+ * Seed, simulated clock and scenarios, persisted to localStorage and pushed into
+ * the simulator source. `available` is false for real telemetry sources.
+ */
+export function useSimulation(source: TelemetrySource) {
+  const [state, setState] = usePersistentState<SimulationState>("m2m.simulation.v1", DEFAULT_SIMULATION, stored => ({
+    seed: Number.isFinite(stored?.seed) ? stored.seed : DEFAULT_SIMULATION.seed,
+    clock: reviveClock(stored?.clock),
+    scenarios: Array.isArray(stored?.scenarios) ? stored.scenarios : [],
+  }));
+  const available = isSimulatorSource(source);
+
+  useEffect(() => {
+    if (isSimulatorSource(source)) source.simulation.set(state);
+  }, [source, state]);
+
+  return { available, state, setState };
+}
@@ -0,0 +1,8 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { DEFAULT_SITE_CONFIG, activeSites, type SiteConfig } from "@/lib/sites";
+
+/** Sites and regions; falls back to the demo sites if storage is empty or every site was archived. */
+export function useSiteConfig() {
+  return usePersistentState<SiteConfig>("m2m.sites.v1", DEFAULT_SITE_CONFIG, stored =>
+    stored && Array.isArray(stored.sites) && Array.isArray(stored.regions) && activeSites(stored).length ? stored : DEFAULT_SITE_CONFIG);
+}
@@ -0,0 +1,16 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { DEFAULT_CONFIG, DEFAULT_PROFILE_ID, type ThresholdConfig } from "@/lib/thresholds";
+
+function revive(stored: ThresholdConfig): ThresholdConfig {
+  if (!stored || !Array.isArray(stored.profiles)) return DEFAULT_CONFIG;
+  // The default profile must always exist; everything else resolves through it.
+  if (!stored.profiles.some(p => p.id === DEFAULT_PROFILE_ID)) {
+    return { ...stored, profiles: [DEFAULT_CONFIG.profiles[0], ...stored.profiles] };
+  }
+  return stored;
+}
+
+/** Threshold profiles and site assignments, persisted to localStorage on every change. */
+export function useThresholdConfig() {
+  return usePersistentState<ThresholdConfig>("m2m.thresholds.v1", DEFAULT_CONFIG, revive);
+}
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+import { formatUrlState, parseUrlState, type UrlState } from "@/lib/url-state";
+
+/**
+ * Mirrors `state` into the query string and hands it back on browser
+ * back/forward. Each change is a history entry, except edits to the search text
+ * (one per keystroke would bury the rest) and the first sync on load.
+ */
+export function useUrlState(state: UrlState, apply: (state: UrlState) => void) {
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+  // After loading or navigating, the next sync only fills in defaults: no new entry.
+  const replaceNext = useRef(true);
+  const qs = formatUrlState(state);
+  const current = useRef(qs);
+  current.current = qs;
+
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    if (qs === search) {
+      replaceNext.current = false;
+      return;
+    }
+    const onlyQuery = formatUrlState({ ...parseUrlState(search), q: parseUrlState(qs).q }) === qs;
+    const url = `${pathname}${qs}${hash}`;
+    if (replaceNext.current || onlyQuery) window.history.replaceState(null, "", url);
+    else window.history.pushState(null, "", url);
+    replaceNext.current = false;
+  }, [qs]);
+
+  useEffect(() => {
+    const onPop = () => {
+      if (window.location.search !== current.current) replaceNext.current = true;
+      applyRef.current(parseUrlState(window.location.search));
+    };
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
+}
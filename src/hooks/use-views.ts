@@ -0,0 +1,25 @@
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { DEFAULT_LAYOUT, orderedKeys, type DashboardLayout, type DashboardView } from "@/lib/views";
+
+/** Keeps stored keys that still exist; a missing list falls back to the default. */
+function reviveLayout(stored: Partial<DashboardLayout> | undefined): DashboardLayout {
+  const pick = (k: keyof DashboardLayout) => Array.isArray(stored?.[k]) ? orderedKeys(stored![k]!) : DEFAULT_LAYOUT[k];
+  return { metricKeys: pick("metricKeys"), trendKeys: pick("trendKeys"), bioKeys: pick("bioKeys") };
+}
+
+function reviveViews(stored: DashboardView[]): DashboardView[] {
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter(v => v && typeof v.id === "string" && typeof v.name === "string" && v.range && typeof v.param === "string")
+    .map(v => ({ ...v, siteIds: Array.isArray(v.siteIds) ? v.siteIds : [], compareSites: Array.isArray(v.compareSites) ? v.compareSites : [], layout: reviveLayout(v.layout) }));
+}
+
+/** Parameters shown in the latest-value cards and sparkline grids, persisted to localStorage. */
+export function useDashboardLayout() {
+  return usePersistentState<DashboardLayout>("m2m.layout.v1", DEFAULT_LAYOUT, reviveLayout);
+}
+
+/** Named dashboard views, persisted to localStorage. */
+export function useSavedViews() {
+  return usePersistentState<DashboardView[]>("m2m.views.v1", [], reviveViews);
+}
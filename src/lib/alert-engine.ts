@@ -0,0 +1,298 @@
+import type { AlertLevel, ParamKey, Reading } from "@/lib/types";
+import { PARAM_KEYS, PARAM_META } from "@/lib/types";
+import { classifyAlert, type ThresholdSet } from "@/lib/thresholds";
+
+export type AlertKind = "threshold" | "rate" | "stale" | "calibration";
+
+/** Instrument behind a "stale" or "calibration" alert, named as it was when the alert opened. */
+export type AlertInstrument = { id: string; name: string };
+
+export type AlertRule = {
+  /** Minutes a threshold breach must persist before an alert opens (0 = immediately). */
+  sustainMin: number;
+  /** How far past `warn` (in parameter units) the value must recover before the alert clears. */
+  clearMargin: number;
+  /** Rate-of-change trigger: fires when the trend over `windowMin` reaches `perHour` (negative = falling). */
+  rate?: { perHour: number; windowMin: number; level: "warn" | "crit" };
+};
+
+export type AlertRuleSet = Record<ParamKey, AlertRule>;
+
+export const DEFAULT_RULES: AlertRuleSet = {
+  temp: { sustainMin: 10, clearMargin: 0.5, rate: { perHour: 2, windowMin: 60, level: "warn" } },
+  sal:  { sustainMin: 10, clearMargin: 0.5 },
+  ph:   { sustainMin: 10, clearMargin: 0.03 },
+  do:   { sustainMin: 10, clearMargin: 0.3, rate: { perHour: -1, windowMin: 60, level: "warn" } },
+  turb: { sustainMin: 10, clearMargin: 5 },
+  chl:  { sustainMin: 10, clearMargin: 2 },
+  gene_expr: { sustainMin: 15, clearMargin: 3 },
+  methyl:    { sustainMin: 15, clearMargin: 0.02 },
+  metabo:    { sustainMin: 15, clearMargin: 3 },
+  lipid_ox:  { sustainMin: 15, clearMargin: 0.02 },
+  do_sat:     { sustainMin: 10, clearMargin: 3 },
+  omega_arag: { sustainMin: 30, clearMargin: 0.05 },
+  thermal_dh: { sustainMin: 5, clearMargin: 2 },
+};
+
+export type AlertEvent = {
+  id: string;
+  siteId: string;
+  key: ParamKey;
+  kind: AlertKind;
+  /** Highest level reached; alerts latch at their peak until cleared. */
+  level: "warn" | "crit";
+  /**
+   * Value when opened or last escalated: the reading, the rate per hour, minutes
+   * since the instrument last reported (stale) or days overdue (calibration).
+   */
+  value: number;
+  /** Set for instrument alerts; `key` is then the instrument's first parameter. */
+  instrument?: AlertInstrument;
+  openedAt: number;
+  escalatedAt?: number;
+  ackedAt?: number;
+  snoozedUntil?: number;
+  clearedAt?: number;
+};
+
+export type AlertAction = "opened" | "escalated" | "acknowledged" | "snoozed" | "cleared";
+
+export type AlertLogEntry = {
+  ts: number;
+  alertId: string;
+  siteId: string;
+  key: ParamKey;
+  kind: AlertKind;
+  action: AlertAction;
+  level: "warn" | "crit";
+  value: number;
+  instrument?: AlertInstrument;
+};
+
+export type AlertEngineState = {
+  /** Open alerts keyed by `site:param:kind`. */
+  active: Record<string, AlertEvent>;
+  /** Lifecycle transitions, newest last. */
+  log: AlertLogEntry[];
+};
+
+export const EMPTY_ALERT_STATE: AlertEngineState = { active: {}, log: [] };
+
+const LOG_LIMIT = 1000;
+const RANK: Record<AlertLevel, number> = { ok: 0, warn: 1, crit: 2 };
+
+const slotOf = (siteId: string, subject: string, kind: AlertKind) => `${siteId}:${subject}:${kind}`;
+
+type Subject = { key: ParamKey; kind: AlertKind; instrument?: AlertInstrument };
+
+/**
+ * Shared open / escalate / clear transitions for one site at time `now`.
+ * Collects log entries and copies `active` on first write.
+ */
+function createStepper(state: AlertEngineState, siteId: string, now: number) {
+  let active = state.active;
+  const entries: AlertLogEntry[] = [];
+
+  const put = (slot: string, next: AlertEvent | null, action: AlertAction, value: number) => {
+    if (active === state.active) active = { ...state.active };
+    const ref = next ?? active[slot];
+    if (next) active[slot] = next;
+    else delete active[slot];
+    entries.push({ ts: now, alertId: ref.id, siteId, key: ref.key, kind: ref.kind, action, level: ref.level, value, instrument: ref.instrument });
+  };
+
+  const step = (slot: string, subject: Subject, level: AlertLevel, value: number, clear: boolean) => {
+    const open = active[slot];
+    if (!open) {
+      if (level !== "ok") {
+        put(slot, { id: `${slot}:${now}`, siteId, ...subject, level, value, openedAt: now }, "opened", value);
+      }
+      return;
+    }
+    if (level === "crit" && open.level === "warn") {
+      // Escalation re-arms notification: a prior ack or snooze no longer applies.
+      put(slot, { ...open, level: "crit", value, escalatedAt: now, ackedAt: undefined, snoozedUntil: undefined }, "escalated", value);
+    } else if (clear) {
+      put(slot, null, "cleared", value);
+    }
+  };
+
+  const result = (): AlertEngineState =>
+    entries.length ? { active, log: [...state.log, ...entries].slice(-LOG_LIMIT) } : state;
+
+  return { step, result, active: () => active };
+}
+
+/**
+ * Lowest level held by every reading in the trailing `sustainMs` window; "ok" if the series is shorter than the window.
+ * Missing (or QC-masked) values neither break nor satisfy the window.
+ */
+function sustainedLevel(rows: Reading[], key: ParamKey, limits: ThresholdSet, sustainMs: number): AlertLevel {
+  const last = rows[rows.length - 1];
+  let level = classifyAlert(key, last[key], limits);
+  if (sustainMs <= 0 || level === "ok") return level;
+  const start = last.ts - sustainMs;
+  if (rows[0].ts > start) return "ok";
+  for (let i = rows.length - 2; i >= 0 && rows[i + 1].ts > start; i--) {
+    const v = rows[i][key];
+    if (!Number.isFinite(v)) continue;
+    const l = classifyAlert(key, v, limits);
+    if (RANK[l] < RANK[level]) level = l;
+    if (level === "ok") break;
+  }
+  return level;
+}
+
+function recovered(key: ParamKey, value: number, limits: ThresholdSet, margin: number) {
+  const { warn, dir } = limits[key];
+  return dir === "over" ? value < warn - margin : value > warn + margin;
+}
+
+/** Least-squares slope per hour over the trailing window, or null when the window is less than half covered. */
+export function ratePerHour(rows: Reading[], key: ParamKey, windowMs: number): number | null {
+  const last = rows[rows.length - 1];
+  if (!last) return null;
+  const start = last.ts - windowMs;
+  let i = rows.length - 1;
+  while (i > 0 && rows[i - 1].ts >= start) i--;
+  const win = rows.slice(i).filter(r => Number.isFinite(r[key]));
+  if (win.length < 3 || last.ts - win[0].ts < windowMs / 2) return null;
+  const t0 = win[0].ts;
+  const n = win.length;
+  let sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (const r of win) {
+    const x = (r.ts - t0) / 3600_000;
+    sx += x; sy += r[key]; sxx += x * x; sxy += x * r[key];
+  }
+  const denom = n * sxx - sx * sx;
+  return denom === 0 ? null : (n * sxy - sx * sy) / denom;
+}
+
+/**
+ * Advance the engine for one site given its latest series. Time comes from the
+ * readings themselves, so backfilled history is evaluated the same as live data.
+ * Returns the input state unchanged when nothing transitioned.
+ */
+export function evaluateSite(
+  state: AlertEngineState,
+  siteId: string,
+  rows: Reading[],
+  limits: ThresholdSet,
+  rules: AlertRuleSet,
+): AlertEngineState {
+  const last = rows[rows.length - 1];
+  if (!last) return state;
+  const { step: stepSlot, result, active } = createStepper(state, siteId, last.ts);
+  const step = (key: ParamKey, kind: AlertKind, level: AlertLevel, value: number, clear: boolean) =>
+    stepSlot(slotOf(siteId, key, kind), { key, kind }, level, value, clear);
+
+  for (const key of PARAM_KEYS) {
+    const rule = rules[key];
+    const value = last[key];
+    if (!Number.isFinite(value)) continue;
+    step(key, "threshold", sustainedLevel(rows, key, limits, rule.sustainMin * 60_000), value, recovered(key, value, limits, rule.clearMargin));
+
+    const rate = rule.rate;
+    const slope = rate && rate.perHour !== 0 ? ratePerHour(rows, key, rate.windowMin * 60_000) : null;
+    if (rate && slope !== null) {
+      const firing = rate.perHour < 0 ? slope <= rate.perHour : slope >= rate.perHour;
+      // Rate alerts clear once the trend eases to half the trigger rate.
+      const eased = rate.perHour < 0 ? slope > rate.perHour / 2 : slope < rate.perHour / 2;
+      step(key, "rate", firing ? rate.level : "ok", slope, eased);
+    } else if (active()[slotOf(siteId, key, "rate")]) {
+      step(key, "rate", "ok", slope ?? 0, true);
+    }
+  }
+
+  return result();
+}
+
+/** Health of one deployed instrument, as computed from the registry (see `instruments.ts`). */
+export type InstrumentCheck = {
+  instrument: AlertInstrument;
+  /** First parameter the instrument measures; used to focus the chart. */
+  key: ParamKey;
+  stale: { level: AlertLevel; minutes: number };
+  calibration: { level: AlertLevel; days: number };
+};
+
+/**
+ * Advance "stale" and "calibration" alerts for one site's instruments at wall-clock
+ * `now`. Alerts for instruments no longer in `checks` (removed or retrieved) clear.
+ */
+export function evaluateInstruments(state: AlertEngineState, siteId: string, checks: InstrumentCheck[], now: number): AlertEngineState {
+  const { step, result, active } = createStepper(state, siteId, now);
+  for (const c of checks) {
+    const subject = { key: c.key, instrument: c.instrument };
+    step(slotOf(siteId, c.instrument.id, "stale"), { ...subject, kind: "stale" }, c.stale.level, c.stale.minutes, c.stale.level === "ok");
+    step(slotOf(siteId, c.instrument.id, "calibration"), { ...subject, kind: "calibration" }, c.calibration.level, c.calibration.days, c.calibration.level === "ok");
+  }
+  const present = new Set(checks.map(c => c.instrument.id));
+  for (const [slot, a] of Object.entries(active())) {
+    if (a.siteId === siteId && a.instrument && !present.has(a.instrument.id)) step(slot, a, "ok", a.value, true);
+  }
+  return result();
+}
+
+function annotate(state: AlertEngineState, alertId: string, ts: number, action: AlertAction, patch: Partial<AlertEvent>): AlertEngineState {
+  const slot = Object.keys(state.active).find(k => state.active[k].id === alertId);
+  if (!slot) return state;
+  const alert = { ...state.active[slot], ...patch };
+  const entry: AlertLogEntry = { ts, alertId, siteId: alert.siteId, key: alert.key, kind: alert.kind, action, level: alert.level, value: alert.value, instrument: alert.instrument };
+  return { active: { ...state.active, [slot]: alert }, log: [...state.log, entry].slice(-LOG_LIMIT) };
+}
+
+export function acknowledgeAlert(state: AlertEngineState, alertId: string, ts: number) {
+  return annotate(state, alertId, ts, "acknowledged", { ackedAt: ts });
+}
+
+export function snoozeAlert(state: AlertEngineState, alertId: string, ts: number, durationMs: number) {
+  return annotate(state, alertId, ts, "snoozed", { snoozedUntil: ts + durationMs });
+}
+
+export const isSnoozed = (a: AlertEvent, now: number) => a.snoozedUntil !== undefined && a.snoozedUntil > now;
+
+/** Open alerts for one site, crit first, then oldest first. */
+export function activeAlertsFor(state: AlertEngineState, siteId: string): AlertEvent[] {
+  return allActiveAlerts(state).filter(a => a.siteId === siteId);
+}
+
+/** Every open alert, crit first, then oldest first. */
+export function allActiveAlerts(state: AlertEngineState): AlertEvent[] {
+  return Object.values(state.active).sort((a, b) => RANK[b.level] - RANK[a.level] || a.openedAt - b.openedAt);
+}
+
+export type SiteAlertSummary = { level: AlertLevel; count: number };
+
+/** Worst open level and open-alert count for each of `siteIds`. */
+export function summarizeSites(state: AlertEngineState, siteIds: string[]): Record<string, SiteAlertSummary> {
+  const out: Record<string, SiteAlertSummary> = {};
+  for (const id of siteIds) out[id] = { level: "ok", count: 0 };
+  for (const a of Object.values(state.active)) {
+    const s = out[a.siteId];
+    if (!s) continue;
+    s.count++;
+    if (RANK[a.level] > RANK[s.level]) s.level = a.level;
+  }
+  return out;
+}
+
+export const severityRank = (level: AlertLevel) => RANK[level];
+
+type Describable = Pick<AlertEvent, "key" | "kind" | "instrument" | "value">;
+
+/** Short label for what an alert is about: the parameter, or the instrument and its problem. */
+export function alertSubject(a: Describable): string {
+  if (a.instrument) return `${a.instrument.name}: ${a.kind === "stale" ? "not reporting" : "calibration overdue"}`;
+  return `${PARAM_META[a.key].label}${a.kind === "rate" ? " (rate)" : ""}`;
+}
+
+/** `value` with the unit appropriate to the alert kind. */
+export function alertValue(a: Describable, value = a.value): string {
+  switch (a.kind) {
+    case "rate": return `${value > 0 ? "+" : ""}${value.toFixed(2)} ${PARAM_META[a.key].unit}/h`;
+    case "stale": return `${Math.round(value)} min`;
+    case "calibration": return `${Math.round(value)} d`;
+    default: return `${value.toFixed(2)} ${PARAM_META[a.key].unit}`.trim();
+  }
+}
@@ -0,0 +1,65 @@
+import { csvField } from "@/lib/csv";
+
+export type AnnotationCategory = "storm" | "maintenance" | "harvest" | "sampling" | "other";
+
+export const ANNOTATION_CATEGORIES: { value: AnnotationCategory; label: string; color: string }[] = [
+  { value: "storm", label: "Storm / weather", color: "#6366f1" },
+  { value: "maintenance", label: "Sensor maintenance", color: "#a855f7" },
+  { value: "harvest", label: "Harvest", color: "#10b981" },
+  { value: "sampling", label: "Field sampling", color: "#f59e0b" },
+  { value: "other", label: "Other", color: "#64748b" },
+];
+
+export const categoryMeta = (c: AnnotationCategory) => ANNOTATION_CATEGORIES.find(x => x.value === c) ?? ANNOTATION_CATEGORIES[ANNOTATION_CATEGORIES.length - 1];
+
+/** A field event at one site: a moment (`end` absent) or a span. */
+export type Annotation = {
+  id: string;
+  siteId: string;
+  start: number;
+  end?: number;
+  category: AnnotationCategory;
+  note: string;
+  author: string;
+  createdAt: number;
+};
+
+export type NewAnnotation = Omit<Annotation, "id" | "createdAt">;
+
+export function createAnnotation(input: NewAnnotation, now: number): Annotation {
+  if (!input.siteId) throw new Error("Site is required");
+  if (!Number.isFinite(input.start)) throw new Error("Start time is required");
+  if (input.end !== undefined && !(Number.isFinite(input.end) && input.end > input.start)) throw new Error("End must be after start");
+  if (!ANNOTATION_CATEGORIES.some(c => c.value === input.category)) throw new Error("Unknown category");
+  const note = input.note.trim();
+  if (!note) throw new Error("Note is required");
+  return { ...input, note, author: input.author.trim(), id: `${input.siteId}-${now.toString(36)}`, createdAt: now };
+}
+
+export const annotationEnd = (a: Annotation) => a.end ?? a.start;
+
+/** Annotations at `siteId` overlapping `[from, to]`, oldest first. */
+export function annotationsFor(list: Annotation[], siteId: string, from = -Infinity, to = Infinity): Annotation[] {
+  return list
+    .filter(a => a.siteId === siteId && annotationEnd(a) >= from && a.start <= to)
+    .sort((a, b) => a.start - b.start);
+}
+
+const LOG_COLUMNS = ["site_id", "start_utc", "end_utc", "category", "note", "author", "created_utc"];
+
+export function annotationRecord(a: Annotation) {
+  return {
+    site_id: a.siteId,
+    start_utc: new Date(a.start).toISOString(),
+    end_utc: a.end !== undefined ? new Date(a.end).toISOString() : null,
+    category: a.category,
+    note: a.note,
+    author: a.author,
+    created_utc: new Date(a.createdAt).toISOString(),
+  };
+}
+
+export function annotationsCSV(list: Annotation[]): string {
+  const lines = list.map(a => Object.values(annotationRecord(a)).map(v => csvField(v ?? "")).join(","));
+  return [LOG_COLUMNS.join(","), ...lines].join("\n");
+}
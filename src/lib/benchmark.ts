@@ -0,0 +1,81 @@
+import type { Reading, Site } from "@/lib/types";
+import { simulateReading } from "@/lib/simulator";
+import { percentile } from "@/lib/report";
+
+export type BenchmarkOptions = {
+  sites: number;
+  /** Readings per site per second; the real stream is 0.2 (every 5 s). */
+  ratePerSite: number;
+  durationS: number;
+  /** Generate readings in a Web Worker instead of on the main thread. */
+  worker: boolean;
+};
+
+export const DEFAULT_BENCHMARK: BenchmarkOptions = { sites: 300, ratePerSite: 0.2, durationS: 30, worker: true };
+
+export const BENCHMARK_RATES = [0.2, 1, 5, 20];
+
+/** Frames during the first second are not counted: that is mounting, not streaming. */
+export const WARMUP_MS = 1000;
+
+/** A frame longer than this is visible as a stutter. */
+export const LONG_FRAME_MS = 50;
+
+export type FrameStats = { frames: number; fps: number; mean: number; p50: number; p95: number; p99: number; max: number; long: number };
+
+export type BenchmarkResult = { at: number; options: BenchmarkOptions; readings: number; readingsPerS: number; frames: FrameStats };
+
+/** Synthetic sites spread over Puget Sound, named so they sort in order. */
+export function benchmarkSites(n: number): Site[] {
+  const cols = Math.ceil(Math.sqrt(n));
+  return Array.from({ length: n }, (_, i) => {
+    const num = String(i + 1).padStart(String(n).length, "0");
+    return {
+      id: `BENCH-${num}`,
+      name: `Bench ${num}`,
+      lat: 47.0 + 1.4 * (Math.floor(i / cols) / cols),
+      lon: -123.0 + 0.8 * ((i % cols) / cols),
+      depth_m: 2 + (i % 10),
+    };
+  });
+}
+
+/**
+ * Which readings are due when, for `ratePerSite` readings per second per site.
+ * Sites are staggered across the period so they do not all report in one frame;
+ * a site that falls far behind (throttled tab) skips ahead rather than bursting.
+ */
+export function createReadingSchedule(siteIds: string[], ratePerSite: number, seed: number, start: number) {
+  const period = 1000 / ratePerSite;
+  const next = siteIds.map((_, i) => start + (i / siteIds.length) * period);
+  return {
+    due(now: number): [string, Reading][] {
+      const out: [string, Reading][] = [];
+      siteIds.forEach((id, i) => {
+        if (now - next[i] > 10 * period) next[i] = now;
+        while (next[i] <= now) {
+          const ts = Math.round(next[i]);
+          out.push([id, { ...simulateReading(seed, id, ts), ts }]);
+          next[i] += period;
+        }
+      });
+      return out;
+    },
+  };
+}
+
+/** Summary of frame durations (ms) measured with requestAnimationFrame. */
+export function frameStats(deltas: number[]): FrameStats {
+  const sorted = [...deltas].sort((a, b) => a - b);
+  const total = deltas.reduce((a, b) => a + b, 0);
+  return {
+    frames: deltas.length,
+    fps: total > 0 ? deltas.length / (total / 1000) : 0,
+    mean: deltas.length ? total / deltas.length : NaN,
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+    max: sorted.length ? sorted[sorted.length - 1] : NaN,
+    long: deltas.filter(d => d > LONG_FRAME_MS).length,
+  };
+}
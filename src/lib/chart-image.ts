@@ -0,0 +1,68 @@
+import { downloadBlob } from "@/lib/download";
+
+/**
+ * Serialize the first Recharts surface inside `container` as a standalone SVG
+ * string: explicit size, white background and the page font inlined, so it
+ * renders the same outside the app.
+ */
+export function chartToSVG(container: HTMLElement, title?: string): { svg: string; width: number; height: number } | null {
+  const surface = container.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!surface) return null;
+  const { width, height } = surface.getBoundingClientRect();
+  const pad = title ? 20 : 0;
+  const clone = surface.cloneNode(true) as SVGSVGElement;
+  clone.removeAttribute("class");
+  clone.setAttribute("x", "0");
+  clone.setAttribute("y", String(pad));
+
+  const ns = "http://www.w3.org/2000/svg";
+  const root = document.createElementNS(ns, "svg");
+  root.setAttribute("xmlns", ns);
+  root.setAttribute("width", String(Math.ceil(width)));
+  root.setAttribute("height", String(Math.ceil(height + pad)));
+  root.setAttribute("viewBox", `0 0 ${Math.ceil(width)} ${Math.ceil(height + pad)}`);
+  root.setAttribute("font-family", getComputedStyle(container).fontFamily || "sans-serif");
+  root.setAttribute("font-size", "12");
+  const bg = document.createElementNS(ns, "rect");
+  bg.setAttribute("width", "100%");
+  bg.setAttribute("height", "100%");
+  bg.setAttribute("fill", "#ffffff");
+  root.appendChild(bg);
+  if (title) {
+    const text = document.createElementNS(ns, "text");
+    text.setAttribute("x", "8");
+    text.setAttribute("y", "14");
+    text.setAttribute("font-size", "13");
+    text.setAttribute("font-weight", "600");
+    text.textContent = title;
+    root.appendChild(text);
+  }
+  root.appendChild(clone);
+  return { svg: new XMLSerializer().serializeToString(root), width: Math.ceil(width), height: Math.ceil(height + pad) };
+}
+
+export function downloadChartSVG(container: HTMLElement, filename: string, title?: string) {
+  const out = chartToSVG(container, title);
+  if (out) downloadBlob(`${filename}.svg`, new Blob([out.svg], { type: "image/svg+xml" }));
+}
+
+/** Rasterize via an offscreen canvas at `scale`× for crisp figures in reports. */
+export function downloadChartPNG(container: HTMLElement, filename: string, title?: string, scale = 2) {
+  const out = chartToSVG(container, title);
+  if (!out) return;
+  const url = URL.createObjectURL(new Blob([out.svg], { type: "image/svg+xml" }));
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement("canvas");
+    canvas.width = out.width * scale;
+    canvas.height = out.height * scale;
+    const ctx = canvas.getContext("2d");
+    URL.revokeObjectURL(url);
+    if (!ctx) return;
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, 0, 0);
+    canvas.toBlob(blob => { if (blob) downloadBlob(`${filename}.png`, blob); }, "image/png");
+  };
+  img.onerror = () => URL.revokeObjectURL(url);
+  img.src = url;
+}
@@ -0,0 +1,63 @@
+import type { ParamKey, Reading } from "@/lib/types";
+
+export type SeriesStats = { min: number; mean: number; max: number; sd: number; n: number };
+
+export function seriesStats(rows: Reading[], key: ParamKey): SeriesStats | null {
+  let n = 0, sum = 0, sumSq = 0, min = Infinity, max = -Infinity;
+  for (const r of rows) {
+    const v = r[key];
+    if (!Number.isFinite(v)) continue;
+    n++; sum += v; sumSq += v * v;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (!n) return null;
+  const mean = sum / n;
+  return { min, mean, max, sd: Math.sqrt(Math.max(0, sumSq / n - mean * mean)), n };
+}
+
+export type AlignedRow = { ts: number } & Record<string, number>;
+
+/**
+ * Put several sites' values for one parameter on a shared time grid so a single
+ * tooltip shows every site at the same moment. Each bucket holds the mean of the
+ * readings that fell in it; with `normalize`, values become per-site z-scores.
+ */
+export function alignSeries(
+  rowsBySite: Record<string, Reading[]>,
+  key: ParamKey,
+  maxPoints = 600,
+  normalize = false,
+): AlignedRow[] {
+  const ids = Object.keys(rowsBySite);
+  let from = Infinity, to = -Infinity;
+  for (const id of ids) {
+    const rows = rowsBySite[id];
+    if (!rows.length) continue;
+    from = Math.min(from, rows[0].ts);
+    to = Math.max(to, rows[rows.length - 1].ts);
+  }
+  if (!Number.isFinite(from)) return [];
+  const step = Math.max(5000, Math.ceil((to - from) / maxPoints));
+  const buckets = new Map<number, { ts: number; sums: Record<string, [number, number]> }>();
+  for (const id of ids) {
+    const stats = normalize ? seriesStats(rowsBySite[id], key) : null;
+    for (const r of rowsBySite[id]) {
+      let v = r[key];
+      if (!Number.isFinite(v)) continue;
+      if (normalize) v = stats && stats.sd > 0 ? (v - stats.mean) / stats.sd : 0;
+      const b = Math.floor((r.ts - from) / step);
+      let bucket = buckets.get(b);
+      if (!bucket) buckets.set(b, bucket = { ts: from + b * step, sums: {} });
+      const acc = bucket.sums[id] ?? (bucket.sums[id] = [0, 0]);
+      acc[0] += v; acc[1]++;
+    }
+  }
+  return [...buckets.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([, { ts, sums }]) => {
+      const row = { ts } as AlignedRow;
+      for (const [id, [sum, n]] of Object.entries(sums)) row[id] = sum / n;
+      return row;
+    });
+}
@@ -0,0 +1,80 @@
+import type { ParamKey, Reading } from "@/lib/types";
+
+/** Pairs of values for two parameters on a regular time grid; NaN where a bucket had no reading. */
+export type Grid = { from: number; stepMs: number; ts: number[]; a: number[]; b: number[] };
+
+export type CcfPoint = { lagMs: number; r: number; n: number };
+
+export type CrossCorrelation = {
+  points: CcfPoint[];
+  /** Lag with the largest |r| among lags with enough overlapping pairs; null if there are none. */
+  peak: CcfPoint | null;
+  stepMs: number;
+};
+
+/** Lags with fewer overlapping pairs than this are reported but never chosen as the peak. */
+export const MIN_PAIRS = 12;
+
+/** Typical spacing of readings: the median step, which ignores outages. */
+export function medianStep(rows: Reading[]): number {
+  const steps: number[] = [];
+  for (let i = 1; i < rows.length; i++) steps.push(rows[i].ts - rows[i - 1].ts);
+  if (!steps.length) return NaN;
+  steps.sort((x, y) => x - y);
+  return steps[Math.floor(steps.length / 2)];
+}
+
+/** Bucket-mean both parameters onto a shared grid so that a lag is a whole number of steps. */
+export function gridPairs(rows: Reading[], a: ParamKey, b: ParamKey, stepMs: number): Grid {
+  const empty: Grid = { from: NaN, stepMs, ts: [], a: [], b: [] };
+  if (!rows.length || !(stepMs > 0)) return empty;
+  const from = rows[0].ts;
+  const size = Math.floor((rows[rows.length - 1].ts - from) / stepMs) + 1;
+  const sums = [new Float64Array(size), new Float64Array(size)];
+  const counts = [new Uint32Array(size), new Uint32Array(size)];
+  for (const r of rows) {
+    const i = Math.floor((r.ts - from) / stepMs);
+    [a, b].forEach((k, j) => {
+      if (Number.isFinite(r[k])) { sums[j][i] += r[k]; counts[j][i]++; }
+    });
+  }
+  const mean = (j: number) => Array.from(sums[j], (s, i) => counts[j][i] ? s / counts[j][i] : NaN);
+  return { from, stepMs, ts: Array.from({ length: size }, (_, i) => from + i * stepMs), a: mean(0), b: mean(1) };
+}
+
+/** Pearson correlation over the index pairs where both values are present. */
+export function pearson(xs: ArrayLike<number>, ys: ArrayLike<number>, shift = 0): { r: number; n: number } {
+  let n = 0, sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+  for (let i = Math.max(0, -shift); i < xs.length && i + shift < ys.length; i++) {
+    const x = xs[i], y = ys[i + shift];
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+    n++; sx += x; sy += y; sxx += x * x; syy += y * y; sxy += x * y;
+  }
+  const vx = sxx - sx * sx / n, vy = syy - sy * sy / n;
+  if (n < 3 || vx <= 0 || vy <= 0) return { r: NaN, n };
+  return { r: Math.max(-1, Math.min(1, (sxy - sx * sy / n) / Math.sqrt(vx * vy))), n };
+}
+
+/**
+ * Correlation of `a` at time t with `b` at t + lag, for lags from -maxLagMs to
+ * +maxLagMs. A peak at a positive lag means changes in `a` lead changes in `b`.
+ * The grid step is the readings' own spacing, coarsened so there are at most
+ * `maxSteps` lags each side.
+ */
+export function crossCorrelation(rows: Reading[], a: ParamKey, b: ParamKey, maxLagMs: number, maxSteps = 72): CrossCorrelation {
+  const stepMs = Math.max(medianStep(rows) || 0, Math.ceil(maxLagMs / maxSteps), 1000);
+  const grid = gridPairs(rows, a, b, stepMs);
+  const lags = Math.floor(maxLagMs / stepMs);
+  const points: CcfPoint[] = [];
+  let peak: CcfPoint | null = null;
+  for (let k = -lags; k <= lags; k++) {
+    const { r, n } = pearson(grid.a, grid.b, k);
+    const p = { lagMs: k * stepMs, r, n };
+    points.push(p);
+    if (n >= MIN_PAIRS && Number.isFinite(r) && (!peak || Math.abs(r) > Math.abs(peak.r))) peak = p;
+  }
+  return { points, peak, stepMs };
+}
+
+/** Approximate 95% bound on |r| for uncorrelated series with `n` pairs. */
+export const noiseBound = (n: number) => n > 0 ? 1.96 / Math.sqrt(n) : NaN;
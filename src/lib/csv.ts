@@ -0,0 +1,67 @@
+import type { ParamKey } from "@/lib/types";
+
+/** Column name per parameter in our CSV exports (unit suffixed), also recognised on import. */
+export const COLUMN_NAMES: Record<ParamKey, string> = {
+  temp: "temp_c", sal: "sal_psu", ph: "ph", do: "do_mgL", turb: "turb_ntu", chl: "chl_ugL",
+  gene_expr: "gene_expr_AU", methyl: "methyl_frac", metabo: "metabo_AU", lipid_ox: "lipid_ox_frac",
+  do_sat: "do_pct_sat", omega_arag: "omega_arag", thermal_dh: "thermal_degh",
+};
+
+/** Default decimal places per parameter, matched to sensor resolution. */
+export const PRECISION: Record<ParamKey, number> = {
+  temp: 2, sal: 2, ph: 2, do: 2, turb: 1, chl: 1, gene_expr: 1, methyl: 3, metabo: 1, lipid_ox: 3,
+  do_sat: 1, omega_arag: 2, thermal_dh: 1,
+};
+
+/** Quote a field when it contains the delimiter, a quote or a newline. */
+export function csvField(v: string | number) {
+  const s = String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Guess the delimiter from the first non-comment line: comma, semicolon or tab. */
+export function sniffDelimiter(text: string): string {
+  const line = text.split(/\r?\n/).find(l => l.trim() && !l.startsWith("#")) ?? "";
+  const counts = [",", ";", "\t"].map(d => [d, line.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * RFC 4180-style parser: quoted fields, doubled quotes and embedded newlines.
+ * Blank lines and lines starting with `#` (metadata comments) are skipped.
+ */
+export function parseCSV(text: string, delimiter = sniffDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let atLineStart = true;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (atLineStart && c === "#" && !quoted) {
+      while (i < text.length && text[i] !== "\n") i++;
+      continue;
+    }
+    atLineStart = false;
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field); field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field); field = "";
+      if (row.some(f => f.trim() !== "")) rows.push(row);
+      row = [];
+      atLineStart = true;
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== "")) rows.push(row);
+  return rows;
+}
@@ -0,0 +1,85 @@
+import type { DerivedKey, MeasuredKey, Reading } from "@/lib/types";
+import type { QcFlags } from "@/lib/qc";
+import { DERIVED_KEYS } from "@/lib/types";
+import { aragoniteSaturation, doSaturation } from "@/lib/oceanography";
+
+/**
+ * Derived parameters, computed from a reading's measured values as it arrives
+ * (or when backfilled history is first stored) and stored with it, so they
+ * chart, alert and export like any sensor value and every view of a reading
+ * shows the same value. Editing the configuration affects readings from then on.
+ */
+export type DerivedConfig = {
+  /** Total alkalinity (µmol/kg) estimated from salinity as `intercept + slope · S`, for Ω_arag. */
+  alkalinity: { intercept: number; slope: number };
+  /**
+   * Cumulative degree-hours above `thresholdC`: a steady 1 °C excess adds
+   * 1 °C·h per hour and the total never falls on its own. Missing and
+   * QC-failed temperatures add nothing. It restarts from zero at `resetAt`
+   * (e.g. the start of the warm season; 0 means never reset).
+   */
+  thermal: { thresholdC: number; resetAt: number };
+};
+
+export const DEFAULT_DERIVED: DerivedConfig = {
+  alkalinity: { intercept: 647, slope: 47.7 },
+  thermal: { thresholdC: 20, resetAt: 0 },
+};
+
+/** Measured inputs of each derived parameter; QC flags and staleness carry over from these. */
+export const DERIVED_INPUTS: Record<DerivedKey, MeasuredKey[]> = {
+  do_sat: ["do", "temp", "sal"],
+  omega_arag: ["temp", "sal", "ph"],
+  thermal_dh: ["temp"],
+};
+
+// Heat is not integrated across longer silences; the excess during a gap is unknown.
+const MAX_STEP_H = 0.5;
+
+function thermalStress(r: Reading, prev: Reading | undefined, c: DerivedConfig["thermal"], tempOk: boolean): number {
+  if (!prev) return 0;
+  // The first reading at or after a reset starts the sum again.
+  const reset = prev.ts < c.resetAt && r.ts >= c.resetAt;
+  const carried = !reset && Number.isFinite(prev.thermal_dh) ? prev.thermal_dh : 0;
+  if (!tempOk) return carried;
+  const dtH = Math.max(0, r.ts - prev.ts) / 3600_000;
+  return carried + Math.max(0, r.temp - c.thresholdC) * Math.min(dtH, MAX_STEP_H);
+}
+
+/**
+ * `r` with all derived fields computed; `prev` is the site's previous reading
+ * and `flags` the QC flags of `r`, if known (a failed temperature adds no heat).
+ */
+export function deriveReading(r: Reading, prev: Reading | undefined, config: DerivedConfig, flags?: Partial<QcFlags>): Reading {
+  const { intercept, slope } = config.alkalinity;
+  return {
+    ...r,
+    do_sat: doSaturation(r.do, r.temp, r.sal),
+    omega_arag: aragoniteSaturation(r.temp, r.sal, r.ph, intercept + slope * r.sal),
+    thermal_dh: thermalStress(r, prev, config.thermal, Number.isFinite(r.temp) && flags?.temp !== "fail"),
+  };
+}
+
+/**
+ * Missing a derived value whose inputs are all present (NaN or absent from older
+ * stored readings). Thermal stress always has a value: it carries over gaps in temperature.
+ */
+const underived = (r: Reading) =>
+  DERIVED_KEYS.some(k => !Number.isFinite(r[k]) && (k === "thermal_dh" || DERIVED_INPUTS[k].every(i => Number.isFinite(r[i]))));
+
+/** Whether `deriveSeries` has anything to fill in. */
+export const hasUnderived = (rows: Reading[]) => rows.some(underived);
+
+/**
+ * Fill in readings that have no derived values yet (backfill, imports, history
+ * from before this existed), keeping those computed on arrival. `prev` is the
+ * site's reading before `rows[0]`, so the thermal stress sum carries on from it,
+ * and `flags` are QC flags parallel to `rows`. Returns `rows` itself when
+ * nothing was missing.
+ */
+export function deriveSeries(rows: Reading[], config: DerivedConfig, prev?: Reading, flags?: QcFlags[]): Reading[] {
+  if (!hasUnderived(rows)) return rows;
+  const out: Reading[] = [];
+  rows.forEach((r, i) => out.push(underived(r) ? deriveReading(r, out[out.length - 1] ?? prev, config, flags?.[i]) : r));
+  return out;
+}
@@ -0,0 +1,15 @@
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadText(filename: string, text: string, type = "text/csv;charset=utf-8;") {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+/** Filesystem-friendly slug for names like "Skagit Bay Farm". */
+export const fileSlug = (s: string) => s.trim().replace(/[^\w.-]+/g, "_");
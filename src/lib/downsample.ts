@@ -0,0 +1,44 @@
+import type { ParamKey, Reading } from "@/lib/types";
+
+/**
+ * Largest-Triangle-Three-Buckets downsampling on one parameter. Returns whole
+ * readings (so tooltips still show every field) and always keeps the first and
+ * last points. Series at or under `threshold` are returned as-is. Missing
+ * (non-finite) values are skipped, so a gap in one bucket does not blank its
+ * neighbours; a bucket with no value at all keeps its first reading.
+ */
+export function lttb(rows: Reading[], key: ParamKey, threshold: number): Reading[] {
+  const n = rows.length;
+  if (threshold >= n || threshold < 3) return rows;
+  const out: Reading[] = [rows[0]];
+  const every = (n - 2) / (threshold - 2);
+  // Last picked point with a value: the first triangle vertex.
+  let ax = rows[0].ts, ay = rows[0][key];
+  for (let i = 0; i < threshold - 2; i++) {
+    // Average of the next bucket is the third triangle vertex.
+    const nextStart = Math.floor((i + 1) * every) + 1;
+    const nextEnd = Math.min(Math.floor((i + 2) * every) + 1, n);
+    let avgX = 0, avgY = 0, len = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      if (!Number.isFinite(rows[j][key])) continue;
+      avgX += rows[j].ts; avgY += rows[j][key]; len++;
+    }
+    const start = Math.floor(i * every) + 1;
+    const end = Math.floor((i + 1) * every) + 1;
+    if (len) { avgX /= len; avgY /= len; }
+    else { avgX = rows[nextEnd - 1]?.ts ?? rows[n - 1].ts; avgY = ay; }
+
+    let maxArea = -1, pick = start;
+    for (let j = start; j < end; j++) {
+      const y = rows[j][key];
+      if (!Number.isFinite(y)) continue;
+      // Without a value to anchor on yet, the first one found starts the series.
+      const area = Number.isFinite(ay) ? Math.abs((ax - avgX) * (y - ay) - (ax - rows[j].ts) * (avgY - ay)) : 0;
+      if (area > maxArea) { maxArea = area; pick = j; }
+    }
+    out.push(rows[pick]);
+    if (maxArea >= 0) { ax = rows[pick].ts; ay = rows[pick][key]; }
+  }
+  out.push(rows[n - 1]);
+  return out;
+}
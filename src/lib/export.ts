@@ -0,0 +1,158 @@
+import type { ParamKey, Reading, Site } from "@/lib/types";
+import { PARAM_META } from "@/lib/types";
+import type { ThresholdSet } from "@/lib/thresholds";
+import { COLUMN_NAMES, csvField, PRECISION } from "@/lib/csv";
+import type { QcFlags } from "@/lib/qc";
+import { annotationRecord, type Annotation } from "@/lib/annotations";
+
+export type ExportFormat = "csv" | "csv-wide" | "json" | "ndjson";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; ext: string; mime: string }[] = [
+  { value: "csv", label: "CSV (long, with metadata header)", ext: "csv", mime: "text/csv;charset=utf-8;" },
+  { value: "csv-wide", label: "CSV (wide, one column per site × parameter)", ext: "csv", mime: "text/csv;charset=utf-8;" },
+  { value: "json", label: "JSON", ext: "json", mime: "application/json" },
+  { value: "ndjson", label: "NDJSON (one reading per line)", ext: "ndjson", mime: "application/x-ndjson" },
+];
+
+export type ExportSite = {
+  site: Site;
+  profile: string;
+  thresholds: ThresholdSet;
+  rows: Reading[];
+  /** QC flags index-aligned with `rows`; when present each parameter gains a `<column>_qc` column. */
+  flags?: QcFlags[];
+  /** Field events overlapping the range, written as `# event:` lines (CSV) or an `events` list (JSON). */
+  annotations?: Annotation[];
+};
+
+export type ExportRequest = {
+  sites: ExportSite[];
+  params: ParamKey[];
+  from: number;
+  to: number;
+  /** "default" rounds to `PRECISION`; "full" writes values unrounded. */
+  precision: "default" | "full";
+};
+
+function formatter(precision: ExportRequest["precision"]) {
+  return (key: ParamKey, v: number) => !Number.isFinite(v) ? "" : precision === "full" ? String(v) : v.toFixed(PRECISION[key]);
+}
+
+function metadataLines(req: ExportRequest): string[] {
+  const lines = [
+    "# Shellfish Environmental Monitor export",
+    `# exported_at: ${new Date().toISOString()}`,
+    `# range: ${new Date(req.from).toISOString()} / ${new Date(req.to).toISOString()}`,
+    `# parameters: ${req.params.map(k => `${COLUMN_NAMES[k]} (${PARAM_META[k].label})`).join("; ")}`,
+  ];
+  if (hasFlags(req)) lines.push("# qc: *_qc columns hold pass | suspect | fail | not_evaluated");
+  if (req.sites.some(s => s.annotations?.length)) lines.push("# event: start_utc [/ end_utc] | category | note [| by author]");
+  for (const { site, profile, thresholds, annotations } of req.sites) {
+    lines.push(`# site: ${site.id} | ${site.name} | lat ${site.lat} | lon ${site.lon} | depth_m ${site.depth_m} | threshold profile: ${profile}`);
+    lines.push(`#   thresholds: ${req.params.map(k => `${k} ${thresholds[k].dir} warn=${thresholds[k].warn} crit=${thresholds[k].crit}`).join("; ")}`);
+    for (const a of annotations ?? []) {
+      const e = annotationRecord(a);
+      lines.push(`#   event: ${e.start_utc}${e.end_utc ? ` / ${e.end_utc}` : ""} | ${e.category} | ${e.note.replace(/\s+/g, " ")}${e.author ? ` | by ${e.author}` : ""}`);
+    }
+  }
+  return lines;
+}
+
+const hasFlags = (req: ExportRequest) => req.sites.some(s => s.flags);
+
+/** Value and, when flags are exported, QC cells for one reading. */
+function cells(req: ExportRequest, r: Reading | undefined, flags: QcFlags | undefined, withQc: boolean) {
+  const fmt = formatter(req.precision);
+  return req.params.flatMap(k => {
+    const v = r ? fmt(k, r[k]) : "";
+    return withQc ? [v, flags?.[k] ?? ""] : [v];
+  });
+}
+
+const columns = (req: ExportRequest, withQc: boolean, prefix = "") =>
+  req.params.flatMap(k => withQc ? [`${prefix}${COLUMN_NAMES[k]}`, `${prefix}${COLUMN_NAMES[k]}_qc`] : [`${prefix}${COLUMN_NAMES[k]}`]);
+
+/** Long CSV: one row per site and timestamp, preceded by `#` metadata lines (skipped by our importer). */
+export function toLongCSV(req: ExportRequest): string {
+  const withQc = hasFlags(req);
+  const header = ["site_id", "timestamp", "time_utc", ...columns(req, withQc)].join(",");
+  const lines: string[] = [];
+  for (const { site, rows, flags } of req.sites) {
+    rows.forEach((r, i) => {
+      lines.push([csvField(site.id), r.ts, new Date(r.ts).toISOString(), ...cells(req, r, flags?.[i], withQc)].join(","));
+    });
+  }
+  return [...metadataLines(req), header, ...lines].join("\n");
+}
+
+/** Wide CSV: one row per timestamp, `<site>__<column>` per site × parameter; gaps are empty cells. */
+export function toWideCSV(req: ExportRequest): string {
+  const withQc = hasFlags(req);
+  const byTs = new Map<number, Map<string, { r: Reading; f?: QcFlags }>>();
+  for (const { site, rows, flags } of req.sites) {
+    rows.forEach((r, i) => {
+      let m = byTs.get(r.ts);
+      if (!m) byTs.set(r.ts, m = new Map());
+      m.set(site.id, { r, f: flags?.[i] });
+    });
+  }
+  const header = ["timestamp", "time_utc", ...req.sites.flatMap(({ site }) => columns(req, withQc, `${site.id}__`).map(csvField))].join(",");
+  const lines = [...byTs.keys()].sort((a, b) => a - b).map(ts => {
+    const m = byTs.get(ts)!;
+    const row = req.sites.flatMap(({ site }) => {
+      const hit = m.get(site.id);
+      return cells(req, hit?.r, hit?.f, withQc);
+    });
+    return [ts, new Date(ts).toISOString(), ...row].join(",");
+  });
+  return [...metadataLines(req), header, ...lines].join("\n");
+}
+
+function readingRecord(req: ExportRequest, r: Reading, flags?: QcFlags) {
+  const fmt = formatter(req.precision);
+  const out: Record<string, unknown> = { ts: r.ts, time_utc: new Date(r.ts).toISOString() };
+  for (const k of req.params) out[k] = Number.isFinite(r[k]) ? Number(fmt(k, r[k])) : null;
+  if (flags) out.qc = Object.fromEntries(req.params.map(k => [k, flags[k]]));
+  return out;
+}
+
+/** JSON document: range, then per-site metadata, thresholds in effect and readings. */
+export function toJSON(req: ExportRequest): string {
+  return JSON.stringify({
+    exported_at: new Date().toISOString(),
+    range: { from: new Date(req.from).toISOString(), to: new Date(req.to).toISOString() },
+    parameters: Object.fromEntries(req.params.map(k => [k, PARAM_META[k]])),
+    sites: req.sites.map(({ site, profile, thresholds, rows, flags, annotations }) => ({
+      ...site,
+      threshold_profile: profile,
+      thresholds: Object.fromEntries(req.params.map(k => [k, thresholds[k]])),
+      ...(annotations ? { events: annotations.map(annotationRecord) } : {}),
+      readings: rows.map((r, i) => readingRecord(req, r, flags?.[i])),
+    })),
+  }, null, 2);
+}
+
+/**
+ * NDJSON: one `{site_id, ts, time_utc, …params, qc?}` object per line, for streaming into other tools.
+ * Field events follow each site's readings as `{site_id, event: {…}}` lines.
+ */
+export function toNDJSON(req: ExportRequest): string {
+  return req.sites
+    .flatMap(({ site, rows, flags, annotations }) => [
+      ...rows.map((r, i) => JSON.stringify({ site_id: site.id, ...readingRecord(req, r, flags?.[i]) })),
+      ...(annotations ?? []).map(a => {
+        const { site_id, ...event } = annotationRecord(a);
+        return JSON.stringify({ site_id, event });
+      }),
+    ])
+    .join("\n");
+}
+
+export function renderExport(format: ExportFormat, req: ExportRequest): string {
+  switch (format) {
+    case "csv-wide": return toWideCSV(req);
+    case "json": return toJSON(req);
+    case "ndjson": return toNDJSON(req);
+    default: return toLongCSV(req);
+  }
+}
@@ -0,0 +1,99 @@
+import type { ParamKey, Reading } from "@/lib/types";
+import type { Threshold } from "@/lib/thresholds";
+
+export type ForecastOptions = {
+  /** Smoothing factors for level and trend (Holt's linear method). */
+  alpha: number;
+  beta: number;
+  /** How much recent history to fit, and how far ahead to project. */
+  lookbackMin: number;
+  horizonMin: number;
+};
+
+export const DEFAULT_FORECAST: ForecastOptions = { alpha: 0.3, beta: 0.05, lookbackMin: 60, horizonMin: 120 };
+
+export type ForecastPoint = { ts: number; mean: number; lo: number; hi: number };
+
+export type Forecast = {
+  key: ParamKey;
+  /** Starts at the last observation (zero-width band) so the projection joins the series. */
+  points: ForecastPoint[];
+  /** Fitted trend in units per hour. */
+  slopePerHour: number;
+  /** Sample interval the fit assumed. */
+  stepMs: number;
+  sigma: number;
+};
+
+/** Two-sided ~95% prediction interval. */
+const Z = 1.96;
+const MAX_POINTS = 60;
+
+function median(xs: number[]) {
+  const s = [...xs].sort((a, b) => a - b);
+  return s[Math.floor(s.length / 2)];
+}
+
+/**
+ * Holt's linear exponential smoothing over the trailing `lookbackMin`, treating
+ * samples as evenly spaced at their median interval (gaps are skipped, not
+ * interpolated). The band widens with the horizon per the method's
+ * prediction-variance formula. Null when there is too little recent data.
+ */
+export function holtForecast(rows: Reading[], key: ParamKey, opts: ForecastOptions = DEFAULT_FORECAST): Forecast | null {
+  const last = rows[rows.length - 1];
+  if (!last) return null;
+  const start = last.ts - opts.lookbackMin * 60_000;
+  const pts = rows.filter(r => r.ts >= start && Number.isFinite(r[key]));
+  if (pts.length < 10) return null;
+  const stepMs = median(pts.slice(1).map((r, i) => r.ts - pts[i].ts));
+  if (!(stepMs > 0)) return null;
+
+  const { alpha, beta } = opts;
+  let level = pts[0][key];
+  // Seed the trend from the first quarter of the window rather than one (noisy) step.
+  const k = Math.max(1, Math.floor(pts.length / 4));
+  let trend = (pts[k][key] - pts[0][key]) / k;
+  let sq = 0, n = 0;
+  for (let i = 1; i < pts.length; i++) {
+    const x = pts[i][key];
+    const err = x - (level + trend);
+    if (i > 2) { sq += err * err; n++; }
+    const prev = level;
+    level = alpha * x + (1 - alpha) * (level + trend);
+    trend = beta * (level - prev) + (1 - beta) * trend;
+  }
+  const sigma = n ? Math.sqrt(sq / n) : 0;
+
+  const steps = Math.max(1, Math.round(opts.horizonMin * 60_000 / stepMs));
+  const stride = Math.max(1, Math.ceil(steps / MAX_POINTS));
+  const points: ForecastPoint[] = [{ ts: pts[pts.length - 1].ts, mean: pts[pts.length - 1][key], lo: pts[pts.length - 1][key], hi: pts[pts.length - 1][key] }];
+  let varSum = 0;
+  for (let h = 1; h <= steps; h++) {
+    if (h > 1) varSum += (alpha * (1 + (h - 1) * beta)) ** 2;
+    if (h % stride && h !== steps) continue;
+    const mean = level + h * trend;
+    const half = Z * sigma * Math.sqrt(1 + varSum);
+    points.push({ ts: points[0].ts + h * stepMs, mean, lo: mean - half, hi: mean + half });
+  }
+  return { key, points, slopePerHour: trend * 3600_000 / stepMs, stepMs, sigma };
+}
+
+export type Crossing = {
+  /** Expected crossing (point forecast), null if not within the horizon. */
+  at: number | null;
+  /** Earliest plausible crossing, when the band edge first reaches the limit. */
+  earliest: number | null;
+  /** Already past the limit at the last observation. */
+  breached: boolean;
+};
+
+/** When the forecast reaches `limit` in the threshold's direction. */
+export function crossingTime(fc: Forecast, limit: number, dir: Threshold["dir"]): Crossing {
+  const past = (v: number) => dir === "over" ? v >= limit : v <= limit;
+  const first = fc.points[0];
+  if (past(first.mean)) return { at: first.ts, earliest: first.ts, breached: true };
+  const at = fc.points.find(p => past(p.mean))?.ts ?? null;
+  const earliest = fc.points.find(p => past(dir === "over" ? p.hi : p.lo))?.ts ?? null;
+  return { at, earliest, breached: false };
+}
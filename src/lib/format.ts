@@ -0,0 +1,23 @@
+export const fmttime = (t: number) => new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export const fmtdatetime = (t: number) => new Date(t).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+/** Compact duration, e.g. "45 s", "12 min", "3 h 05 min", "2 d 4 h". */
+export function fmtduration(ms: number) {
+  const s = Math.max(0, Math.round(ms / 1000));
+  if (s < 60) return `${s} s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m} min`;
+  const h = Math.floor(m / 60);
+  if (h < 24) return `${h} h ${String(m % 60).padStart(2, "0")} min`;
+  return `${Math.floor(h / 24)} d ${h % 24} h`;
+}
+
+/** Fixed-precision number, or "—" for missing (NaN) values. */
+export const fmtnum = (v: number | undefined, digits = 2) => v !== undefined && Number.isFinite(v) ? v.toFixed(digits) : "—";
+
+/** Number typed into an input, or `fallback` when the field is empty or not a number. */
+export function numberOr(raw: string, fallback: number) {
+  const n = Number(raw);
+  return raw !== "" && Number.isFinite(n) ? n : fallback;
+}
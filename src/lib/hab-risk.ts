@@ -0,0 +1,58 @@
+import type { AlertLevel, Reading } from "@/lib/types";
+import type { ThresholdSet } from "@/lib/thresholds";
+
+/** Readings that feed the composite harmful-algal-bloom risk index. */
+export const HAB_INPUTS = ["gene_expr", "chl", "temp", "metabo", "methyl"] as const;
+export type HabInput = typeof HAB_INPUTS[number];
+
+export type HabRiskConfig = {
+  /** Relative weights; they need not sum to 1. */
+  weights: Record<HabInput, number>;
+  /** Index (0–100) at which the site is considered at elevated / high risk. */
+  warn: number;
+  crit: number;
+};
+
+export const DEFAULT_HAB_RISK: HabRiskConfig = {
+  weights: { gene_expr: 0.35, chl: 0.25, temp: 0.15, metabo: 0.15, methyl: 0.1 },
+  warn: 50,
+  crit: 75,
+};
+
+export type HabComponent = { key: HabInput; value: number; score: number; weight: number };
+
+export type HabRisk = {
+  /** 0–100, or NaN when no input is available. */
+  score: number;
+  level: AlertLevel;
+  components: HabComponent[];
+};
+
+/**
+ * Sub-score for one input against the site's thresholds: 0 at one warn–crit
+ * interval short of warn, 0.5 at warn, 1 at crit and beyond.
+ */
+export function habSubscore(value: number, { warn, crit, dir }: ThresholdSet[HabInput]): number {
+  const span = Math.abs(crit - warn) || 1;
+  const past = dir === "over" ? value - warn : warn - value;
+  return Math.min(1, Math.max(0, (past + span) / (2 * span)));
+}
+
+/**
+ * Weighted mean of the sub-scores, scaled to 0–100. Missing inputs (NaN, e.g.
+ * masked by QC) drop out and the remaining weights are renormalised.
+ */
+export function habRisk(reading: Reading | undefined, limits: ThresholdSet, config: HabRiskConfig): HabRisk {
+  const components: HabComponent[] = [];
+  let sum = 0, total = 0;
+  for (const key of HAB_INPUTS) {
+    const value = reading?.[key] ?? NaN;
+    const weight = Math.max(0, config.weights[key]);
+    const score = Number.isFinite(value) ? habSubscore(value, limits[key]) : NaN;
+    components.push({ key, value, score, weight });
+    if (Number.isFinite(score) && weight > 0) { sum += weight * score; total += weight; }
+  }
+  const score = total > 0 ? 100 * sum / total : NaN;
+  const level: AlertLevel = score >= config.crit ? "crit" : score >= config.warn ? "warn" : "ok";
+  return { score, level, components };
+}
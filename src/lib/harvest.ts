@@ -0,0 +1,165 @@
+import type { ParamKey, Reading } from "@/lib/types";
+import { BIOINDICATOR_KEYS } from "@/lib/types";
+import { classifyAlert, type ThresholdSet } from "@/lib/thresholds";
+import type { AlertEvent } from "@/lib/alert-engine";
+import { csvField } from "@/lib/csv";
+
+export type HarvestStatus = "open" | "conditional" | "closed";
+
+export const HARVEST_STATUSES: { value: HarvestStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "conditional", label: "Conditionally open" },
+  { value: "closed", label: "Closed" },
+];
+
+const RESTRICTION: Record<HarvestStatus, number> = { open: 0, conditional: 1, closed: 2 };
+
+/** True when moving from `from` to `to` relaxes the harvest status (and so must pass the reopen gate). */
+export const isReopening = (from: HarvestStatus, to: HarvestStatus) => RESTRICTION[to] < RESTRICTION[from];
+
+export type HarvestLogEntry = {
+  id: string;
+  ts: number;
+  siteId: string;
+  action: "status" | "proposed" | "dismissed";
+  from: HarvestStatus;
+  to: HarvestStatus;
+  reason: string;
+  author: string;
+  /** Alert behind an automatic proposal. */
+  alertId?: string;
+  /** Reopen criteria as checked when the change relaxed the status. */
+  reopen?: ReopenCheck;
+};
+
+/** An automatic suggestion to close a site, raised by a critical bioindicator alert. */
+export type HarvestProposal = {
+  alertId: string;
+  siteId: string;
+  key: ParamKey;
+  value: number;
+  proposedAt: number;
+};
+
+export type HarvestState = {
+  status: Record<string, { status: HarvestStatus; since: number }>;
+  proposals: HarvestProposal[];
+  /** Append-only; entries are never edited or removed. */
+  log: HarvestLogEntry[];
+};
+
+export const EMPTY_HARVEST_STATE: HarvestState = { status: {}, proposals: [], log: [] };
+
+export type ReopenCriteria = {
+  /** Consecutive trailing readings that must all be clean. */
+  cleanReadings: number;
+  /** Parameters that must classify "ok" for a reading to count as clean. */
+  params: ParamKey[];
+  /** Also require that no alert is open on those parameters. */
+  noOpenAlerts: boolean;
+};
+
+export const DEFAULT_REOPEN: ReopenCriteria = { cleanReadings: 12, params: [...BIOINDICATOR_KEYS, "chl"], noOpenAlerts: true };
+
+export const SYSTEM_AUTHOR = "system";
+
+export const statusOf = (state: HarvestState, siteId: string): HarvestStatus => state.status[siteId]?.status ?? "open";
+
+let seq = 0;
+const entryId = (ts: number) => `${ts.toString(36)}-${(seq++).toString(36)}`;
+
+export type StatusChange = {
+  siteId: string;
+  to: HarvestStatus;
+  reason: string;
+  author: string;
+  alertId?: string;
+  /** Result of `checkReopen` for the site; required when the change relaxes the status. */
+  reopen?: ReopenCheck;
+};
+
+/** Why `change` cannot be recorded, or null when it can. */
+export function statusChangeError(state: HarvestState, change: StatusChange): string | null {
+  if (!change.reason.trim() || !change.author.trim()) return "A reason and author are required";
+  if (isReopening(statusOf(state, change.siteId), change.to) && !change.reopen?.ok) return "The reopen criteria are not met";
+  return null;
+}
+
+/**
+ * Record a status change. Reason and author are mandatory, and relaxing the
+ * status needs a passing reopen check, which is kept in the log entry.
+ * Accepting a proposal removes it.
+ */
+export function changeStatus(state: HarvestState, change: StatusChange, now: number): HarvestState {
+  const error = statusChangeError(state, change);
+  if (error) throw new Error(error);
+  const from = statusOf(state, change.siteId);
+  const entry: HarvestLogEntry = {
+    id: entryId(now), ts: now, siteId: change.siteId, action: "status", from, to: change.to,
+    reason: change.reason.trim(), author: change.author.trim(), alertId: change.alertId,
+    reopen: isReopening(from, change.to) ? change.reopen : undefined,
+  };
+  return {
+    status: { ...state.status, [change.siteId]: { status: change.to, since: now } },
+    proposals: change.to === "closed" ? state.proposals.filter(p => p.siteId !== change.siteId) : state.proposals,
+    log: [...state.log, entry],
+  };
+}
+
+/** Raise a closure proposal for each new critical bioindicator alert at a site that is not already closed. */
+export function proposeClosures(state: HarvestState, alerts: AlertEvent[], now: number): HarvestState {
+  const seen = new Set(state.log.filter(e => e.alertId).map(e => e.alertId));
+  const fresh = alerts.filter(a =>
+    a.level === "crit" && !a.instrument && BIOINDICATOR_KEYS.includes(a.key) && !seen.has(a.id)
+    && statusOf(state, a.siteId) !== "closed");
+  if (!fresh.length) return state;
+  const proposals = fresh.map(a => ({ alertId: a.id, siteId: a.siteId, key: a.key, value: a.value, proposedAt: now }));
+  const entries: HarvestLogEntry[] = fresh.map(a => {
+    const from = statusOf(state, a.siteId);
+    return { id: entryId(now), ts: now, siteId: a.siteId, action: "proposed", from, to: "closed", reason: `Critical ${a.key} alert`, author: SYSTEM_AUTHOR, alertId: a.id };
+  });
+  return { ...state, proposals: [...state.proposals, ...proposals], log: [...state.log, ...entries] };
+}
+
+export function dismissProposal(state: HarvestState, alertId: string, reason: string, author: string, now: number): HarvestState {
+  const p = state.proposals.find(x => x.alertId === alertId);
+  if (!p) return state;
+  if (!reason.trim() || !author.trim()) throw new Error("A reason and author are required");
+  const from = statusOf(state, p.siteId);
+  return {
+    ...state,
+    proposals: state.proposals.filter(x => x.alertId !== alertId),
+    log: [...state.log, { id: entryId(now), ts: now, siteId: p.siteId, action: "dismissed", from, to: from, reason: reason.trim(), author: author.trim(), alertId }],
+  };
+}
+
+export type ReopenCheck = { ok: boolean; streak: number; needed: number; openAlerts: number };
+
+/**
+ * Whether a site may be reopened: the last `cleanReadings` readings must all be
+ * "ok" on the criteria parameters. Missing values (including QC-failed ones
+ * masked to NaN) break the streak — no data is not evidence of clean water.
+ */
+export function checkReopen(rows: Reading[], limits: ThresholdSet, criteria: ReopenCriteria, openAlerts: AlertEvent[]): ReopenCheck {
+  let streak = 0;
+  for (let i = rows.length - 1; i >= 0; i--) {
+    const r = rows[i];
+    if (!criteria.params.every(k => Number.isFinite(r[k]) && classifyAlert(k, r[k], limits) === "ok")) break;
+    streak++;
+  }
+  const blocking = criteria.noOpenAlerts ? openAlerts.filter(a => criteria.params.includes(a.key)).length : 0;
+  return { ok: streak >= criteria.cleanReadings && blocking === 0, streak, needed: criteria.cleanReadings, openAlerts: blocking };
+}
+
+const LOG_COLUMNS = ["time_utc", "site_id", "site_name", "action", "from", "to", "reason", "author", "alert_id", "reopen_check"];
+
+/** One-line summary of a recorded reopen check, e.g. "12/12 clean readings, 0 open alerts". */
+export const reopenSummary = (c: ReopenCheck) =>
+  `${c.streak}/${c.needed} clean readings, ${c.openAlerts} open alert${c.openAlerts === 1 ? "" : "s"}`;
+
+export function harvestLogCSV(log: HarvestLogEntry[], siteName: (id: string) => string): string {
+  const lines = log.map(e => [
+    new Date(e.ts).toISOString(), e.siteId, siteName(e.siteId), e.action, e.from, e.to, e.reason, e.author, e.alertId ?? "", e.reopen ? reopenSummary(e.reopen) : "",
+  ].map(csvField).join(","));
+  return [LOG_COLUMNS.join(","), ...lines].join("\n");
+}
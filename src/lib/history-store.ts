@@ -0,0 +1,124 @@
+import type { Reading } from "@/lib/types";
+
+/**
+ * Long-term reading storage in IndexedDB. One object store keyed by
+ * `[siteId, ts]`, so a site's time range is a single key-range scan.
+ */
+const DB_NAME = "m2m-history";
+const STORE = "readings";
+
+type StoredReading = Reading & { siteId: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB is not available"));
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: ["siteId", "ts"] });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const siteRange = (siteId: string, from = -Infinity, to = Infinity) => IDBKeyRange.bound([siteId, from], [siteId, to]);
+
+export async function putReadings(siteId: string, rows: Reading[]) {
+  if (!rows.length) return;
+  const db = await openDB();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  for (const r of rows) store.put({ ...r, siteId } satisfies StoredReading);
+  await done(tx);
+}
+
+/** Readings for one site in `[from, to]`, ascending by `ts`. */
+export async function queryReadings(siteId: string, from: number, to: number): Promise<Reading[]> {
+  const db = await openDB();
+  const req = db.transaction(STORE).objectStore(STORE).getAll(siteRange(siteId, from, to));
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve((req.result as StoredReading[]).map(({ siteId: _, ...r }) => r));
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** The newest stored reading for one site before `ts`, if any. */
+export async function lastReadingBefore(siteId: string, ts: number): Promise<Reading | undefined> {
+  const db = await openDB();
+  const req = db.transaction(STORE).objectStore(STORE).openCursor(IDBKeyRange.bound([siteId, -Infinity], [siteId, ts], false, true), "prev");
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => {
+      if (!req.result) return resolve(undefined);
+      const { siteId: _, ...r } = req.result.value as StoredReading;
+      resolve(r);
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Delete every reading older than `cutoff` for the given sites. */
+export async function pruneBefore(siteIds: string[], cutoff: number) {
+  const db = await openDB();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  for (const id of siteIds) store.delete(IDBKeyRange.bound([id, -Infinity], [id, cutoff], false, true));
+  await done(tx);
+}
+
+export async function countReadings(siteId: string): Promise<number> {
+  const db = await openDB();
+  const req = db.transaction(STORE).objectStore(STORE).count(siteRange(siteId));
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function clearReadings() {
+  const db = await openDB();
+  const tx = db.transaction(STORE, "readwrite");
+  tx.objectStore(STORE).clear();
+  await done(tx);
+}
+
+// Live readings trickle in per site every few seconds; batch them into one transaction.
+const pending = new Map<string, Reading[]>();
+let flushTimer: number | null = null;
+
+export function queueReading(siteId: string, reading: Reading) {
+  const rows = pending.get(siteId);
+  if (rows) rows.push(reading);
+  else pending.set(siteId, [reading]);
+  if (flushTimer === null) flushTimer = window.setTimeout(flushQueue, 2000);
+}
+
+export async function flushQueue() {
+  if (flushTimer !== null) window.clearTimeout(flushTimer);
+  flushTimer = null;
+  const batch = [...pending];
+  pending.clear();
+  if (!batch.length) return;
+  try {
+    const db = await openDB();
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const [siteId, rows] of batch) for (const r of rows) store.put({ ...r, siteId } satisfies StoredReading);
+    await done(tx);
+  } catch {
+    // Storage unavailable or full: the live buffer keeps working, history just has a gap.
+  }
+}
@@ -0,0 +1,139 @@
+import type { Reading } from "@/lib/types";
+import { PARAM_KEYS, UNDERIVED } from "@/lib/types";
+import type { TelemetrySource } from "@/lib/telemetry";
+import { flushQueue, lastReadingBefore, putReadings, queryReadings } from "@/lib/history-store";
+import { deriveSeries, hasUnderived, type DerivedConfig } from "@/lib/derived";
+import { qcSeries, type QcConfig } from "@/lib/qc";
+
+/** How much history the in-memory live buffer keeps per site. */
+export const LIVE_WINDOW_MS = 3 * 3600_000;
+
+export type RetentionSettings = { days: number };
+
+export const DEFAULT_RETENTION: RetentionSettings = { days: 30 };
+
+// Gaps in stored data shorter than this are left alone (a few missed live ticks).
+const GAP_MS = 10 * 60_000;
+
+/** Append a live reading, dropping out-of-order duplicates and anything older than the live window. */
+export function appendLive(rows: Reading[], reading: Reading): Reading[] {
+  const last = rows[rows.length - 1];
+  if (last && reading.ts <= last.ts) return rows;
+  const cutoff = reading.ts - LIVE_WINDOW_MS;
+  let start = 0;
+  while (start < rows.length && rows[start].ts < cutoff) start++;
+  return [...rows.slice(start), reading];
+}
+
+/** Merge two ascending series, keeping one reading per `ts` (later arguments win). */
+export function mergeSeries(a: Reading[], b: Reading[]): Reading[] {
+  const byTs = new Map<number, Reading>();
+  for (const r of a) byTs.set(r.ts, r);
+  for (const r of b) byTs.set(r.ts, r);
+  return [...byTs.values()].sort((x, y) => x.ts - y.ts);
+}
+
+/** What readings without derived values are derived with; QC decides which temperatures add thermal stress. */
+export type DeriveOptions = { derived: DerivedConfig; qc: QcConfig };
+
+/**
+ * Readings for `[from, to]` from IndexedDB, with missing stretches at the start,
+ * in the middle (e.g. the tab was closed overnight) or at the end filled from
+ * the telemetry source's backfill. Backfilled and older stored readings get
+ * their derived values here, carrying on from the stored reading before `from`,
+ * and are stored with them, so later loads of any range agree.
+ * Falls back to the source alone when IndexedDB is unavailable.
+ */
+export async function loadHistory(source: TelemetrySource, siteId: string, from: number, to: number, derive: DeriveOptions): Promise<Reading[]> {
+  let stored: Reading[];
+  try {
+    stored = await queryReadings(siteId, from, to);
+  } catch {
+    const rows = await source.backfill(siteId, from, to);
+    return deriveSeries(rows, derive.derived, undefined, qcSeries(rows, derive.qc));
+  }
+  const gaps: [number, number][] = [];
+  const first = stored[0]?.ts ?? to;
+  if (first - from > GAP_MS) gaps.push([from, first - 1]);
+  for (let i = 1; i < stored.length; i++) {
+    if (stored[i].ts - stored[i - 1].ts > GAP_MS) gaps.push([stored[i - 1].ts + 1, stored[i].ts - 1]);
+  }
+  const last = stored[stored.length - 1]?.ts;
+  if (last !== undefined && to - last > GAP_MS) gaps.push([last + 1, to]);
+  const fetched = (await Promise.all(gaps.map(([a, b]) => source.backfill(siteId, a, b).catch(() => [] as Reading[])))).flat();
+  const merged = fetched.length ? mergeSeries(stored, fetched) : stored;
+  if (!hasUnderived(merged)) {
+    if (fetched.length) putReadings(siteId, fetched).catch(() => {});
+    return merged;
+  }
+  const prev = await lastReadingBefore(siteId, merged[0].ts).catch(() => undefined);
+  const rows = deriveSeries(merged, derive.derived, prev, qcSeries(merged, derive.qc));
+  const fetchedTs = new Set(fetched.map(r => r.ts));
+  const changed = rows.filter((r, i) => r !== merged[i] || fetchedTs.has(r.ts));
+  if (changed.length) putReadings(siteId, changed).catch(() => {});
+  return rows;
+}
+
+/** Index of the reading at `ts` in ascending `rows`, or -1. */
+export function indexAt(rows: Reading[], ts: number): number {
+  let lo = 0, hi = rows.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (rows[mid].ts === ts) return mid;
+    if (rows[mid].ts < ts) lo = mid + 1;
+    else hi = mid - 1;
+  }
+  return -1;
+}
+
+/** A reading with every parameter missing, used to break chart lines. */
+export function blankReading(ts: number): Reading {
+  const r = { ts } as Reading;
+  for (const k of PARAM_KEYS) r[k] = NaN;
+  return r;
+}
+
+/**
+ * Copy of `display` with a blank reading inside every gap longer than `maxGapMs`
+ * in the full-resolution `rows`, so charts break the line rather than
+ * interpolate. `display` may be a downsampled subset of `rows`.
+ */
+export function withGaps(display: Reading[], rows: Reading[], maxGapMs: number): Reading[] {
+  const breaks: number[] = [];
+  for (let i = 1; i < rows.length; i++) {
+    if (rows[i].ts - rows[i - 1].ts > maxGapMs) breaks.push((rows[i].ts + rows[i - 1].ts) / 2);
+  }
+  if (!breaks.length) return display;
+  const out: Reading[] = [];
+  let b = 0;
+  for (const r of display) {
+    while (b < breaks.length && breaks[b] < r.ts) out.push(blankReading(breaks[b++]));
+    out.push(r);
+  }
+  return out;
+}
+
+/** Field-level merge: finite values in `incoming` override `base`, missing ones keep it. */
+export function mergeFields(base: Reading | undefined, incoming: Reading): Reading {
+  if (!base) return incoming;
+  const out = { ...base };
+  for (const [k, v] of Object.entries(incoming) as [keyof Reading, number][]) {
+    if (Number.isFinite(v)) out[k] = v;
+  }
+  return out;
+}
+
+/**
+ * Merge imported readings into a site's stored history, deduplicating by `ts`.
+ * Their derived values are cleared, to be computed from the merged values when
+ * next loaded. Returns the stored rows.
+ */
+export async function importReadings(siteId: string, rows: Reading[]): Promise<Reading[]> {
+  if (!rows.length) return [];
+  await flushQueue();
+  const existing = await queryReadings(siteId, rows[0].ts, rows[rows.length - 1].ts).catch(() => [] as Reading[]);
+  const byTs = new Map(existing.map(r => [r.ts, r]));
+  const merged = rows.map(r => ({ ...mergeFields(byTs.get(r.ts), r), ...UNDERIVED }));
+  await putReadings(siteId, merged);
+  return merged;
+}
@@ -0,0 +1,244 @@
+import type { MeasuredKey, Reading } from "@/lib/types";
+import { DERIVED_KEYS, MEASURED_KEYS, UNDERIVED } from "@/lib/types";
+import { oxygenSolubility } from "@/lib/oceanography";
+import { COLUMN_NAMES } from "@/lib/csv";
+
+/**
+ * What a file column feeds: a measured parameter, the timestamp (whole, or split date + time), the site id
+ * (multi-site files such as our long CSV export), or nothing.
+ * Derived parameters are recomputed after import rather than read from the file.
+ */
+export type ImportTarget = MeasuredKey | "timestamp" | "date" | "time" | "site" | "ignore";
+
+export type ColumnSpec = { target: ImportTarget; unit?: string };
+
+/** Units a column may arrive in; values are converted to the dashboard's unit (first entry). */
+export const UNITS: Partial<Record<MeasuredKey, { value: string; label: string }[]>> = {
+  temp: [{ value: "C", label: "°C" }, { value: "F", label: "°F" }],
+  do: [{ value: "mgL", label: "mg/L" }, { value: "pctSat", label: "% sat" }],
+};
+
+export type ImportOptions = {
+  columns: ColumnSpec[];
+  /** Zone for timestamps without an explicit offset: "local", "UTC", "+hh:mm" or an IANA name. */
+  timeZone: string;
+  /** Used for DO % saturation rows that carry no salinity column. */
+  assumedSalinity: number;
+  /** Site ids a site column may name; rows for any other site are skipped. */
+  knownSites: string[];
+};
+
+export type ImportIssue = { row: number; column?: string; message: string };
+
+/**
+ * Readings per site id, each ascending and unique by `ts`. Files without a site column
+ * put everything under `""`, to be merged into the site chosen on import.
+ */
+export type ImportResult = { bySite: Record<string, Reading[]>; count: number; issues: ImportIssue[]; skipped: number };
+
+/** Physically plausible bounds; values outside are rejected as entry or unit errors. */
+const VALID_RANGE: Record<MeasuredKey, [number, number]> = {
+  temp: [-5, 40], sal: [0, 45], ph: [0, 14], do: [0, 25], turb: [0, 4000], chl: [0, 500],
+  gene_expr: [0, 1000], methyl: [0, 1], metabo: [0, 1000], lipid_ox: [0, 1],
+};
+
+const GUESSES: [RegExp, MeasuredKey][] = [
+  [/^(temp|temperature|wtemp|water_?temp|t_?c|t_?f)/, "temp"],
+  [/^(sal|salinity|psu)/, "sal"],
+  [/^ph(_|$)/, "ph"],
+  [/^(do|odo|oxygen|dissolved_?o)/, "do"],
+  [/^(turb|ntu|fnu)/, "turb"],
+  [/^(chl|chlorophyll)/, "chl"],
+  [/^gene/, "gene_expr"],
+  [/^methyl/, "methyl"],
+  [/^metabo/, "metabo"],
+  [/^lipid/, "lipid_ox"],
+];
+
+/** Best-effort mapping from header names; our own export round-trips exactly. */
+export function guessColumns(header: string[]): ColumnSpec[] {
+  let haveTs = false;
+  const used = new Set<MeasuredKey>();
+  const derivedColumns = DERIVED_KEYS.map(k => COLUMN_NAMES[k].toLowerCase());
+  let haveSite = false;
+  return header.map(raw => {
+    const h = raw.trim().toLowerCase().replace(/[\s\-/()]+/g, "_");
+    if (!haveSite && /^(site_?id|site|station_?id)$/.test(h)) {
+      haveSite = true;
+      return { target: "site" };
+    }
+    if (!haveTs && /^(timestamp|ts|epoch|datetime|date_?time|time_?stamp|sample_?time)$/.test(h)) {
+      haveTs = true;
+      return { target: "timestamp" };
+    }
+    if (/^date$/.test(h)) return { target: "date" };
+    if (/^time$/.test(h)) return { target: "time" };
+    // Our export's derived columns (e.g. `do_pct_sat`) must not be mistaken for the measured ones.
+    if (derivedColumns.includes(h)) return { target: "ignore" };
+    const hit = GUESSES.find(([re, key]) => re.test(h) && !used.has(key));
+    if (!hit) return { target: "ignore" };
+    used.add(hit[1]);
+    if (hit[1] === "temp") return { target: "temp", unit: /(^|_)(f|degf|°f|fahrenheit)($|_)|t_?f/.test(h) || raw.includes("°F") ? "F" : "C" };
+    if (hit[1] === "do") return { target: "do", unit: /%|pct|sat/.test(h) ? "pctSat" : "mgL" };
+    return { target: hit[1] };
+  });
+}
+
+export function isValidTimeZone(tz: string) {
+  if (tz === "local" || tz === "UTC" || /^[+-]\d{2}:\d{2}$/.test(tz)) return true;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Offset of `tz` from UTC at instant `ts`, in ms. */
+function zoneOffset(ts: number, tz: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(new Date(ts));
+  const get = (t: string) => Number(parts.find(p => p.type === t)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(ts / 1000) * 1000;
+}
+
+function wallTimeToUtc(f: [number, number, number, number, number, number], tz: string): number {
+  const [y, mo, d, h, mi, s] = f;
+  if (tz === "local") return new Date(y, mo - 1, d, h, mi, s).getTime();
+  const guess = Date.UTC(y, mo - 1, d, h, mi, s);
+  if (tz === "UTC") return guess;
+  const fixed = tz.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (fixed) return guess - (fixed[1] === "-" ? -1 : 1) * (Number(fixed[2]) * 60 + Number(fixed[3])) * 60_000;
+  // Two passes settle the offset across DST transitions.
+  const first = guess - zoneOffset(guess, tz);
+  return guess - zoneOffset(first, tz);
+}
+
+/**
+ * Parse epoch ms/s, ISO 8601 with an offset, or wall-clock `YYYY-MM-DD HH:mm[:ss]`
+ * / `MM/DD/YYYY HH:mm[:ss] [AM|PM]` interpreted in `tz`.
+ */
+export function parseTimestamp(raw: string, tz: string): number | null {
+  const v = raw.trim();
+  if (!v) return null;
+  if (/^\d+(\.\d+)?$/.test(v)) {
+    const n = Number(v);
+    return n > 1e11 ? n : n * 1000;
+  }
+  if (/[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i.test(v)) {
+    const t = Date.parse(v.replace(" ", "T"));
+    return Number.isNaN(t) ? null : t;
+  }
+  let m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/);
+  if (m) return wallTimeToUtc([+m[1], +m[2], +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0)], tz);
+  m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i);
+  if (m) {
+    let h = +(m[4] ?? 0);
+    const ampm = m[7]?.toUpperCase();
+    if (ampm === "PM" && h < 12) h += 12;
+    if (ampm === "AM" && h === 12) h = 0;
+    const y = m[3].length === 2 ? 2000 + +m[3] : +m[3];
+    return wallTimeToUtc([y, +m[1], +m[2], h, +(m[5] ?? 0), +(m[6] ?? 0)], tz);
+  }
+  return null;
+}
+
+const MISSING = /^(|na|n\/a|nan|null|-|--)$/i;
+
+function parseNumber(raw: string): number | null | undefined {
+  const v = raw.trim();
+  if (MISSING.test(v)) return undefined;
+  const n = Number(v);
+  if (Number.isFinite(n)) return n;
+  // Decimal comma from European-locale exports.
+  const alt = Number(v.replace(",", "."));
+  return Number.isFinite(alt) ? alt : null;
+}
+
+/**
+ * Turn parsed CSV rows (header excluded) into readings, split by the site
+ * column when one is mapped. Rows without a usable timestamp, a known site or
+ * any valid value are skipped; bad cells are dropped individually. Every
+ * problem is reported with its 1-based file row (header = row 1).
+ */
+export function buildReadings(rows: string[][], header: string[], opts: ImportOptions): ImportResult {
+  const issues: ImportIssue[] = [];
+  const sites = new Map<string, Map<number, Reading>>();
+  let skipped = 0;
+  const col = (t: ImportTarget) => opts.columns.findIndex(c => c.target === t);
+  const tsCol = col("timestamp"), dateCol = col("date"), timeCol = col("time"), siteCol = col("site");
+
+  rows.forEach((cells, i) => {
+    const rowNo = i + 2;
+    const siteId = siteCol >= 0 ? (cells[siteCol] ?? "").trim() : "";
+    if (siteCol >= 0 && !opts.knownSites.includes(siteId)) {
+      issues.push({ row: rowNo, column: header[siteCol], message: siteId ? `Unknown site "${siteId}"` : "No site id" });
+      skipped++;
+      return;
+    }
+    const rawTs = tsCol >= 0 ? cells[tsCol] ?? "" : `${cells[dateCol] ?? ""} ${timeCol >= 0 ? cells[timeCol] ?? "" : ""}`.trim();
+    const ts = parseTimestamp(rawTs, opts.timeZone);
+    if (ts === null) {
+      issues.push({ row: rowNo, column: header[tsCol >= 0 ? tsCol : dateCol], message: `Unrecognised timestamp "${rawTs}"` });
+      skipped++;
+      return;
+    }
+
+    const values: Partial<Record<MeasuredKey, number>> = {};
+    const units: Partial<Record<MeasuredKey, string>> = {};
+    opts.columns.forEach((spec, c) => {
+      if (!MEASURED_KEYS.includes(spec.target as MeasuredKey)) return;
+      const key = spec.target as MeasuredKey;
+      const n = parseNumber(cells[c] ?? "");
+      if (n === undefined) return;
+      if (n === null) { issues.push({ row: rowNo, column: header[c], message: `Not a number: "${cells[c]}"` }); return; }
+      values[key] = n;
+      if (spec.unit) units[key] = spec.unit;
+    });
+
+    const inRange = (key: MeasuredKey) => {
+      const v = values[key];
+      const [lo, hi] = VALID_RANGE[key];
+      if (v === undefined || (v >= lo && v <= hi)) return;
+      issues.push({ row: rowNo, column: key, message: `${key} = ${+v.toFixed(3)} outside plausible range ${lo}–${hi}` });
+      delete values[key];
+    };
+    if (values.temp !== undefined && units.temp === "F") values.temp = (values.temp - 32) * 5 / 9;
+    // Temperature and salinity are validated first: DO % saturation is converted with them.
+    inRange("temp");
+    inRange("sal");
+    if (values.do !== undefined && units.do === "pctSat") {
+      if (values.temp === undefined) {
+        issues.push({ row: rowNo, column: "do", message: "DO % saturation needs a valid temperature on the same row" });
+        delete values.do;
+      } else {
+        values.do = values.do / 100 * oxygenSolubility(values.temp, values.sal ?? opts.assumedSalinity);
+      }
+    }
+
+    const reading = { ts, ...UNDERIVED } as Reading;
+    let found = 0;
+    for (const key of MEASURED_KEYS) {
+      inRange(key);
+      const v = values[key];
+      reading[key] = v ?? NaN;
+      if (v !== undefined) found++;
+    }
+    if (!found) { skipped++; if (!issues.some(x => x.row === rowNo)) issues.push({ row: rowNo, message: "No parameter values" }); return; }
+    let byTs = sites.get(siteId);
+    if (!byTs) sites.set(siteId, byTs = new Map());
+    if (byTs.has(ts)) issues.push({ row: rowNo, message: `Duplicate timestamp ${new Date(ts).toISOString()}${siteId ? ` for ${siteId}` : ""}; later row kept` });
+    byTs.set(ts, reading);
+  });
+
+  const bySite: Record<string, Reading[]> = {};
+  let count = 0;
+  for (const [id, byTs] of sites) {
+    bySite[id] = [...byTs.values()].sort((a, b) => a.ts - b.ts);
+    count += bySite[id].length;
+  }
+  return { bySite, count, issues, skipped };
+}
@@ -0,0 +1,114 @@
+import type { AlertLevel, ParamKey, Reading } from "@/lib/types";
+import { BIOINDICATOR_KEYS, DERIVED_KEYS, ENV_KEYS } from "@/lib/types";
+import type { InstrumentCheck } from "@/lib/alert-engine";
+import { DERIVED_INPUTS } from "@/lib/derived";
+
+export type Instrument = {
+  id: string;
+  siteId: string;
+  /** e.g. "YSI EXO2 #21A1034". */
+  name: string;
+  params: ParamKey[];
+  deployedAt: number;
+  /** Set once the instrument is pulled; it then no longer raises alerts. */
+  retrievedAt?: number;
+  calibrationDue: number;
+  /** How often the instrument is expected to report. */
+  intervalSec: number;
+  notes?: string;
+};
+
+export type HealthRules = {
+  /** Missed reporting intervals before the instrument is "stale" (warn)… */
+  staleAfter: number;
+  /** …and "offline" (crit). */
+  offlineAfter: number;
+  /** Days ahead of the due date at which calibration shows as due soon. */
+  calibrationSoonDays: number;
+};
+
+export const DEFAULT_HEALTH_RULES: HealthRules = { staleAfter: 5, offlineAfter: 30, calibrationSoonDays: 7 };
+
+/** Never break chart lines on gaps shorter than the 5-minute history backfill resolution. */
+const MIN_GAP_MS = 10 * 60_000;
+
+const DAY = 86_400_000;
+
+/** A sonde and a bioindicator sampler per demo site, deployed a month ago. */
+export function defaultInstruments(siteIds: string[], now = Date.now()): Instrument[] {
+  return siteIds.flatMap((siteId, i) => [
+    { id: `${siteId}-sonde`, siteId, name: `Sonde ${i + 1}`, params: ENV_KEYS, deployedAt: now - 30 * DAY, calibrationDue: now + (20 - 12 * i) * DAY, intervalSec: 60 },
+    { id: `${siteId}-bio`, siteId, name: `Bio sampler ${i + 1}`, params: BIOINDICATOR_KEYS, deployedAt: now - 30 * DAY, calibrationDue: now + 60 * DAY, intervalSec: 60 },
+  ]);
+}
+
+export const isDeployed = (inst: Instrument, now: number) =>
+  inst.deployedAt <= now && (inst.retrievedAt === undefined || inst.retrievedAt > now);
+
+export type ReportState = "ok" | "stale" | "offline" | "not_deployed";
+export type CalibrationState = "ok" | "due_soon" | "overdue";
+
+export type InstrumentHealth = {
+  report: ReportState;
+  /** Last reading with any of the instrument's parameters, or null if none is buffered. */
+  lastSeen: number | null;
+  calibration: CalibrationState;
+};
+
+/** Latest timestamp at which any of `params` has a value. */
+function lastSeenFor(rows: Reading[], params: ParamKey[]): number | null {
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (params.some(k => Number.isFinite(rows[i][k]))) return rows[i].ts;
+  }
+  return null;
+}
+
+export function instrumentHealth(inst: Instrument, rows: Reading[], now: number, rules: HealthRules): InstrumentHealth {
+  const calibration: CalibrationState = now > inst.calibrationDue ? "overdue"
+    : now > inst.calibrationDue - rules.calibrationSoonDays * DAY ? "due_soon" : "ok";
+  if (!isDeployed(inst, now)) return { report: "not_deployed", lastSeen: null, calibration };
+  const lastSeen = lastSeenFor(rows, inst.params);
+  // With nothing buffered, count from deployment.
+  const age = now - (lastSeen ?? inst.deployedAt);
+  const interval = inst.intervalSec * 1000;
+  const report: ReportState = age > rules.offlineAfter * interval ? "offline" : age > rules.staleAfter * interval ? "stale" : "ok";
+  return { report, lastSeen, calibration };
+}
+
+const REPORT_LEVEL: Record<ReportState, AlertLevel> = { ok: "ok", stale: "warn", offline: "crit", not_deployed: "ok" };
+
+/** Alert-engine input for a site's deployed instruments. */
+export function instrumentChecks(instruments: Instrument[], siteId: string, rows: Reading[], now: number, rules: HealthRules): InstrumentCheck[] {
+  return instruments
+    .filter(inst => inst.siteId === siteId && inst.params.length && isDeployed(inst, now))
+    .map(inst => {
+      const h = instrumentHealth(inst, rows, now, rules);
+      return {
+        instrument: { id: inst.id, name: inst.name },
+        key: inst.params[0],
+        stale: { level: REPORT_LEVEL[h.report], minutes: Math.round((now - (h.lastSeen ?? inst.deployedAt)) / 60_000) },
+        calibration: { level: h.calibration === "overdue" ? "warn" : "ok", days: Math.max(0, Math.floor((now - inst.calibrationDue) / DAY)) },
+      };
+    });
+}
+
+/**
+ * Parameters whose instrument at the site is stale or offline (their latest values should not be trusted as current),
+ * plus derived parameters computed from them.
+ */
+export function staleParams(instruments: Instrument[], siteId: string, rows: Reading[], now: number, rules: HealthRules): Set<ParamKey> {
+  const out = new Set<ParamKey>();
+  for (const inst of instruments) {
+    if (inst.siteId !== siteId) continue;
+    const h = instrumentHealth(inst, rows, now, rules);
+    if (h.report === "stale" || h.report === "offline") inst.params.forEach(k => out.add(k));
+  }
+  for (const k of DERIVED_KEYS) if (DERIVED_INPUTS[k].some(i => out.has(i))) out.add(k);
+  return out;
+}
+
+/** Longest interval between readings that still counts as continuous data for a site. */
+export function gapThresholdMs(instruments: Instrument[], siteId: string, rules: HealthRules): number {
+  const intervals = instruments.filter(i => i.siteId === siteId).map(i => i.intervalSec * 1000 * rules.staleAfter);
+  return Math.max(MIN_GAP_MS, ...intervals);
+}
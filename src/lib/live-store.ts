@@ -0,0 +1,92 @@
+import type { Reading } from "@/lib/types";
+import { LIVE_WINDOW_MS } from "@/lib/history";
+import { createRingBuffer, type RingBuffer } from "@/lib/ring-buffer";
+
+/** Readings kept per site: 3 h at 5 s is 2160, faster streams keep the newest 4096. */
+export const LIVE_CAPACITY = 4096;
+
+export type LiveSeries = Record<string, Reading[]>;
+
+/**
+ * Per-site live readings for the last `LIVE_WINDOW_MS`. Readings land in ring
+ * buffers without copying; at most once per animation frame the sites that
+ * changed get a fresh array in a new snapshot while every other site keeps its
+ * previous array, so anything memoized on one site's rows only recomputes when
+ * that site changed. Works with `useSyncExternalStore`.
+ */
+export function createLiveStore(capacity = LIVE_CAPACITY) {
+  const buffers = new Map<string, RingBuffer<Reading>>();
+  const dirty = new Set<string>();
+  const listeners = new Set<() => void>();
+  let snapshot: LiveSeries = {};
+  let pending = 0;
+
+  const bufferFor = (siteId: string) => {
+    let b = buffers.get(siteId);
+    if (!b) buffers.set(siteId, b = createRingBuffer<Reading>(capacity));
+    return b;
+  };
+
+  function flush(token: number) {
+    if (token !== pending) return;
+    pending++;
+    if (!dirty.size) return;
+    const next = { ...snapshot };
+    for (const id of dirty) {
+      const b = buffers.get(id);
+      if (b?.size()) next[id] = b.toArray();
+      else delete next[id];
+    }
+    dirty.clear();
+    snapshot = next;
+    listeners.forEach(l => l());
+  }
+
+  let scheduled = -1;
+  function touch(siteId: string) {
+    dirty.add(siteId);
+    if (scheduled === pending) return;
+    const token = scheduled = pending;
+    requestAnimationFrame(() => flush(token));
+    // Hidden tabs get no animation frames; alerting must keep up anyway.
+    window.setTimeout(() => flush(token), 500);
+  }
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    snapshot: () => snapshot,
+    /** Newest reading for a site, including ones not yet published in a snapshot. */
+    last: (siteId: string) => buffers.get(siteId)?.last(),
+    /** Current rows for a site, including ones not yet published in a snapshot. */
+    rows: (siteId: string) => buffers.get(siteId)?.toArray() ?? [],
+    /** Append a reading newer than the site's last one; returns false (and ignores it) otherwise. */
+    push(siteId: string, reading: Reading) {
+      const b = bufferFor(siteId);
+      const last = b.last();
+      if (last && reading.ts <= last.ts) return false;
+      b.push(reading);
+      const cutoff = reading.ts - LIVE_WINDOW_MS;
+      b.dropWhile(r => r.ts < cutoff);
+      touch(siteId);
+      return true;
+    },
+    /** Replace a site's rows, e.g. with loaded history merged under live readings. */
+    replace(siteId: string, rows: Reading[]) {
+      const b = bufferFor(siteId);
+      b.clear();
+      for (const r of rows.slice(-capacity)) b.push(r);
+      touch(siteId);
+    },
+    /** Forget sites entirely, e.g. benchmark sites after a run. */
+    remove(siteIds: string[]) {
+      for (const id of siteIds) {
+        if (buffers.delete(id)) touch(id);
+      }
+    },
+  };
+}
+
+export type LiveStore = ReturnType<typeof createLiveStore>;
@@ -0,0 +1,50 @@
+import type { WebhookPayload } from "@/lib/notify";
+
+/** Delivery side effects for notification channels. Each rejects with a user-facing message. */
+
+export const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return "denied";
+  return Notification.permission === "default" ? Notification.requestPermission() : Notification.permission;
+}
+
+export async function showBrowserNotification(title: string, body: string, tag: string) {
+  if (!notificationsSupported()) throw new Error("Notifications are not supported in this browser");
+  if (Notification.permission !== "granted") throw new Error(`Notification permission is ${Notification.permission}`);
+  // `tag` replaces an earlier notification for the same subject instead of stacking.
+  new Notification(title, { body, tag, requireInteraction: true });
+}
+
+let audio: AudioContext | null = null;
+
+/** Three short two-tone beeps via WebAudio (no asset to load). Browsers allow it after any user gesture on the page. */
+export async function playAlarm() {
+  const Ctx = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!Ctx) throw new Error("Web Audio is not supported");
+  audio ??= new Ctx();
+  if (audio.state === "suspended") await audio.resume();
+  if (audio.state !== "running") throw new Error("Audio is blocked until you interact with the page");
+  const t0 = audio.currentTime;
+  for (let i = 0; i < 6; i++) {
+    const osc = audio.createOscillator();
+    const gain = audio.createGain();
+    osc.type = "square";
+    osc.frequency.value = i % 2 ? 660 : 880;
+    gain.gain.setValueAtTime(0.15, t0 + i * 0.25);
+    gain.gain.setValueAtTime(0, t0 + i * 0.25 + 0.2);
+    osc.connect(gain).connect(audio.destination);
+    osc.start(t0 + i * 0.25);
+    osc.stop(t0 + i * 0.25 + 0.2);
+  }
+}
+
+export async function postWebhook(url: string, payload: WebhookPayload) {
+  let res: Response;
+  try {
+    res = await fetch(url, { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(payload), keepalive: true });
+  } catch (e) {
+    throw new Error(`Webhook unreachable: ${(e as Error).message}`);
+  }
+  if (!res.ok) throw new Error(`Webhook returned HTTP ${res.status}`);
+}
@@ -0,0 +1,153 @@
+import type { ParamKey } from "@/lib/types";
+import { PARAM_META } from "@/lib/types";
+import { alertSubject, alertValue, type AlertLogEntry } from "@/lib/alert-engine";
+
+export type ChannelType = "browser" | "sound" | "webhook";
+
+export const CHANNEL_TYPES: { value: ChannelType; label: string }[] = [
+  { value: "browser", label: "Desktop notification" },
+  { value: "sound", label: "Audible alarm" },
+  { value: "webhook", label: "Webhook POST" },
+];
+
+export type QuietHours = {
+  /** Local "HH:MM"; a window past midnight (22:00–06:00) wraps. */
+  start: string;
+  end: string;
+  /** Critical alerts still get through during quiet hours. */
+  allowCrit: boolean;
+};
+
+export type NotificationChannel = {
+  id: string;
+  name: string;
+  type: ChannelType;
+  enabled: boolean;
+  /** Webhook endpoint. */
+  url?: string;
+  /** Site ids to route; empty means every site. */
+  sites: string[];
+  minLevel: "warn" | "crit";
+  quietHours: QuietHours | null;
+  rateLimit: {
+    /** At most `max` notifications per `windowMin` on this channel… */
+    max: number;
+    windowMin: number;
+    /** …and one per alert subject (site + parameter/instrument + kind) per `cooldownMin`, so a flapping value notifies once. */
+    cooldownMin: number;
+  };
+};
+
+export const DEFAULT_CHANNELS: NotificationChannel[] = [
+  {
+    id: "browser", name: "Desktop", type: "browser", enabled: false, sites: [], minLevel: "warn",
+    quietHours: { start: "22:00", end: "06:00", allowCrit: true }, rateLimit: { max: 10, windowMin: 10, cooldownMin: 30 },
+  },
+  {
+    id: "sound", name: "Alarm", type: "sound", enabled: false, sites: [], minLevel: "crit",
+    quietHours: null, rateLimit: { max: 3, windowMin: 10, cooldownMin: 30 },
+  },
+  {
+    id: "webhook", name: "Local webhook", type: "webhook", enabled: false, url: "http://localhost:8787/webhook", sites: [], minLevel: "warn",
+    quietHours: null, rateLimit: { max: 30, windowMin: 10, cooldownMin: 15 },
+  },
+];
+
+/** Log actions that trigger notifications. */
+export const isNotifiable = (e: AlertLogEntry) => e.action === "opened" || e.action === "escalated";
+
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+export function inQuietHours(q: QuietHours, at: Date): boolean {
+  const now = at.getHours() * 60 + at.getMinutes();
+  const start = minutesOf(q.start), end = minutesOf(q.end);
+  if (start === end) return false;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** Identifies "the same problem" across successive alert ids. */
+export const subjectOf = (e: AlertLogEntry) => `${e.siteId}:${e.instrument?.id ?? e.key}:${e.kind}`;
+
+export type Delivery = {
+  ts: number;
+  channelId: string;
+  alertId: string;
+  subject: string;
+  status: "sent" | "failed" | "suppressed";
+  detail?: string;
+};
+
+export type Decision = { deliver: true } | { deliver: false; reason: string };
+
+/**
+ * Whether `channel` should deliver `entry` at `now`, given its recent
+ * deliveries. Routing misses return a reason too, but are not logged by callers.
+ */
+export function route(channel: NotificationChannel, entry: AlertLogEntry, recent: Delivery[], now: number): Decision {
+  if (!channel.enabled) return { deliver: false, reason: "disabled" };
+  if (channel.sites.length && !channel.sites.includes(entry.siteId)) return { deliver: false, reason: "site not routed" };
+  if (channel.minLevel === "crit" && entry.level !== "crit") return { deliver: false, reason: "below minimum level" };
+  if (channel.quietHours && inQuietHours(channel.quietHours, new Date(now)) && !(channel.quietHours.allowCrit && entry.level === "crit")) {
+    return { deliver: false, reason: "quiet hours" };
+  }
+  const { max, windowMin, cooldownMin } = channel.rateLimit;
+  const sent = recent.filter(d => d.channelId === channel.id && d.status === "sent");
+  // Escalation to crit is always worth a second notice.
+  if (entry.action !== "escalated" && sent.some(d => d.subject === subjectOf(entry) && now - d.ts < cooldownMin * 60_000)) {
+    return { deliver: false, reason: "cooldown" };
+  }
+  if (sent.filter(d => now - d.ts < windowMin * 60_000).length >= max) return { deliver: false, reason: "rate limited" };
+  return { deliver: true };
+}
+
+/** Webhook body. Documented in README ("Webhook payload"); keep the two in sync. */
+export type WebhookPayload = {
+  type: "alert.opened" | "alert.escalated";
+  sent_at: string;
+  alert: {
+    id: string;
+    site_id: string;
+    site_name: string;
+    kind: AlertLogEntry["kind"];
+    level: "warn" | "crit";
+    parameter: ParamKey;
+    parameter_label: string;
+    unit: string;
+    value: number;
+    summary: string;
+    instrument: { id: string; name: string } | null;
+    at: string;
+  };
+};
+
+export function webhookPayload(e: AlertLogEntry, siteName: string, now: number): WebhookPayload {
+  return {
+    type: e.action === "escalated" ? "alert.escalated" : "alert.opened",
+    sent_at: new Date(now).toISOString(),
+    alert: {
+      id: e.alertId,
+      site_id: e.siteId,
+      site_name: siteName,
+      kind: e.kind,
+      level: e.level,
+      parameter: e.key,
+      parameter_label: PARAM_META[e.key].label,
+      unit: PARAM_META[e.key].unit,
+      value: e.value,
+      summary: notificationText(e, siteName).body,
+      instrument: e.instrument ?? null,
+      at: new Date(e.ts).toISOString(),
+    },
+  };
+}
+
+export function notificationText(e: AlertLogEntry, siteName: string) {
+  const verb = e.action === "escalated" ? "escalated to" : "opened at";
+  return {
+    title: `${e.level === "crit" ? "CRITICAL" : "Warning"} · ${siteName}`,
+    body: `${alertSubject(e)} ${verb} ${e.level}: ${alertValue(e)}`,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Oxygen solubility in seawater at 1 atm (Weiss 1970), in mg/L.
+ * `tempC` in °C, `sal` in PSU.
+ */
+export function oxygenSolubility(tempC: number, sal: number): number {
+  const T = tempC + 273.15;
+  const t = T / 100;
+  const lnC = -173.4292 + 249.6339 * (100 / T) + 143.3483 * Math.log(t) - 21.8492 * t
+    + sal * (-0.033096 + 0.014259 * t - 0.0017 * t * t);
+  return Math.exp(lnC) * 1.4291; // mL/L → mg/L
+}
+
+/** DO as percent of saturation at the reading's temperature and salinity. */
+export function doSaturation(doMgL: number, tempC: number, sal: number): number {
+  return 100 * doMgL / oxygenSolubility(tempC, sal);
+}
+
+/**
+ * Aragonite saturation state Ω_arag from temperature (°C), salinity (PSU),
+ * pH (total scale) and total alkalinity (µmol/kg), at the surface.
+ * Constants: K1/K2 Lueker et al. 2000, K_B Dickson 1990, K_w Millero 1995,
+ * K_sp Mucci 1983; calcium from Riley & Tongudai 1967. Minor acid-base
+ * systems (phosphate, silicate) are ignored, which is fine for an estimate.
+ */
+export function aragoniteSaturation(tempC: number, sal: number, ph: number, taUmolKg: number): number {
+  const T = tempC + 273.15;
+  const S = sal, sqS = Math.sqrt(S);
+  const H = 10 ** -ph;
+  const K2 = 10 ** -(471.78 / T + 25.929 - 3.16967 * Math.log(T) - 0.01781 * S + 0.0001122 * S * S);
+  const lnKB = (-8966.9 - 2890.53 * sqS - 77.942 * S + 1.728 * S * sqS - 0.0996 * S * S) / T
+    + 148.0248 + 137.1942 * sqS + 1.62142 * S
+    - (24.4344 + 25.085 * sqS + 0.2474 * S) * Math.log(T) + 0.053105 * sqS * T;
+  const KB = Math.exp(lnKB);
+  const Kw = Math.exp(148.9802 - 13847.26 / T - 23.6521 * Math.log(T) + (-5.977 + 118.67 / T + 1.0495 * Math.log(T)) * sqS - 0.01615 * S);
+  const logKsp = -171.945 - 0.077993 * T + 2903.293 / T + 71.595 * Math.log10(T)
+    + (-0.068393 + 0.0017276 * T + 88.135 / T) * sqS - 0.10018 * S + 0.0059415 * S * sqS;
+  const borate = 0.0004157 * S / 35 * KB / (KB + H);
+  // Carbonate alkalinity = [HCO3⁻] + 2[CO3²⁻]; CO3²⁻ follows from the K2 equilibrium.
+  const carbAlk = taUmolKg * 1e-6 - borate - Kw / H + H;
+  const co3 = carbAlk * K2 / (H + 2 * K2);
+  const ca = 0.02128 / 40.087 * S / 1.80655;
+  return ca * co3 / 10 ** logKsp;
+}
@@ -0,0 +1,220 @@
+import type { MeasuredKey, ParamKey, Reading } from "@/lib/types";
+import { DERIVED_KEYS, MEASURED_KEYS, PARAM_KEYS } from "@/lib/types";
+import { oxygenSolubility } from "@/lib/oceanography";
+import { DERIVED_INPUTS } from "@/lib/derived";
+
+/**
+ * Automated QA/QC in the spirit of QARTOD: an ordered set of tests per
+ * parameter, each returning a flag; a value's flag is the worst result.
+ * Flags are derived from the series on demand, never stored, so editing the
+ * configuration re-flags all history.
+ */
+export type QcFlag = "pass" | "not_evaluated" | "suspect" | "fail";
+
+export type QcFlags = Record<ParamKey, QcFlag>;
+
+export type QcTest = "gross_range" | "spike" | "flatline" | "rate_of_change" | "cross_check";
+
+export type QcParamConfig = {
+  grossRange: { failMin: number; failMax: number; suspectMin: number; suspectMax: number };
+  /** Thresholds on the smaller of the jumps to the previous and next reading. */
+  spike: { suspect: number; fail: number };
+  /** Values within `tolerance` of each other for this long are a stuck sensor. */
+  flatline: { tolerance: number; suspectMin: number; failMin: number };
+  /** Step larger than `nDev` standard deviations of the trailing window. */
+  rateOfChange: { nDev: number; windowMin: number };
+};
+
+export type QcConfig = {
+  enabled: Record<QcTest, boolean>;
+  /** Derived parameters are not tested themselves; they take the worst flag of their inputs. */
+  params: Record<MeasuredKey, QcParamConfig>;
+  /** DO percent saturation limits for the DO/temperature/salinity consistency check. */
+  doSaturation: { suspect: number; fail: number };
+};
+
+const p = (
+  gross: [number, number, number, number], spike: [number, number], tolerance: number,
+): QcParamConfig => ({
+  grossRange: { failMin: gross[0], failMax: gross[1], suspectMin: gross[2], suspectMax: gross[3] },
+  spike: { suspect: spike[0], fail: spike[1] },
+  flatline: { tolerance, suspectMin: 30, failMin: 120 },
+  rateOfChange: { nDev: 4, windowMin: 60 },
+});
+
+export const DEFAULT_QC: QcConfig = {
+  enabled: { gross_range: true, spike: true, flatline: true, rate_of_change: true, cross_check: true },
+  params: {
+    temp: p([-2, 35, 0, 28], [1.5, 3], 0.005),
+    sal: p([0, 42, 5, 36], [2, 5], 0.005),
+    ph: p([6, 9.5, 7, 8.6], [0.2, 0.5], 0.0005),
+    do: p([0, 20, 0.5, 15], [1.5, 3], 0.005),
+    turb: p([0, 1000, 0, 250], [50, 100], 0.01),
+    chl: p([0, 400, 0, 150], [15, 40], 0.01),
+    gene_expr: p([0, 150, 0, 99.5], [15, 30], 0.01),
+    methyl: p([0, 1, 0.05, 0.95], [0.1, 0.2], 0.0005),
+    metabo: p([0, 150, 0, 99.5], [15, 30], 0.01),
+    lipid_ox: p([0, 1, 0.02, 0.95], [0.1, 0.2], 0.0005),
+  },
+  doSaturation: { suspect: 150, fail: 200 },
+};
+
+export const QC_TESTS: { value: QcTest; label: string }[] = [
+  { value: "gross_range", label: "Gross range" },
+  { value: "spike", label: "Spike" },
+  { value: "flatline", label: "Flatline" },
+  { value: "rate_of_change", label: "Rate of change" },
+  { value: "cross_check", label: "DO saturation cross-check" },
+];
+
+const RANK: Record<QcFlag, number> = { pass: 0, not_evaluated: 1, suspect: 2, fail: 3 };
+const worst = (a: QcFlag, b: QcFlag) => RANK[b] > RANK[a] ? b : a;
+
+function grossRange(v: number, c: QcParamConfig["grossRange"]): QcFlag {
+  if (v < c.failMin || v > c.failMax) return "fail";
+  if (v < c.suspectMin || v > c.suspectMax) return "suspect";
+  return "pass";
+}
+
+/** Flags for every reading in `rows` (ascending by ts), index-aligned. */
+/** Gross range, spike, flatline and rate-of-change tests for one parameter, written into `out`. */
+function flagParam(rows: Reading[], key: MeasuredKey, config: QcConfig, out: QcFlags[]) {
+  const on = config.enabled;
+  const c = config.params[key];
+  const windowMs = c.rateOfChange.windowMin * 60_000;
+  // Rolling stats over the trailing window for the rate-of-change test.
+  let wStart = 0, wN = 0, wSum = 0, wSq = 0, lastGood = NaN;
+  const counted: boolean[] = [];
+  // Start index of the current flat run.
+  let runStart = 0;
+
+  for (let i = 0; i < rows.length; i++) {
+    const v = rows[i][key];
+    if (!Number.isFinite(v)) { out[i][key] = "not_evaluated"; runStart = i + 1; continue; }
+
+    let flag: QcFlag = on.gross_range ? grossRange(v, c.grossRange) : "pass";
+
+    if (flag !== "fail" && on.spike) {
+      const prev = rows[i - 1]?.[key];
+      const next = rows[i + 1]?.[key];
+      // A spike stands apart from both neighbours, so the readings either side of it stay clean.
+      // The latest reading has no successor yet and is judged against its predecessor alone.
+      const d = Number.isFinite(next) ? Math.min(Math.abs(v - prev), Math.abs(v - next)) : Math.abs(v - prev);
+      if (Number.isFinite(d)) {
+        flag = worst(flag, d >= c.spike.fail ? "fail" : d >= c.spike.suspect ? "suspect" : "pass");
+      }
+    }
+
+    if (on.flatline) {
+      const startV = rows[runStart]?.[key];
+      if (runStart >= i || !Number.isFinite(startV) || Math.abs(v - startV) > c.flatline.tolerance
+        || Math.abs(v - rows[i - 1][key]) > c.flatline.tolerance) runStart = i;
+      const flatMin = (rows[i].ts - rows[runStart].ts) / 60_000;
+      if (flag !== "fail") flag = worst(flag, flatMin >= c.flatline.failMin ? "fail" : flatMin >= c.flatline.suspectMin ? "suspect" : "pass");
+    }
+
+    if (on.rate_of_change) {
+      while (wStart < i && rows[wStart].ts < rows[i].ts - windowMs) {
+        if (counted[wStart]) { const old = rows[wStart][key]; wN--; wSum -= old; wSq -= old * old; }
+        wStart++;
+      }
+      if (wN >= 10 && Number.isFinite(lastGood)) {
+        const mean = wSum / wN;
+        const sd = Math.sqrt(Math.max(0, wSq / wN - mean * mean));
+        if (sd > 0 && Math.abs(v - lastGood) > c.rateOfChange.nDev * sd) flag = worst(flag, "suspect");
+      }
+    }
+    // Failed values stay out of the reference statistics so one bad reading does not taint its successors.
+    if (flag !== "fail") { counted[i] = true; lastGood = v; wN++; wSum += v; wSq += v * v; }
+
+    out[i][key] = flag;
+  }
+}
+
+export function qcSeries(rows: Reading[], config: QcConfig): QcFlags[] {
+  const out: QcFlags[] = rows.map(() => ({} as QcFlags));
+  const on = config.enabled;
+
+  for (const key of MEASURED_KEYS) flagParam(rows, key, config, out);
+
+  if (on.cross_check) {
+    rows.forEach((r, i) => {
+      const f = out[i];
+      if (f.do === "fail" || f.do === "not_evaluated") return;
+      if (!Number.isFinite(r.temp) || !Number.isFinite(r.sal) || f.temp === "fail" || f.sal === "fail") return;
+      const pct = r.do / oxygenSolubility(r.temp, r.sal) * 100;
+      f.do = worst(f.do, pct >= config.doSaturation.fail ? "fail" : pct >= config.doSaturation.suspect ? "suspect" : "pass");
+    });
+  }
+
+  rows.forEach((r, i) => {
+    const f = out[i];
+    for (const key of DERIVED_KEYS) {
+      f[key] = Number.isFinite(r[key]) ? DERIVED_INPUTS[key].reduce<QcFlag>((acc, k) => worst(acc, f[k]), "pass") : "not_evaluated";
+    }
+  });
+  return out;
+}
+
+/** Copy of `rows` with failed values replaced by NaN, so downstream alerting ignores them. */
+/** How far back the tests look: the longest flatline run and rate-of-change window, in ms. */
+function contextMs(config: QcConfig) {
+  return Math.max(...MEASURED_KEYS.map(k => Math.max(config.params[k].flatline.failMin, config.params[k].rateOfChange.windowMin))) * 60_000;
+}
+
+/** First index of the readings before `rows[i]` that its flags can depend on, with a margin for the tests' own warm-up. */
+function contextStart(rows: Reading[], i: number, config: QcConfig) {
+  const since = rows[i].ts - 2 * contextMs(config);
+  let start = i;
+  while (start > 0 && rows[start - 1].ts >= since) start--;
+  return start;
+}
+
+/**
+ * `qcSeries` for `rows` when `prev` holds the flags of an earlier version of
+ * the same series that has since only lost readings at the head and gained
+ * some at the tail (a moving window). Readings the new ones cannot affect keep
+ * their flags; the rest are re-flagged with enough history for every test.
+ * Anything else, including a changed `config`, flags the whole series again.
+ */
+export function extendQcSeries(prev: { rows: Reading[]; flags: QcFlags[]; config: QcConfig } | undefined, rows: Reading[], config: QcConfig): QcFlags[] {
+  if (!prev || prev.config !== config || !prev.rows.length || !rows.length) return qcSeries(rows, config);
+  // Same reading objects, not just timestamps: another site or reloaded history starts over.
+  const offset = prev.rows.indexOf(rows[0]);
+  // The last previous reading may change: its spike test now has a successor.
+  const redo = prev.rows.length - offset - 1;
+  if (offset < 0 || redo >= rows.length || rows[redo] !== prev.rows[prev.rows.length - 1]) return qcSeries(rows, config);
+  const start = contextStart(rows, redo, config);
+  const tail = qcSeries(rows.slice(start), config);
+  return [...prev.flags.slice(offset, offset + redo), ...tail.slice(redo - start)];
+}
+
+/** Flag of `key` on the newest of `rows`, as `qcSeries` gives it, testing only that one parameter. */
+export function qcLatest(rows: Reading[], key: MeasuredKey, config: QcConfig): QcFlag {
+  if (!rows.length) return "not_evaluated";
+  const window = rows.slice(contextStart(rows, rows.length - 1, config));
+  const out = window.map(() => ({} as QcFlags));
+  flagParam(window, key, config, out);
+  return out[out.length - 1][key];
+}
+
+export function maskFailed(rows: Reading[], flags: QcFlags[]): Reading[] {
+  return rows.map((r, i) => {
+    const f = flags[i];
+    let out: Reading | null = null;
+    for (const key of PARAM_KEYS) {
+      if (f[key] !== "fail") continue;
+      out ??= { ...r };
+      out[key] = NaN;
+    }
+    return out ?? r;
+  });
+}
+
+/** Count of each flag per parameter. */
+export function qcSummary(flags: QcFlags[]): Record<ParamKey, Record<QcFlag, number>> {
+  const out = {} as Record<ParamKey, Record<QcFlag, number>>;
+  for (const k of PARAM_KEYS) out[k] = { pass: 0, not_evaluated: 0, suspect: 0, fail: 0 };
+  for (const f of flags) for (const k of PARAM_KEYS) out[k][f[k]]++;
+  return out;
+}
@@ -0,0 +1,198 @@
+import type { AlertLevel, ParamKey, Reading, Site } from "@/lib/types";
+import { PARAM_META } from "@/lib/types";
+import { classifyAlert, type ThresholdSet } from "@/lib/thresholds";
+import { alertSubject, alertValue, type AlertLogEntry } from "@/lib/alert-engine";
+import { PRECISION } from "@/lib/csv";
+import { lttb } from "@/lib/downsample";
+import { fmtduration, fmtnum } from "@/lib/format";
+
+/** Summary statistics for one parameter at one site over the report period. */
+export type ParamStats = {
+  n: number;
+  min: number;
+  mean: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  /** Time spent at each level; each reading counts until the next, up to `maxStepMs`. */
+  warnMs: number;
+  critMs: number;
+  /** Runs of consecutive readings outside the ok band. */
+  exceedances: number;
+  longestExcursionMs: number;
+};
+
+export type SiteReport = {
+  site: Site;
+  profile: string;
+  thresholds: ThresholdSet;
+  rows: Reading[];
+  /** Longest step between readings that still counts as continuous data (see `gapThresholdMs`). */
+  maxStepMs: number;
+  stats: Partial<Record<ParamKey, ParamStats>>;
+  /** Alerts opened or escalated during the period. */
+  alerts: AlertLogEntry[];
+};
+
+export type Report = {
+  title: string;
+  from: number;
+  to: number;
+  generatedAt: number;
+  params: ParamKey[];
+  sites: SiteReport[];
+};
+
+/** Linear-interpolated percentile of ascending `sorted`. */
+export function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return NaN;
+  const pos = (sorted.length - 1) * p;
+  const lo = Math.floor(pos), hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export function paramStats(rows: Reading[], key: ParamKey, limits: ThresholdSet, maxStepMs: number): ParamStats {
+  const present = rows.filter(r => Number.isFinite(r[key]));
+  const values = present.map(r => r[key]).sort((a, b) => a - b);
+  const stats: ParamStats = {
+    n: values.length,
+    min: values.length ? values[0] : NaN,
+    mean: values.length ? values.reduce((a, b) => a + b, 0) / values.length : NaN,
+    max: values.length ? values[values.length - 1] : NaN,
+    p10: percentile(values, 0.1),
+    p50: percentile(values, 0.5),
+    p90: percentile(values, 0.9),
+    warnMs: 0, critMs: 0, exceedances: 0, longestExcursionMs: 0,
+  };
+  let runStart: number | null = null;
+  for (let i = 0; i < present.length; i++) {
+    const r = present[i];
+    const level: AlertLevel = classifyAlert(key, r[key], limits);
+    const next = present[i + 1];
+    // A gap ends the reading's share of time, and any excursion it was part of.
+    const step = next ? Math.min(next.ts - r.ts, maxStepMs) : 0;
+    const broken = !next || next.ts - r.ts > maxStepMs;
+    if (level === "warn") stats.warnMs += step;
+    if (level === "crit") stats.critMs += step;
+    if (level !== "ok") {
+      if (runStart === null) { runStart = r.ts; stats.exceedances++; }
+      const end = r.ts + step;
+      stats.longestExcursionMs = Math.max(stats.longestExcursionMs, end - runStart);
+      if (broken) runStart = null;
+    } else {
+      runStart = null;
+    }
+  }
+  return stats;
+}
+
+/** Alert log entries for `siteId` that opened or escalated within `[from, to]`. */
+export function alertsInPeriod(log: AlertLogEntry[], siteId: string, from: number, to: number): AlertLogEntry[] {
+  return log.filter(e => e.siteId === siteId && e.ts >= from && e.ts <= to && (e.action === "opened" || e.action === "escalated"));
+}
+
+/** Statistics and alerts for one site; `rows` should already be QC-masked. */
+export function buildSiteReport(
+  site: Site, rows: Reading[], params: ParamKey[],
+  opts: { profile: string; thresholds: ThresholdSet; log: AlertLogEntry[]; from: number; to: number; maxStepMs: number },
+): SiteReport {
+  const inPeriod = rows.filter(r => r.ts >= opts.from && r.ts <= opts.to);
+  return {
+    site, profile: opts.profile, thresholds: opts.thresholds, rows: inPeriod, maxStepMs: opts.maxStepMs,
+    stats: Object.fromEntries(params.map(k => [k, paramStats(inPeriod, k, opts.thresholds, opts.maxStepMs)])),
+    alerts: alertsInPeriod(opts.log, site.id, opts.from, opts.to),
+  };
+}
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+const fmtDate = (t: number) => new Date(t).toLocaleString([], { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+/** Inline SVG sparkline with warn/crit guide lines; breaks the line across gaps. */
+export function sparkSvg(rows: Reading[], key: ParamKey, limits: ThresholdSet, from: number, to: number, maxStepMs: number, w = 220, h = 48): string {
+  const pts = lttb(rows.filter(r => Number.isFinite(r[key])), key, 200);
+  if (pts.length < 2) return `<svg class="spark" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}"><text x="4" y="${h / 2}" font-size="10" fill="#94a3b8">no data</text></svg>`;
+  const lim = limits[key];
+  const vals = [...pts.map(r => r[key]), lim.warn, lim.crit];
+  let lo = Math.min(...vals), hi = Math.max(...vals);
+  if (hi === lo) { hi += 1; lo -= 1; }
+  const pad = (hi - lo) * 0.08;
+  lo -= pad; hi += pad;
+  const x = (t: number) => ((t - from) / Math.max(1, to - from) * w).toFixed(1);
+  const y = (v: number) => (h - (v - lo) / (hi - lo) * h).toFixed(1);
+  let d = "";
+  pts.forEach((r, i) => {
+    const move = i === 0 || r.ts - pts[i - 1].ts > maxStepMs * 4;
+    d += `${move ? "M" : "L"}${x(r.ts)},${y(r[key])}`;
+  });
+  const guide = (v: number, color: string) => `<line x1="0" x2="${w}" y1="${y(v)}" y2="${y(v)}" stroke="${color}" stroke-dasharray="2 3" stroke-width="1"/>`;
+  return `<svg class="spark" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">${guide(lim.warn, "#eab308")}${guide(lim.crit, "#ef4444")}<path d="${d}" fill="none" stroke="#0ea5e9" stroke-width="1.5"/></svg>`;
+}
+
+const STYLE = `
+body { font: 13px/1.4 system-ui, -apple-system, "Segoe UI", sans-serif; color: #0f172a; margin: 24px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+h2 { font-size: 16px; margin: 24px 0 4px; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; }
+h3 { font-size: 13px; margin: 12px 0 2px; }
+.meta { color: #475569; font-size: 12px; margin: 0 0 8px; }
+table { border-collapse: collapse; width: 100%; margin: 8px 0; }
+th, td { padding: 3px 6px; border-bottom: 1px solid #e2e8f0; text-align: right; vertical-align: middle; }
+th { font-size: 11px; color: #64748b; font-weight: 600; }
+th:first-child, td:first-child, td.l { text-align: left; }
+td.warn { color: #a16207; } td.crit { color: #b91c1c; font-weight: 600; }
+.unit { color: #64748b; font-size: 11px; }
+.none { color: #64748b; }
+section.site { page-break-inside: avoid; }
+@media print {
+  body { margin: 0; font-size: 11px; }
+  section.site { page-break-before: always; }
+  section.site:first-of-type { page-break-before: auto; }
+  tr { page-break-inside: avoid; }
+}
+`;
+
+function siteSection(s: SiteReport, report: Report): string {
+  const head = `<h2>${escapeHtml(s.site.name)} <span class="unit">${escapeHtml(s.site.id)} · ${s.site.lat.toFixed(3)}, ${s.site.lon.toFixed(3)} · depth ${s.site.depth_m} m</span></h2>
+<p class="meta">Threshold profile: ${escapeHtml(s.profile)} · ${s.rows.length} readings</p>`;
+  const rows = report.params.map(k => {
+    const st = s.stats[k];
+    const d = PRECISION[k];
+    if (!st || !st.n) return `<tr><td>${escapeHtml(PARAM_META[k].label)}</td><td colspan="11" class="none">no data</td></tr>`;
+    return `<tr>
+<td>${escapeHtml(PARAM_META[k].label)} <span class="unit">${escapeHtml(PARAM_META[k].unit)}</span></td>
+<td>${fmtnum(st.min, d)}</td><td>${fmtnum(st.mean, d)}</td><td>${fmtnum(st.max, d)}</td>
+<td>${fmtnum(st.p10, d)}</td><td>${fmtnum(st.p50, d)}</td><td>${fmtnum(st.p90, d)}</td>
+<td class="${st.warnMs ? "warn" : ""}">${st.warnMs ? fmtduration(st.warnMs) : "—"}</td>
+<td class="${st.critMs ? "crit" : ""}">${st.critMs ? fmtduration(st.critMs) : "—"}</td>
+<td>${st.exceedances}</td>
+<td>${st.longestExcursionMs ? fmtduration(st.longestExcursionMs) : "—"}</td>
+<td>${sparkSvg(s.rows, k, s.thresholds, report.from, report.to, s.maxStepMs)}</td>
+</tr>`;
+  }).join("\n");
+  const alerts = s.alerts.length
+    ? `<table><thead><tr><th>Time</th><th>Subject</th><th>Action</th><th>Level</th><th>Value</th></tr></thead><tbody>
+${s.alerts.map(a => `<tr><td>${fmtDate(a.ts)}</td><td class="l">${escapeHtml(alertSubject(a))}</td><td class="l">${a.action}</td><td class="l ${a.level}">${a.level}</td><td>${escapeHtml(alertValue(a))}</td></tr>`).join("\n")}
+</tbody></table>`
+    : `<p class="none">No alerts raised in this period.</p>`;
+  return `<section class="site">
+${head}
+<table><thead><tr><th>Parameter</th><th>Min</th><th>Mean</th><th>Max</th><th>P10</th><th>Median</th><th>P90</th><th>In warn</th><th>In crit</th><th>Exceedances</th><th>Longest</th><th>Trend</th></tr></thead>
+<tbody>
+${rows}
+</tbody></table>
+<h3>Alerts</h3>
+${alerts}
+</section>`;
+}
+
+/** The report as a standalone HTML document (inline CSS and SVG, no external assets). */
+export function renderReportHtml(report: Report): string {
+  return `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title><style>${STYLE}</style></head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">${fmtDate(report.from)} – ${fmtDate(report.to)} · generated ${fmtDate(report.generatedAt)} · time in warn/crit and excursions use readings that passed QC; an excursion is a run of consecutive readings outside the ok band.</p>
+${report.sites.map(s => siteSection(s, report)).join("\n")}
+</body></html>`;
+}
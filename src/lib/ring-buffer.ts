@@ -0,0 +1,47 @@
+/** Fixed-capacity FIFO: pushing onto a full buffer drops the oldest item. Push is O(1) with no copying. */
+export type RingBuffer<T> = {
+  readonly capacity: number;
+  size(): number;
+  push(item: T): void;
+  first(): T | undefined;
+  last(): T | undefined;
+  /** Drop items from the old end while `pred` holds. */
+  dropWhile(pred: (item: T) => boolean): void;
+  /** Oldest first. */
+  toArray(): T[];
+  clear(): void;
+};
+
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  const items = new Array<T | undefined>(capacity);
+  let head = 0, count = 0;
+  const at = (i: number) => items[(head + i) % capacity] as T;
+
+  return {
+    capacity,
+    size: () => count,
+    push(item) {
+      items[(head + count) % capacity] = item;
+      if (count < capacity) count++;
+      else head = (head + 1) % capacity;
+    },
+    first: () => count ? at(0) : undefined,
+    last: () => count ? at(count - 1) : undefined,
+    dropWhile(pred) {
+      while (count && pred(at(0))) {
+        items[head] = undefined;
+        head = (head + 1) % capacity;
+        count--;
+      }
+    },
+    toArray() {
+      const out = new Array<T>(count);
+      for (let i = 0; i < count; i++) out[i] = at(i);
+      return out;
+    },
+    clear() {
+      items.fill(undefined);
+      head = count = 0;
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import type { AlertLevel, ParamKey } from "@/lib/types";
+import { BIOINDICATOR_KEYS } from "@/lib/types";
+import { classifyAlert, type ThresholdSet } from "@/lib/thresholds";
+
+/** Chain-of-custody states, in the only order a sample may move through them. */
+export type CustodyState = "collected" | "received" | "analyzed";
+
+export const CUSTODY_STEPS: CustodyState[] = ["collected", "received", "analyzed"];
+
+export type CustodyEvent = { state: CustodyState; at: number; by: string };
+
+/** Lab assays, each reporting one bioindicator parameter. */
+export const ASSAYS: { key: ParamKey; label: string }[] = [
+  { key: "gene_expr", label: "HAB toxin gene qPCR" },
+  { key: "methyl", label: "DNA methylation (stress)" },
+  { key: "metabo", label: "Toxin metabolites (LC‑MS)" },
+  { key: "lipid_ox", label: "Lipid oxidation (TBARS)" },
+];
+
+export const SPECIES = ["Pacific oyster", "Manila clam", "Geoduck", "Blue mussel"];
+export const TISSUES = ["Whole body", "Digestive gland", "Gill", "Adductor muscle"];
+
+/** A discrete lab observation on a collected shellfish sample. */
+export type LabSample = {
+  /** Lab-assigned sample id; unique. */
+  id: string;
+  siteId: string;
+  collectedAt: number;
+  species: string;
+  tissue: string;
+  assay: ParamKey;
+  /** Present once analyzed, in the assay parameter's units. */
+  result?: number;
+  /** Oldest first; the last entry is the current state. */
+  custody: CustodyEvent[];
+  notes?: string;
+};
+
+export const custodyOf = (s: LabSample): CustodyState => s.custody[s.custody.length - 1].state;
+
+export type NewSample = Omit<LabSample, "custody" | "result"> & { by: string };
+
+export function createSample(samples: LabSample[], input: NewSample, now: number): LabSample {
+  const id = input.id.trim();
+  if (!id) throw new Error("Sample id is required");
+  if (samples.some(s => s.id === id)) throw new Error(`Sample ${id} already exists`);
+  if (!input.by.trim()) throw new Error("Collector is required");
+  if (!Number.isFinite(input.collectedAt) || input.collectedAt > now) throw new Error("Collection time must be in the past");
+  if (!BIOINDICATOR_KEYS.includes(input.assay)) throw new Error("Unknown assay");
+  const { by, ...rest } = input;
+  return { ...rest, id, custody: [{ state: "collected", at: input.collectedAt, by: by.trim() }] };
+}
+
+/**
+ * Move a sample to the next custody state. Analysis must carry a finite,
+ * non-negative result; states cannot be skipped or repeated.
+ */
+export function advanceCustody(sample: LabSample, by: string, at: number, result?: number): LabSample {
+  const next = CUSTODY_STEPS[CUSTODY_STEPS.indexOf(custodyOf(sample)) + 1];
+  if (!next) throw new Error(`Sample ${sample.id} is already analyzed`);
+  if (!by.trim()) throw new Error("Name is required");
+  if (at < sample.custody[sample.custody.length - 1].at) throw new Error("Custody events must be in time order");
+  if (next === "analyzed" && (result === undefined || !Number.isFinite(result) || result < 0)) {
+    throw new Error("A non-negative result is required");
+  }
+  return {
+    ...sample,
+    result: next === "analyzed" ? result : sample.result,
+    custody: [...sample.custody, { state: next, at, by: by.trim() }],
+  };
+}
+
+export type SampleMarker = { ts: number; value: number; level: AlertLevel; sampleId: string };
+
+/** Analyzed results for one site and assay parameter, classified against the site's thresholds. */
+export function sampleMarkers(samples: LabSample[], siteId: string, key: ParamKey, limits: ThresholdSet, from = -Infinity, to = Infinity): SampleMarker[] {
+  return samples
+    .filter(s => s.siteId === siteId && s.assay === key && s.result !== undefined && s.collectedAt >= from && s.collectedAt <= to)
+    .map(s => ({ ts: s.collectedAt, value: s.result!, level: classifyAlert(key, s.result!, limits), sampleId: s.id }))
+    .sort((a, b) => a.ts - b.ts);
+}
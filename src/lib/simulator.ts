@@ -0,0 +1,195 @@
+import type { Reading } from "@/lib/types";
+import { UNDERIVED } from "@/lib/types";
+import { oxygenSolubility } from "@/lib/oceanography";
+
+/**
+ * Deterministic demo data. A reading is a pure function of the seed, the site
+ * id, the simulated time and the scenarios running at that site, so the same
+ * seed replays the same week and the clock can be scrubbed freely. Baselines
+ * follow the sun (diurnal temperature and photosynthetic DO/pH swings), the
+ * tide (salinity, turbidity from tidal currents) and slow weather noise;
+ * bioindicators respond to their drivers with a lag.
+ */
+
+export type ScenarioKind = "heatwave" | "hypoxia" | "hab_bloom" | "storm_runoff";
+
+export const SCENARIO_KINDS: { value: ScenarioKind; label: string; hours: number; description: string }[] = [
+  { value: "heatwave", label: "Marine heatwave", hours: 72, description: "Water warms by up to 8 °C; DO saturation falls, lipid oxidation and methylation climb." },
+  { value: "hypoxia", label: "Hypoxia upwelling", hours: 36, description: "Cold, salty, low-oxygen, low-pH deep water reaches the site." },
+  { value: "hab_bloom", label: "HAB bloom", hours: 120, description: "Chlorophyll-a rises up to tenfold; gene expression follows ~3 h later and toxin metabolites ~6 h after that; DO and pH swing wider day to night." },
+  { value: "storm_runoff", label: "Storm runoff", hours: 24, description: "Freshwater pulse: salinity drops, a turbidity spike that clears faster than the salinity recovers." },
+];
+
+/** One scripted event at one site, scheduled in simulated time. `intensity` 1 is a typical event. */
+export type Scenario = { id: string; siteId: string; kind: ScenarioKind; start: number; durationH: number; intensity: number };
+
+/**
+ * Maps wall time to simulated time. Readings are still stamped with wall time;
+ * the clock decides which simulated moment their values come from. Before
+ * `anchorWall` (backfill) simulated time runs at real speed.
+ */
+export type SimClock = { anchorWall: number; anchorSim: number; speed: number; paused: boolean };
+
+export type SimulationState = { seed: number; clock: SimClock; scenarios: Scenario[] };
+
+export const PLAYBACK_SPEEDS = [1, 10, 60, 360];
+
+/** Simulated time equals wall time until someone changes speed or scrubs. */
+export const DEFAULT_SIMULATION: SimulationState = {
+  seed: 42,
+  clock: { anchorWall: 0, anchorSim: 0, speed: 1, paused: false },
+  scenarios: [],
+};
+
+export function simTime(clock: SimClock, wall: number): number {
+  if (wall < clock.anchorWall) return clock.anchorSim - (clock.anchorWall - wall);
+  return clock.paused ? clock.anchorSim : clock.anchorSim + (wall - clock.anchorWall) * clock.speed;
+}
+
+/** Re-anchor at `wall` so simulated time stays continuous, then apply `patch` (speed, pause, or a new `anchorSim` to seek). */
+export function reanchor(clock: SimClock, wall: number, patch: Partial<Omit<SimClock, "anchorWall">>): SimClock {
+  return { ...clock, anchorWall: wall, anchorSim: simTime(clock, wall), ...patch };
+}
+
+export function scenarioStatus(s: Scenario, simNow: number): "scheduled" | "running" | "done" {
+  if (simNow < s.start) return "scheduled";
+  return simNow < s.start + s.durationH * 3600_000 ? "running" : "done";
+}
+
+// --- deterministic noise -----------------------------------------------------
+
+function mix(h: number, v: number) {
+  h = Math.imul(h ^ v, 0x5bd1e995);
+  return h ^ (h >>> 15);
+}
+
+function hashKey(seed: number, ...parts: string[]) {
+  let h = (seed | 0) ^ 0x811c9dc5;
+  for (const p of parts) for (let i = 0; i < p.length; i++) h = mix(h, p.charCodeAt(i));
+  return h;
+}
+
+/** Uniform in [0, 1). */
+function unit(h: number) {
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  h = Math.imul(h ^ (h >>> 13), 0x45d9f3b);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+const smoothstep = (u: number) => u <= 0 ? 0 : u >= 1 ? 1 : u * u * (3 - 2 * u);
+
+/** Smooth value noise in [-1, 1] varying on a time scale of `periodMs`. */
+function valueNoise(key: number, t: number, periodMs: number) {
+  const x = t / periodMs, i = Math.floor(x);
+  const a = unit(mix(key, i)) * 2 - 1, b = unit(mix(key, i + 1)) * 2 - 1;
+  return a + (b - a) * smoothstep(x - i);
+}
+
+/** Three octaves of value noise, roughly in [-1, 1]. */
+const fbm = (key: number, t: number, periodMs: number) =>
+  0.6 * valueNoise(key, t, periodMs) + 0.3 * valueNoise(key ^ 0x1f, t, periodMs / 3) + 0.1 * valueNoise(key ^ 0x2e, t, periodMs / 9);
+
+/** Per-reading sensor noise, uniform in ±`sd`. */
+const jitter = (key: number, t: number, sd: number) => (unit(mix(key ^ 0x3d, Math.floor(t / 1000))) * 2 - 1) * sd;
+
+// --- site model -------------------------------------------------------------
+
+const HOUR = 3600_000, DAY = 24 * HOUR;
+const M2 = 12.42 * HOUR, S2 = 12 * HOUR;
+/** Demo sites are in Puget Sound; the sun keeps Pacific time whatever the browser's timezone. */
+const SOLAR_LON = -122.5;
+
+type SiteModel = {
+  tempMean: number; diurnal: number; salMean: number; tideAmp: number; tidePhase: number;
+  chlBase: number; turbBase: number; keys: Record<string, number>;
+};
+
+const NOISE_KEYS = ["temp", "sal", "ph", "do", "turb", "chl", "gene_expr", "methyl", "metabo", "lipid_ox"];
+const models = new Map<string, SiteModel>();
+
+/** Site character (mean temperature, tidal range, turbidity…) drawn once from the seed. */
+function siteModel(seed: number, siteId: string): SiteModel {
+  const id = `${seed}:${siteId}`;
+  let m = models.get(id);
+  if (m) return m;
+  const r = (name: string) => unit(hashKey(seed, siteId, name));
+  m = {
+    tempMean: 10 + 3 * r("temp"),
+    diurnal: 0.4 + 0.4 * r("diurnal"),
+    salMean: 26.5 + 3.5 * r("sal"),
+    tideAmp: 0.8 + 1.4 * r("tide"),
+    tidePhase: 2 * Math.PI * r("phase"),
+    chlBase: 3 + 4 * r("chl"),
+    turbBase: 6 + 8 * r("turb"),
+    keys: Object.fromEntries(NOISE_KEYS.map(k => [k, hashKey(seed, siteId, "noise", k)])),
+  };
+  models.set(id, m);
+  return m;
+}
+
+type Effects = Record<ScenarioKind, number>;
+
+/** 0–1 strength of a scenario at `t`: a smooth rise and fall, or for storms a quick onset and exponential recovery. */
+function envelope(s: Scenario, t: number) {
+  const dur = s.durationH * HOUR, x = (t - s.start) / dur;
+  if (!(x > 0 && x < 1)) return 0;
+  if (s.kind === "storm_runoff") return smoothstep((t - s.start) / (2 * HOUR)) * Math.exp(-4 * x) * smoothstep((1 - x) / 0.1);
+  const rise = s.kind === "hab_bloom" ? 0.4 : s.kind === "hypoxia" ? 0.15 : 0.25;
+  return smoothstep(x / rise) * smoothstep((1 - x) / 0.3);
+}
+
+function effectsAt(scenarios: Scenario[], siteId: string, t: number): Effects {
+  const e: Effects = { heatwave: 0, hypoxia: 0, hab_bloom: 0, storm_runoff: 0 };
+  for (const s of scenarios) if (s.siteId === siteId) e[s.kind] += s.intensity * envelope(s, t);
+  return e;
+}
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+function chlAt(m: SiteModel, scenarios: Scenario[], siteId: string, t: number) {
+  const e = effectsAt(scenarios, siteId, t);
+  return m.chlBase * Math.exp(0.5 * fbm(m.keys.chl, t, 2 * DAY)) * (1 + 9 * e.hab_bloom) * (1 - 0.3 * Math.min(1, e.storm_runoff));
+}
+
+/** HAB gene expression saturates as chlorophyll-a three hours earlier climbs. */
+function geneAt(m: SiteModel, scenarios: Scenario[], siteId: string, t: number) {
+  const chl = chlAt(m, scenarios, siteId, t - 3 * HOUR);
+  return clamp(12 + 70 * (1 - Math.exp(-chl / 30)) + 4 * fbm(m.keys.gene_expr, t, DAY), 0, 100);
+}
+
+/** One reading at simulated time `t` (also its `ts`; callers restamp live readings with wall time). */
+export function simulateReading(seed: number, siteId: string, t: number, scenarios: Scenario[] = []): Reading {
+  const m = siteModel(seed, siteId);
+  const k = m.keys;
+  const e = effectsAt(scenarios, siteId, t);
+  const late = effectsAt(scenarios, siteId, t - 12 * HOUR);
+
+  const hour = (((t / HOUR + SOLAR_LON / 15) % 24) + 24) % 24;
+  const light = Math.max(0, Math.sin(Math.PI * (hour - 6) / 12));
+  const dayOfYear = (t / DAY) % 365.25;
+  const tidal = (f: typeof Math.cos) => 0.7 * f(2 * Math.PI * t / M2 + m.tidePhase) + 0.3 * f(2 * Math.PI * t / S2 + m.tidePhase);
+  const tide = tidal(Math.cos), current = Math.abs(tidal(Math.sin));
+
+  const temp = m.tempMean + 3.5 * Math.sin(2 * Math.PI * (dayOfYear - 110) / 365.25) + m.diurnal * Math.cos(2 * Math.PI * (hour - 15) / 24)
+    + 1.2 * fbm(k.temp, t, 2 * DAY) - 0.3 * tide
+    + 8 * e.heatwave - 2.5 * e.hypoxia - e.storm_runoff + jitter(k.temp, t, 0.02);
+  const sal = clamp(m.salMean + m.tideAmp * tide + 0.8 * fbm(k.sal, t, 3 * DAY) + 2.5 * e.hypoxia - 16 * e.storm_runoff + jitter(k.sal, t, 0.02), 0, 36);
+  const chl = chlAt(m, scenarios, siteId, t);
+  // Photosynthesis by day, respiration by night; blooms widen the swing.
+  const doSat = 96 + (6 + chl) * (light - 0.32) + 4 * fbm(k.do, t, DAY) - 60 * e.hypoxia - 10 * e.heatwave;
+  const dissolved = Math.max(0.2, oxygenSolubility(temp, sal) * doSat / 100 + jitter(k.do, t, 0.03));
+  const ph = 8.06 + 0.0035 * (doSat - 96) + 0.015 * (sal - m.salMean) + 0.03 * fbm(k.ph, t, 1.5 * DAY)
+    - 0.35 * e.hypoxia - 0.2 * e.storm_runoff + jitter(k.ph, t, 0.003);
+  const turb = m.turbBase * Math.exp(0.35 * fbm(k.turb, t, DAY)) + 8 * current + 320 * e.storm_runoff ** 2 + jitter(k.turb, t, 0.3);
+  const gene = geneAt(m, scenarios, siteId, t);
+  const metabo = clamp(8 + 0.65 * geneAt(m, scenarios, siteId, t - 6 * HOUR) + 4 * fbm(k.metabo, t, DAY), 0, 100);
+  const methyl = clamp(0.42 + 0.02 * fbm(k.methyl, t, 2 * DAY) + 0.15 * late.heatwave + 0.12 * late.hypoxia, 0, 1);
+  const lipid = clamp(0.22 + 0.008 * (temp - m.tempMean) + 0.02 * fbm(k.lipid_ox, t, 2 * DAY) + 0.2 * e.heatwave + 0.1 * late.hypoxia, 0, 1);
+
+  return {
+    ts: t,
+    temp, sal, ph, do: dissolved, turb, chl,
+    gene_expr: gene, methyl, metabo, lipid_ox: lipid,
+    ...UNDERIVED,
+  };
+}
@@ -0,0 +1,126 @@
+import type { Site } from "@/lib/types";
+
+/** A grouping of sites: a geographic region or a farm operating several leases. */
+export type Region = {
+  id: string;
+  name: string;
+  kind: "region" | "farm";
+};
+
+export type SiteConfig = {
+  regions: Region[];
+  sites: Site[];
+};
+
+export const DEFAULT_SITE_CONFIG: SiteConfig = {
+  regions: [
+    { id: "central-sound", name: "Central Puget Sound", kind: "region" },
+    { id: "south-sound", name: "South Puget Sound", kind: "region" },
+    { id: "skagit-farm", name: "Skagit Bay Shellfish", kind: "farm" },
+  ],
+  sites: [
+    { id: "PS-EDMONDS", name: "Edmonds Nearshore", lat: 47.812, lon: -122.377, depth_m: 4, regionId: "central-sound", tags: { species: ["Pacific oyster"] } },
+    { id: "PS-ALKI", name: "Alki Cove", lat: 47.576, lon: -122.413, depth_m: 5, regionId: "central-sound", tags: { species: ["Manila clam"] } },
+    { id: "PS-DOCKTON", name: "Dockton Cove", lat: 47.373, lon: -122.463, depth_m: 3, regionId: "south-sound", tags: { species: ["Pacific oyster", "Blue mussel"] } },
+    { id: "PS-SKAGIT", name: "Skagit Bay Farm", lat: 48.327, lon: -122.482, depth_m: 2, regionId: "skagit-farm", tags: { species: ["Pacific oyster"], leaseId: "DNR-22-A104", owner: "Skagit Bay Shellfish" } },
+  ],
+};
+
+/** Deepest site we accept; anything past this is almost certainly a sign or unit slip. */
+export const MAX_DEPTH_M = 500;
+
+/** First problem with a site draft, or null. `others` excludes the site being edited. */
+export function siteError(site: Site, others: Site[]): string | null {
+  if (!/^[A-Za-z0-9][\w.-]*$/.test(site.id)) return "Id is required: letters, digits, '-', '_' or '.'.";
+  if (others.some(s => s.id.toLowerCase() === site.id.toLowerCase())) return `Id "${site.id}" is already used.`;
+  if (!site.name.trim()) return "Name is required.";
+  if (!Number.isFinite(site.lat) || site.lat < -90 || site.lat > 90) return "Latitude must be between -90 and 90.";
+  if (!Number.isFinite(site.lon) || site.lon < -180 || site.lon > 180) return "Longitude must be between -180 and 180.";
+  if (!Number.isFinite(site.depth_m) || site.depth_m <= 0 || site.depth_m > MAX_DEPTH_M) return `Depth must be above 0 and at most ${MAX_DEPTH_M} m.`;
+  return null;
+}
+
+export const activeSites = (config: SiteConfig) => config.sites.filter(s => !s.archived);
+
+/** Filterable tags as `field:value` strings, e.g. `species:Pacific oyster`. */
+export function siteTags(site: Site): string[] {
+  const t = site.tags;
+  if (!t) return [];
+  return [
+    ...t.species.map(s => `species:${s}`),
+    ...(t.leaseId ? [`lease:${t.leaseId}`] : []),
+    ...(t.owner ? [`owner:${t.owner}`] : []),
+  ];
+}
+
+export const TAG_FIELDS: Record<string, string> = { species: "Species", lease: "Lease", owner: "Owner" };
+
+export function tagLabel(tag: string) {
+  const i = tag.indexOf(":");
+  return `${TAG_FIELDS[tag.slice(0, i)] ?? tag.slice(0, i)}: ${tag.slice(i + 1)}`;
+}
+
+/** Every tag in use, sorted by field then value. */
+export const allTags = (sites: Site[]) => [...new Set(sites.flatMap(siteTags))].sort();
+
+export type SiteFilter = {
+  query: string;
+  /** Region id; empty for all. */
+  regionId: string;
+  /** A `siteTags` entry; empty for all. */
+  tag: string;
+};
+
+export function matchesSiteFilter(site: Site, { query, regionId, tag }: SiteFilter): boolean {
+  const q = query.trim().toLowerCase();
+  if (q && !site.name.toLowerCase().includes(q) && !site.id.toLowerCase().includes(q)) return false;
+  if (regionId && site.regionId !== regionId) return false;
+  return !tag || siteTags(site).includes(tag);
+}
+
+/**
+ * Validate an imported JSON document (what Export JSON writes, or a bare
+ * site array); throws with a readable message on anything else.
+ */
+export function parseSiteConfig(raw: unknown): SiteConfig {
+  const doc = Array.isArray(raw) ? { regions: [], sites: raw } : raw as Partial<SiteConfig> | null;
+  if (!doc || !Array.isArray(doc.sites)) throw new Error("Expected an object with a `sites` array");
+  const regions: Region[] = (doc.regions ?? []).map((r, i) => {
+    if (!r || typeof r.id !== "string" || typeof r.name !== "string") throw new Error(`Region #${i + 1} needs string \`id\` and \`name\``);
+    return { id: r.id, name: r.name, kind: r.kind === "farm" ? "farm" : "region" };
+  });
+  const sites: Site[] = [];
+  doc.sites.forEach((s, i) => {
+    if (!s || typeof s.id !== "string" || typeof s.name !== "string") throw new Error(`Site #${i + 1} needs string \`id\` and \`name\``);
+    const site: Site = {
+      id: s.id, name: s.name, lat: Number(s.lat), lon: Number(s.lon), depth_m: Number(s.depth_m),
+      ...(typeof s.regionId === "string" ? { regionId: s.regionId } : {}),
+      ...(s.archived ? { archived: true } : {}),
+    };
+    if (s.tags) {
+      site.tags = {
+        species: Array.isArray(s.tags.species) ? s.tags.species.map(String) : [],
+        ...(s.tags.leaseId ? { leaseId: String(s.tags.leaseId) } : {}),
+        ...(s.tags.owner ? { owner: String(s.tags.owner) } : {}),
+      };
+    }
+    const error = siteError(site, sites);
+    if (error) throw new Error(`Site "${s.id}": ${error}`);
+    sites.push(site);
+  });
+  return { regions, sites };
+}
+
+/** Merge imported regions and sites over existing ones by id; imported entries win. */
+export function mergeSiteConfig(current: SiteConfig, incoming: SiteConfig): SiteConfig {
+  const regions = new Map(current.regions.map(r => [r.id, r]));
+  for (const r of incoming.regions) regions.set(r.id, r);
+  const sites = new Map(current.sites.map(s => [s.id, s]));
+  for (const s of incoming.sites) sites.set(s.id, s);
+  const merged = { regions: [...regions.values()], sites: [...sites.values()] };
+  for (const s of merged.sites) {
+    if (s.regionId && !regions.has(s.regionId)) throw new Error(`Site "${s.id}" refers to unknown region "${s.regionId}"`);
+  }
+  if (!activeSites(merged).length) throw new Error("At least one site must remain active");
+  return merged;
+}
@@ -0,0 +1,17 @@
+/** Read a JSON value from localStorage, falling back when missing, unparsable or storage is unavailable. */
+export function loadJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveJSON(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota exceeded or storage disabled (private mode); keep working in memory.
+  }
+}
@@ -0,0 +1,63 @@
+import type { Reading } from "@/lib/types";
+import { createReadingSchedule } from "@/lib/benchmark";
+import { createSourceCore } from "./core";
+import type { TelemetrySource } from "./types";
+import type { BenchmarkWorkerBatch, BenchmarkWorkerRequest } from "./benchmark.worker";
+
+export interface BenchmarkSource extends TelemetrySource {
+  readonly benchmark: { readings(): number };
+}
+
+export const isBenchmarkSource = (source: TelemetrySource): source is BenchmarkSource => "benchmark" in source;
+
+const TICK_MS = 50;
+
+/**
+ * Synthetic load: `siteIds` each report `ratePerSite` times a second from the
+ * baseline simulator. With `worker`, readings are generated off the main thread
+ * and arrive in batches, so frame times measure ingestion and rendering only.
+ * Nothing is backfilled.
+ */
+export function createBenchmarkSource(siteIds: string[], options: { ratePerSite: number; worker: boolean; seed?: number }): BenchmarkSource {
+  const core = createSourceCore();
+  const seed = options.seed ?? 42;
+  let count = 0;
+  let stop: (() => void) | null = null;
+
+  const emit = (readings: [string, Reading][]) => {
+    count += readings.length;
+    for (const [siteId, reading] of readings) core.emit(siteId, reading);
+  };
+
+  function startWorker() {
+    const worker = new Worker(new URL("./benchmark.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<BenchmarkWorkerBatch>) => emit(e.data.readings);
+    worker.postMessage({ type: "start", siteIds, ratePerSite: options.ratePerSite, seed, tickMs: TICK_MS } satisfies BenchmarkWorkerRequest);
+    return () => worker.terminate();
+  }
+
+  function startTimer() {
+    const schedule = createReadingSchedule(siteIds, options.ratePerSite, seed, Date.now());
+    const timer = window.setInterval(() => emit(schedule.due(Date.now())), TICK_MS);
+    return () => window.clearInterval(timer);
+  }
+
+  return {
+    label: options.worker ? "Benchmark (worker)" : "Benchmark",
+    connect() {
+      if (stop) return;
+      stop = options.worker ? startWorker() : startTimer();
+      core.setStatus("open");
+    },
+    disconnect() {
+      stop?.();
+      stop = null;
+      core.setStatus("closed");
+    },
+    subscribe: core.subscribe,
+    backfill: async () => [],
+    status: core.status,
+    onStatus: core.onStatus,
+    benchmark: { readings: () => count },
+  };
+}
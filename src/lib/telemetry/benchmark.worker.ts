@@ -0,0 +1,23 @@
+import type { Reading } from "@/lib/types";
+import { createReadingSchedule } from "@/lib/benchmark";
+
+export type BenchmarkWorkerRequest =
+  | { type: "start"; siteIds: string[]; ratePerSite: number; seed: number; tickMs: number }
+  | { type: "stop" };
+
+export type BenchmarkWorkerBatch = { type: "batch"; readings: [string, Reading][] };
+
+// The DOM lib has no worker global scope type; a dedicated worker's `self` talks like a Worker.
+const scope = self as unknown as Worker;
+let timer: ReturnType<typeof setInterval> | undefined;
+
+scope.onmessage = (e: MessageEvent<BenchmarkWorkerRequest>) => {
+  clearInterval(timer);
+  if (e.data.type !== "start") return;
+  const { siteIds, ratePerSite, seed, tickMs } = e.data;
+  const schedule = createReadingSchedule(siteIds, ratePerSite, seed, Date.now());
+  timer = setInterval(() => {
+    const readings = schedule.due(Date.now());
+    if (readings.length) scope.postMessage({ type: "batch", readings } satisfies BenchmarkWorkerBatch);
+  }, tickMs);
+};
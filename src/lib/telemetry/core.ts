@@ -0,0 +1,112 @@
+import type { MeasuredKey, Reading } from "@/lib/types";
+import { MEASURED_KEYS, UNDERIVED } from "@/lib/types";
+import type { ConnectionStatus, ReadingListener, StatusListener } from "./types";
+
+/** Listener bookkeeping shared by every adapter. */
+export function createSourceCore() {
+  const listeners = new Map<string, Set<ReadingListener>>();
+  const statusListeners = new Set<StatusListener>();
+  let status: ConnectionStatus = "idle";
+
+  return {
+    subscribe(siteId: string, listener: ReadingListener) {
+      let set = listeners.get(siteId);
+      if (!set) listeners.set(siteId, set = new Set());
+      set.add(listener);
+      return () => {
+        set!.delete(listener);
+        if (set!.size === 0) listeners.delete(siteId);
+      };
+    },
+    siteIds: () => [...listeners.keys()],
+    emit(siteId: string, reading: Reading) {
+      listeners.get(siteId)?.forEach(l => l(reading));
+    },
+    status: () => status,
+    setStatus(next: ConnectionStatus) {
+      if (next === status) return;
+      status = next;
+      statusListeners.forEach(l => l(next));
+    },
+    onStatus(listener: StatusListener) {
+      statusListeners.add(listener);
+      return () => { statusListeners.delete(listener); };
+    },
+  };
+}
+
+/** Exponential backoff with full jitter, capped at `maxMs`. */
+export function backoffDelay(attempt: number, baseMs = 1000, maxMs = 30_000) {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+// Field aliases accepted from upstream payloads, including our own CSV export headers.
+const ALIASES: Record<MeasuredKey, string[]> = {
+  temp: ["temp", "temp_c", "temperature"],
+  sal: ["sal", "sal_psu", "salinity"],
+  ph: ["ph"],
+  do: ["do", "do_mgL", "do_mgl", "oxygen"],
+  turb: ["turb", "turb_ntu", "turbidity"],
+  chl: ["chl", "chl_ugL", "chl_ugl", "chlorophyll"],
+  gene_expr: ["gene_expr", "gene_expr_AU"],
+  methyl: ["methyl", "methyl_frac"],
+  metabo: ["metabo", "metabo_AU"],
+  lipid_ox: ["lipid_ox", "lipid_ox_frac"],
+};
+
+function parseTimestamp(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v < 1e12 ? v * 1000 : v;
+  if (typeof v === "string") {
+    const n = Number(v);
+    if (v.trim() !== "" && Number.isFinite(n)) return parseTimestamp(n);
+    const t = Date.parse(v);
+    return Number.isNaN(t) ? null : t;
+  }
+  return null;
+}
+
+/**
+ * Map one upstream JSON record into a `Reading`. Missing parameters are carried
+ * over from `prev` so partial payloads don't blank out a series. Returns null
+ * when the record has no usable timestamp or no parameter values at all.
+ */
+export function toReading(raw: unknown, prev?: Reading): Reading | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const ts = parseTimestamp(obj.ts ?? obj.timestamp ?? obj.time);
+  if (ts === null) return null;
+  // Derived values are computed on arrival, not taken from upstream.
+  const out = { ts, ...UNDERIVED } as Reading;
+  let found = 0;
+  for (const key of MEASURED_KEYS) {
+    const alias = ALIASES[key].find(a => obj[a] !== undefined && obj[a] !== null && obj[a] !== "");
+    const n = alias ? Number(obj[alias]) : NaN;
+    if (Number.isFinite(n)) { out[key] = n; found++; }
+    else if (prev) out[key] = prev[key];
+    else out[key] = NaN;
+  }
+  return found > 0 ? out : null;
+}
+
+/** Site id from an upstream record; accepts `siteId`, `site_id` or `site`. */
+export function siteIdOf(raw: unknown): string | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const id = obj.siteId ?? obj.site_id ?? obj.site;
+  return typeof id === "string" ? id : null;
+}
+
+/** Fetch `url` and map its JSON array body into readings, sorted by `ts`. */
+export async function fetchReadings(url: string): Promise<Reading[]> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+  const body = await res.json();
+  const rows: unknown[] = Array.isArray(body) ? body : Array.isArray(body?.readings) ? body.readings : [];
+  const out: Reading[] = [];
+  for (const row of rows) {
+    const r = toReading(row, out[out.length - 1]);
+    if (r) out.push(r);
+  }
+  return out.sort((a, b) => a.ts - b.ts);
+}
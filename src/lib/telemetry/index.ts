@@ -0,0 +1,31 @@
+import { createPollingSource } from "./polling";
+import { createSimulatorSource } from "./simulator";
+import { createWebSocketSource } from "./websocket";
+import type { TelemetrySource } from "./types";
+
+export type { ConnectionStatus, TelemetrySource } from "./types";
+export { createPollingSource, createSimulatorSource, createWebSocketSource };
+export { isSimulatorSource, type SimulatorSource, type SimulationControls } from "./simulator";
+export { createBenchmarkSource, isBenchmarkSource, type BenchmarkSource } from "./benchmark";
+
+/**
+ * Pick the source from build-time env (see README):
+ * `VITE_TELEMETRY_SOURCE` = simulator | websocket | polling.
+ */
+export function createTelemetrySource(): TelemetrySource {
+  const env = import.meta.env;
+  switch (env.VITE_TELEMETRY_SOURCE) {
+    case "websocket":
+      return createWebSocketSource({
+        url: env.VITE_TELEMETRY_WS_URL ?? "ws://localhost:8787/ws",
+        historyUrl: env.VITE_TELEMETRY_API_URL ?? "http://localhost:8787/api",
+      });
+    case "polling":
+      return createPollingSource({
+        url: env.VITE_TELEMETRY_API_URL ?? "http://localhost:8787/api",
+        intervalMs: Number(env.VITE_TELEMETRY_POLL_MS) || 5000,
+      });
+    default:
+      return createSimulatorSource();
+  }
+}
@@ -0,0 +1,82 @@
+import type { Reading } from "@/lib/types";
+import { backoffDelay, createSourceCore, fetchReadings, siteIdOf, toReading } from "./core";
+import type { TelemetrySource } from "./types";
+
+export type PollingSourceOptions = {
+  /** HTTP base, e.g. `http://localhost:8787/api`. */
+  url: string;
+  intervalMs?: number;
+};
+
+/**
+ * Polls `{url}/latest?sites=A,B` for an array of records (one or more per
+ * site) and emits those newer than the last reading seen for that site.
+ * Failed polls back off exponentially and report "reconnecting".
+ */
+export function createPollingSource({ url, intervalMs = 5000 }: PollingSourceOptions): TelemetrySource {
+  const core = createSourceCore();
+  const last = new Map<string, Reading>();
+  let timer: number | null = null;
+  let attempt = 0;
+  let wanted = false;
+  // Bumped by every connect; a poll still awaiting a fetch from an earlier connection must not reschedule itself.
+  let generation = 0;
+
+  async function poll(gen: number) {
+    timer = null;
+    const current = () => wanted && gen === generation;
+    const sites = core.siteIds();
+    try {
+      if (sites.length) {
+        const res = await fetch(`${url}/latest?${new URLSearchParams({ sites: sites.join(",") })}`);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const body = await res.json();
+        for (const record of Array.isArray(body) ? body : [body]) {
+          const siteId = siteIdOf(record);
+          if (!siteId) continue;
+          const prev = last.get(siteId);
+          const reading = toReading(record, prev);
+          if (!current() || !reading || (prev && reading.ts <= prev.ts)) continue;
+          last.set(siteId, reading);
+          core.emit(siteId, reading);
+        }
+      }
+      if (!current()) return;
+      attempt = 0;
+      core.setStatus("open");
+    } catch {
+      if (!current()) return;
+      core.setStatus("reconnecting");
+      attempt++;
+    }
+    timer = window.setTimeout(() => poll(gen), attempt === 0 ? intervalMs : backoffDelay(attempt - 1, intervalMs));
+  }
+
+  return {
+    label: "HTTP polling",
+    connect() {
+      if (wanted) return;
+      wanted = true;
+      attempt = 0;
+      core.setStatus("connecting");
+      poll(++generation);
+    },
+    disconnect() {
+      wanted = false;
+      if (timer !== null) window.clearTimeout(timer);
+      timer = null;
+      core.setStatus("closed");
+    },
+    subscribe: core.subscribe,
+    async backfill(siteId, from, to) {
+      const q = new URLSearchParams({ site: siteId, from: String(from), to: String(to) });
+      const rows = await fetchReadings(`${url}/history?${q}`);
+      const prev = last.get(siteId);
+      const end = rows[rows.length - 1];
+      if (end && (!prev || prev.ts < end.ts)) last.set(siteId, end);
+      return rows;
+    },
+    status: core.status,
+    onStatus: core.onStatus,
+  };
+}
@@ -0,0 +1,70 @@
+import type { Reading } from "@/lib/types";
+import { DEFAULT_SIMULATION, simTime, simulateReading, type SimulationState } from "@/lib/simulator";
+import { createSourceCore } from "./core";
+import type { TelemetrySource } from "./types";
+
+/** Seed, clock and scenarios of a running simulator; the Simulator tab drives these. */
+export interface SimulationControls {
+  get(): SimulationState;
+  set(next: SimulationState): void;
+}
+
+export interface SimulatorSource extends TelemetrySource {
+  readonly simulation: SimulationControls;
+}
+
+export const isSimulatorSource = (source: TelemetrySource): source is SimulatorSource => "simulation" in source;
+
+/**
+ * The in-browser scenario simulator, wrapped as a source. Emits every subscribed
+ * site each `intervalMs` (stamped with wall time, valued at the simulated clock),
+ * and once more right after the simulation changes so scrubbing shows at once.
+ */
+export function createSimulatorSource(intervalMs = 5000): SimulatorSource {
+  const core = createSourceCore();
+  let state: SimulationState = DEFAULT_SIMULATION;
+  let timer: number | null = null;
+  let lastEmit = 0;
+
+  const emitAll = () => {
+    const now = Date.now();
+    lastEmit = now;
+    if (state.clock.paused) return;
+    const t = simTime(state.clock, now);
+    for (const siteId of core.siteIds()) {
+      core.emit(siteId, { ...simulateReading(state.seed, siteId, t, state.scenarios), ts: now });
+    }
+  };
+
+  return {
+    label: "Simulator",
+    connect() {
+      if (timer !== null) return;
+      core.setStatus("open");
+      timer = window.setInterval(emitAll, intervalMs);
+    },
+    disconnect() {
+      if (timer !== null) window.clearInterval(timer);
+      timer = null;
+      core.setStatus("closed");
+    },
+    subscribe: core.subscribe,
+    async backfill(siteId, from, to) {
+      const rows: Reading[] = [];
+      for (let t = from; t <= to; t += 300_000) {
+        rows.push({ ...simulateReading(state.seed, siteId, simTime(state.clock, t), state.scenarios), ts: t });
+      }
+      return rows;
+    },
+    status: core.status,
+    onStatus: core.onStatus,
+    simulation: {
+      get: () => state,
+      set(next) {
+        state = next;
+        // Dragging the scrubber calls this continuously; one extra reading per second is plenty.
+        if (timer !== null && Date.now() - lastEmit >= 1000) emitAll();
+      },
+    },
+  };
+}
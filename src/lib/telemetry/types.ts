@@ -0,0 +1,24 @@
+import type { Reading } from "@/lib/types";
+
+export type ConnectionStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+export type ReadingListener = (reading: Reading) => void;
+export type StatusListener = (status: ConnectionStatus) => void;
+
+/**
+ * A stream of readings for one or more sites. Implementations own transport
+ * details (timers, sockets, polling) and reconnect on their own; callers only
+ * see `Reading`s and a coarse connection status.
+ */
+export interface TelemetrySource {
+  /** Short label for the header badge, e.g. "Simulator" or "WebSocket". */
+  readonly label: string;
+  connect(): void;
+  disconnect(): void;
+  /** Listen for live readings of one site. Returns an unsubscribe function. */
+  subscribe(siteId: string, listener: ReadingListener): () => void;
+  /** Historical readings in `[from, to]`, ascending by `ts`. */
+  backfill(siteId: string, from: number, to: number): Promise<Reading[]>;
+  status(): ConnectionStatus;
+  onStatus(listener: StatusListener): () => void;
+}
@@ -0,0 +1,103 @@
+import type { Reading } from "@/lib/types";
+import { backoffDelay, createSourceCore, fetchReadings, siteIdOf, toReading } from "./core";
+import type { TelemetrySource } from "./types";
+
+export type WebSocketSourceOptions = {
+  /** e.g. `ws://localhost:8787/ws` */
+  url: string;
+  /** HTTP base used for backfill (`{historyUrl}/history?site=…&from=…&to=…`). Backfill is empty without it. */
+  historyUrl?: string;
+};
+
+/**
+ * Live readings over a WebSocket. On open (and whenever a new site is
+ * subscribed) the client sends `{"type":"subscribe","sites":[…]}`, and
+ * `{"type":"unsubscribe","sites":[…]}` when a site's last listener leaves. The server
+ * may push a single record, an array of records, or `{"type":"reading", …}`;
+ * each record needs a site id and a timestamp (see `toReading`).
+ */
+export function createWebSocketSource({ url, historyUrl }: WebSocketSourceOptions): TelemetrySource {
+  const core = createSourceCore();
+  const last = new Map<string, Reading>();
+  let ws: WebSocket | null = null;
+  let retry: number | null = null;
+  let attempt = 0;
+  let wanted = false;
+
+  function send(type: "subscribe" | "unsubscribe", sites: string[]) {
+    if (ws?.readyState === WebSocket.OPEN && sites.length) ws.send(JSON.stringify({ type, sites }));
+  }
+
+  function handle(record: unknown) {
+    const siteId = siteIdOf(record);
+    if (!siteId) return;
+    const payload = (record as { reading?: unknown }).reading ?? record;
+    const prev = last.get(siteId);
+    const reading = toReading(payload, prev);
+    if (!reading || (prev && reading.ts <= prev.ts)) return;
+    last.set(siteId, reading);
+    core.emit(siteId, reading);
+  }
+
+  function open() {
+    core.setStatus(attempt === 0 ? "connecting" : "reconnecting");
+    const socket = new WebSocket(url);
+    ws = socket;
+    socket.onopen = () => {
+      attempt = 0;
+      core.setStatus("open");
+      send("subscribe", core.siteIds());
+    };
+    socket.onmessage = (ev) => {
+      let body: unknown;
+      try { body = JSON.parse(String(ev.data)); } catch { return; }
+      (Array.isArray(body) ? body : [body]).forEach(handle);
+    };
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      ws = null;
+      if (!wanted) { core.setStatus("closed"); return; }
+      core.setStatus("reconnecting");
+      retry = window.setTimeout(open, backoffDelay(attempt++));
+    };
+  }
+
+  return {
+    label: "WebSocket",
+    connect() {
+      if (wanted) return;
+      wanted = true;
+      attempt = 0;
+      open();
+    },
+    disconnect() {
+      wanted = false;
+      if (retry !== null) window.clearTimeout(retry);
+      retry = null;
+      const socket = ws;
+      ws = null;
+      socket?.close();
+      core.setStatus("closed");
+    },
+    subscribe(siteId, listener) {
+      const isNew = !core.siteIds().includes(siteId);
+      const off = core.subscribe(siteId, listener);
+      if (isNew) send("subscribe", [siteId]);
+      return () => {
+        off();
+        if (!core.siteIds().includes(siteId)) send("unsubscribe", [siteId]);
+      };
+    },
+    async backfill(siteId, from, to) {
+      if (!historyUrl) return [];
+      const q = new URLSearchParams({ site: siteId, from: String(from), to: String(to) });
+      const rows = await fetchReadings(`${historyUrl}/history?${q}`);
+      const prev = last.get(siteId);
+      const end = rows[rows.length - 1];
+      if (end && (!prev || prev.ts < end.ts)) last.set(siteId, end);
+      return rows;
+    },
+    status: core.status,
+    onStatus: core.onStatus,
+  };
+}
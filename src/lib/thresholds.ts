@@ -0,0 +1,134 @@
+import type { AlertLevel, ParamKey } from "@/lib/types";
+import { PARAM_KEYS } from "@/lib/types";
+
+export type Threshold = { warn: number; crit: number; dir: "over" | "under" };
+export type ThresholdSet = Record<ParamKey, Threshold>;
+
+/** A named set of per-parameter overrides; unset parameters fall through to the default profile. */
+export type ThresholdProfile = {
+  id: string;
+  name: string;
+  overrides: Partial<Record<ParamKey, Partial<Threshold>>>;
+};
+
+export type ThresholdConfig = {
+  profiles: ThresholdProfile[];
+  /** site id → profile id; unassigned sites use `DEFAULT_PROFILE_ID`. */
+  assignments: Record<string, string>;
+};
+
+export const DEFAULT_PROFILE_ID = "default";
+
+export const BASE_THRESHOLDS: ThresholdSet = {
+  temp: { warn: 20, crit: 24, dir: "over" },
+  sal:  { warn: 20, crit: 15, dir: "under" },
+  ph:   { warn: 7.7, crit: 7.6, dir: "under" },
+  do:   { warn: 6.0, crit: 4.0, dir: "under" },
+  turb: { warn: 50, crit: 150, dir: "over" },
+  chl:  { warn: 15, crit: 40, dir: "over" },
+  gene_expr: { warn: 40, crit: 70, dir: "over" },
+  methyl:    { warn: 0.55, crit: 0.7, dir: "over" },
+  metabo:    { warn: 50, crit: 75, dir: "over" },
+  lipid_ox:  { warn: 0.35, crit: 0.55, dir: "over" },
+  do_sat:     { warn: 80, crit: 60, dir: "under" },
+  omega_arag: { warn: 1.5, crit: 1.0, dir: "under" },
+  thermal_dh: { warn: 48, crit: 168, dir: "over" },
+};
+
+export const DEFAULT_CONFIG: ThresholdConfig = {
+  profiles: [
+    { id: DEFAULT_PROFILE_ID, name: "Default", overrides: {} },
+    { id: "pacific-oyster", name: "Pacific oyster", overrides: { temp: { warn: 19, crit: 22 }, ph: { warn: 7.75, crit: 7.6 } } },
+    { id: "manila-clam", name: "Manila clam", overrides: { sal: { warn: 22, crit: 18 }, turb: { warn: 40, crit: 120 } } },
+    { id: "geoduck", name: "Geoduck", overrides: { temp: { warn: 17, crit: 20 }, do: { warn: 6.5, crit: 4.5 } } },
+  ],
+  assignments: {},
+};
+
+export function profileFor(config: ThresholdConfig, siteId: string): ThresholdProfile {
+  const id = config.assignments[siteId] ?? DEFAULT_PROFILE_ID;
+  return config.profiles.find(p => p.id === id)
+    ?? config.profiles.find(p => p.id === DEFAULT_PROFILE_ID)
+    ?? { id: DEFAULT_PROFILE_ID, name: "Default", overrides: {} };
+}
+
+/** Effective limits for a site: base values, then the default profile, then the site's profile. */
+export function resolveThresholds(config: ThresholdConfig, siteId: string): ThresholdSet {
+  const base = config.profiles.find(p => p.id === DEFAULT_PROFILE_ID);
+  const site = profileFor(config, siteId);
+  const out = {} as ThresholdSet;
+  for (const k of PARAM_KEYS) {
+    out[k] = { ...BASE_THRESHOLDS[k], ...base?.overrides[k], ...site.overrides[k] };
+  }
+  return out;
+}
+
+export function classifyAlert(key: ParamKey, value: number, limits: ThresholdSet): AlertLevel {
+  const { warn, crit, dir } = limits[key];
+  if (dir === "over") {
+    if (value >= crit) return "crit";
+    if (value >= warn) return "warn";
+    return "ok";
+  } else {
+    if (value <= crit) return "crit";
+    if (value <= warn) return "warn";
+    return "ok";
+  }
+}
+
+/** Whether `warn` comes before `crit` in the direction of `dir` (equal limits are allowed). */
+function limitsOrdered({ warn, crit, dir }: Threshold): boolean {
+  return dir === "over" ? warn <= crit : warn >= crit;
+}
+
+/**
+ * Validate an imported JSON document. Accepts a full config or a bare profile
+ * array; throws with a readable message on anything else, including limits
+ * whose warn and crit are out of order for the parameter's direction.
+ */
+export function parseThresholdConfig(raw: unknown): ThresholdConfig {
+  const doc = Array.isArray(raw) ? { profiles: raw, assignments: {} } : raw as Partial<ThresholdConfig> | null;
+  if (!doc || !Array.isArray(doc.profiles)) throw new Error("Expected an object with a `profiles` array");
+  const profiles = doc.profiles.map((p, i) => {
+    if (!p || typeof p.id !== "string" || typeof p.name !== "string") throw new Error(`Profile #${i + 1} needs string \`id\` and \`name\``);
+    if (p.overrides != null && (typeof p.overrides !== "object" || Array.isArray(p.overrides))) throw new Error(`Profile "${p.name}": \`overrides\` must be an object`);
+    const overrides: ThresholdProfile["overrides"] = {};
+    for (const [k, v] of Object.entries(p.overrides ?? {})) {
+      if (!PARAM_KEYS.includes(k as ParamKey)) throw new Error(`Profile "${p.name}": unknown parameter "${k}"`);
+      if (!v || typeof v !== "object" || Array.isArray(v)) throw new Error(`Profile "${p.name}": ${k} must be an object with \`warn\`, \`crit\` and/or \`dir\``);
+      const o: Partial<Threshold> = {};
+      const src = v as Partial<Threshold>;
+      if (src.warn !== undefined) o.warn = Number(src.warn);
+      if (src.crit !== undefined) o.crit = Number(src.crit);
+      if (src.dir !== undefined) {
+        if (src.dir !== "over" && src.dir !== "under") throw new Error(`Profile "${p.name}": ${k}.dir must be "over" or "under"`);
+        o.dir = src.dir;
+      }
+      if ([o.warn, o.crit].some(n => n !== undefined && !Number.isFinite(n))) throw new Error(`Profile "${p.name}": ${k} limits must be numbers`);
+      overrides[k as ParamKey] = o;
+    }
+    return { id: p.id, name: p.name, overrides };
+  });
+  // Check the limits each profile ends up with, layered as `resolveThresholds` does.
+  const base = profiles.find(p => p.id === DEFAULT_PROFILE_ID);
+  for (const p of profiles) {
+    for (const k of Object.keys(p.overrides) as ParamKey[]) {
+      const t = { ...BASE_THRESHOLDS[k], ...base?.overrides[k], ...p.overrides[k] };
+      if (!limitsOrdered(t)) {
+        throw new Error(`Profile "${p.name}": ${k} warn (${t.warn}) must be ${t.dir === "over" ? "at or below" : "at or above"} crit (${t.crit}) for "${t.dir}" limits`);
+      }
+    }
+  }
+  const assignments: Record<string, string> = {};
+  for (const [site, id] of Object.entries(doc.assignments ?? {})) {
+    if (typeof id === "string") assignments[site] = id;
+  }
+  return { profiles, assignments };
+}
+
+/** Merge imported profiles over existing ones by id; imported assignments win. */
+export function mergeThresholdConfig(current: ThresholdConfig, incoming: ThresholdConfig): ThresholdConfig {
+  const byId = new Map(current.profiles.map(p => [p.id, p]));
+  for (const p of incoming.profiles) byId.set(p.id, p);
+  return { profiles: [...byId.values()], assignments: { ...current.assignments, ...incoming.assignments } };
+}
@@ -0,0 +1,32 @@
+export type RangePreset = "3h" | "24h" | "7d" | "30d" | "custom";
+
+export type TimeRange = { preset: RangePreset; from?: number; to?: number };
+
+export const RANGE_PRESETS: { value: RangePreset; label: string; ms: number }[] = [
+  { value: "3h", label: "Last 3 h", ms: 3 * 3600_000 },
+  { value: "24h", label: "Last 24 h", ms: 24 * 3600_000 },
+  { value: "7d", label: "Last 7 d", ms: 7 * 86_400_000 },
+  { value: "30d", label: "Last 30 d", ms: 30 * 86_400_000 },
+];
+
+/** Absolute bounds for a range. Presets end at `now` and follow live data; custom ranges are fixed. */
+export function resolveRange(range: TimeRange, now: number): { from: number; to: number; live: boolean } {
+  if (range.preset === "custom") {
+    const to = range.to ?? now;
+    return { from: range.from ?? to - 24 * 3600_000, to, live: false };
+  }
+  const ms = RANGE_PRESETS.find(p => p.value === range.preset)?.ms ?? RANGE_PRESETS[0].ms;
+  return { from: now - ms, to: now, live: true };
+}
+
+export function rangeLabel(range: TimeRange) {
+  if (range.preset !== "custom") return RANGE_PRESETS.find(p => p.value === range.preset)?.label ?? range.preset;
+  const { from, to } = resolveRange(range, Date.now());
+  return `${new Date(from).toLocaleString()} – ${new Date(to).toLocaleString()}`;
+}
+
+/** `datetime-local` input value for a timestamp, in local time. */
+export function toLocalInput(ts: number) {
+  const d = new Date(ts - new Date(ts).getTimezoneOffset() * 60_000);
+  return d.toISOString().slice(0, 16);
+}
@@ -0,0 +1,67 @@
+export type MeasuredKey = "temp" | "sal" | "ph" | "do" | "turb" | "chl" | "gene_expr" | "methyl" | "metabo" | "lipid_ox";
+/** Computed from measured values (`src/lib/derived.ts`), never reported by a sensor. */
+export type DerivedKey = "do_sat" | "omega_arag" | "thermal_dh";
+export type ParamKey = MeasuredKey | DerivedKey;
+
+export type Reading = {
+  ts: number;
+  temp: number;
+  sal: number;
+  ph: number;
+  do: number;
+  turb: number;
+  chl: number;
+  gene_expr: number; // HAB-related toxin gene expression (AU)
+  methyl: number;    // Epigenetic stress methylation fraction (0-1)
+  metabo: number;    // Oxidative/toxin metabolite index (AU)
+  lipid_ox: number;  // Lipid oxidation ratio (0-1)
+  do_sat: number;     // DO percent saturation
+  omega_arag: number; // Aragonite saturation state Ω_arag
+  thermal_dh: number; // Thermal stress, degree-hours above threshold
+};
+
+export type Site = {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  depth_m: number;
+  /** Region or farm the site belongs to (`SiteConfig.regions`). */
+  regionId?: string;
+  tags?: SiteTags;
+  /** Archived sites keep their history but are no longer streamed, evaluated or listed. */
+  archived?: boolean;
+};
+
+export type SiteTags = {
+  species: string[];
+  leaseId?: string;
+  owner?: string;
+};
+
+export const MEASURED_KEYS: MeasuredKey[] = ["temp","sal","ph","do","turb","chl","gene_expr","methyl","metabo","lipid_ox"];
+export const DERIVED_KEYS: DerivedKey[] = ["do_sat","omega_arag","thermal_dh"];
+export const PARAM_KEYS: ParamKey[] = [...MEASURED_KEYS, ...DERIVED_KEYS];
+export const ENV_KEYS: ParamKey[] = ["temp","sal","ph","do","turb","chl"];
+export const BIOINDICATOR_KEYS: ParamKey[] = ["gene_expr","methyl","metabo","lipid_ox"];
+
+/** Derived fields of a reading that has not been through `deriveReading` yet. */
+export const UNDERIVED: Pick<Reading, DerivedKey> = { do_sat: NaN, omega_arag: NaN, thermal_dh: NaN };
+
+export type AlertLevel = "ok" | "warn" | "crit";
+
+export const PARAM_META: Record<ParamKey, { label: string; unit: string }> = {
+  temp: { label: "Temperature", unit: "°C" },
+  sal: { label: "Salinity", unit: "PSU" },
+  ph: { label: "pH", unit: "" },
+  do: { label: "Dissolved O₂", unit: "mg/L" },
+  turb: { label: "Turbidity", unit: "NTU" },
+  chl: { label: "Chlorophyll‑a", unit: "µg/L" },
+  gene_expr: { label: "HAB gene expression", unit: "AU" },
+  methyl: { label: "Stress methylation", unit: "" },
+  metabo: { label: "Toxin metabolites", unit: "AU" },
+  lipid_ox: { label: "Lipid oxidation", unit: "" },
+  do_sat: { label: "DO saturation", unit: "%" },
+  omega_arag: { label: "Aragonite saturation Ω", unit: "" },
+  thermal_dh: { label: "Thermal stress", unit: "°C·h" },
+};
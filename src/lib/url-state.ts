@@ -0,0 +1,66 @@
+import type { ParamKey } from "@/lib/types";
+import { PARAM_KEYS } from "@/lib/types";
+import { RANGE_PRESETS, type TimeRange } from "@/lib/time-range";
+
+/**
+ * The part of the dashboard a link should reproduce. Every field is optional:
+ * a missing one means "the default", so a bare URL opens the dashboard as usual.
+ */
+export type UrlState = {
+  site?: string;
+  param?: ParamKey;
+  tab?: string;
+  q?: string;
+  range?: TimeRange;
+  view?: string;
+};
+
+const isoMinute = (t: number) => new Date(t).toISOString().replace(/:\d\d\.\d{3}Z$/, "Z");
+
+/** `?site=…&param=…&range=24h&tab=…&q=…&view=…`; custom ranges add ISO `from`/`to`. */
+export function formatUrlState(state: UrlState): string {
+  const p = new URLSearchParams();
+  if (state.site) p.set("site", state.site);
+  if (state.param) p.set("param", state.param);
+  if (state.range) {
+    p.set("range", state.range.preset);
+    if (state.range.preset === "custom") {
+      if (state.range.from !== undefined) p.set("from", isoMinute(state.range.from));
+      if (state.range.to !== undefined) p.set("to", isoMinute(state.range.to));
+    }
+  }
+  if (state.tab) p.set("tab", state.tab);
+  if (state.q) p.set("q", state.q);
+  if (state.view) p.set("view", state.view);
+  const s = p.toString();
+  return s ? `?${s}` : "";
+}
+
+/** Reads what `formatUrlState` wrote; unknown parameters, presets and malformed times are dropped. */
+export function parseUrlState(search: string): UrlState {
+  const p = new URLSearchParams(search);
+  const out: UrlState = {};
+  const site = p.get("site");
+  if (site) out.site = site;
+  const param = p.get("param");
+  if (param && PARAM_KEYS.includes(param as ParamKey)) out.param = param as ParamKey;
+  const tab = p.get("tab");
+  if (tab && /^[a-z-]+$/.test(tab)) out.tab = tab;
+  const q = p.get("q");
+  if (q) out.q = q;
+  const view = p.get("view");
+  if (view) out.view = view;
+  const preset = p.get("range");
+  if (preset === "custom") {
+    const from = Date.parse(p.get("from") ?? ""), to = Date.parse(p.get("to") ?? "");
+    if (Number.isFinite(from) && Number.isFinite(to) && to > from) out.range = { preset, from, to };
+  } else if (RANGE_PRESETS.some(r => r.value === preset)) {
+    out.range = { preset: preset as TimeRange["preset"] };
+  }
+  return out;
+}
+
+/** Absolute link to `state` under the app's base path (`/m2m-dashboard/` on GitHub Pages). */
+export function shareUrl(state: UrlState): string {
+  return `${window.location.origin}${import.meta.env.BASE_URL}${formatUrlState(state)}`;
+}
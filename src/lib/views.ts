@@ -0,0 +1,60 @@
+import type { ParamKey } from "@/lib/types";
+import { BIOINDICATOR_KEYS, DERIVED_KEYS, ENV_KEYS, PARAM_KEYS } from "@/lib/types";
+import type { TimeRange } from "@/lib/time-range";
+
+/** Which parameters the overview shows, in each of its three places. */
+export type DashboardLayout = {
+  metricKeys: ParamKey[];
+  trendKeys: ParamKey[];
+  bioKeys: ParamKey[];
+};
+
+export const DEFAULT_LAYOUT: DashboardLayout = {
+  metricKeys: ENV_KEYS,
+  trendKeys: [...ENV_KEYS, ...DERIVED_KEYS],
+  bioKeys: BIOINDICATOR_KEYS,
+};
+
+export const LAYOUT_SLOTS: { key: keyof DashboardLayout; label: string }[] = [
+  { key: "metricKeys", label: "Latest-value cards" },
+  { key: "trendKeys", label: "Trend sparklines" },
+  { key: "bioKeys", label: "BioIndicator sparklines" },
+];
+
+/** A named arrangement: the sites listed, the chart on screen and the layout around it. */
+export type DashboardView = {
+  id: string;
+  name: string;
+  /** Sites the list is narrowed to; empty means all. */
+  siteIds: string[];
+  activeSite: string;
+  param: ParamKey;
+  range: TimeRange;
+  compare: boolean;
+  compareSites: string[];
+  normalize: boolean;
+  layout: DashboardLayout;
+  savedAt: number;
+};
+
+/** `keys` deduplicated, unknown ones dropped, in the usual parameter order. */
+export const orderedKeys = (keys: ParamKey[]) => PARAM_KEYS.filter(k => keys.includes(k));
+
+/** Adds `input` as a new view, or replaces the view with the same name (ignoring case) keeping its id. */
+export function saveView(views: DashboardView[], input: Omit<DashboardView, "id" | "savedAt">, now: number): { views: DashboardView[]; view: DashboardView } {
+  const name = input.name.trim();
+  if (!name) throw new Error("View name is required");
+  const existing = views.find(v => v.name.toLowerCase() === name.toLowerCase());
+  const view: DashboardView = {
+    ...input,
+    name,
+    layout: {
+      metricKeys: orderedKeys(input.layout.metricKeys),
+      trendKeys: orderedKeys(input.layout.trendKeys),
+      bioKeys: orderedKeys(input.layout.bioKeys),
+    },
+    id: existing?.id ?? `view-${now.toString(36)}`,
+    savedAt: now,
+  };
+  return { views: existing ? views.map(v => v.id === existing.id ? view : v) : [...views, view], view };
+}
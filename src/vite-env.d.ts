@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TELEMETRY_SOURCE?: "simulator" | "websocket" | "polling";
+  readonly VITE_TELEMETRY_WS_URL?: string;
+  readonly VITE_TELEMETRY_API_URL?: string;
+  readonly VITE_TELEMETRY_POLL_MS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}